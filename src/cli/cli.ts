@@ -9,6 +9,12 @@ import "tsconfig-paths/register";
 // import { ensurePythonEnv } from "./env"; // Removed
 import { cmdSynth } from "./commands/synth";
 import { cmdExport } from "./commands/export";
+import { cmdCheck } from "./commands/check";
+import { cmdDiff } from "./commands/diff";
+import { cmdVerify } from "./commands/verify";
+import { cmdPullPlacement } from "./commands/pull-placement";
+import { cmdPullPositions } from "./commands/pull-positions";
+import { cmdImport } from "./commands/import";
 import { cmdPrint } from "./commands/print";
 import { cmdParts } from "./commands/parts";
 import { cmdLib } from "./commands/lib";
@@ -31,8 +37,21 @@ Usage:
   npx @tobisk/pcbs <command> [options]
 
 Commands:
-  synth [entry]                  Synthesize a schematic to KiCad project
-  export [entry]                 Export gerber, BOM, and placement files
+  synth [entry] [--variant <name>] [--emit-ir [file]] [--update-pcb]
+                                 Synthesize a schematic to KiCad project
+  export [entry] [--variant <name>]
+                                 Export gerber, BOM, and placement files
+  check [entry] [--json] [--ignore-ref <ref>] [--ignore-net <net>]
+                                 Run ERC and design lint without writing files
+  diff <rev-a> [rev-b] [entry] [--json] [--output <file>]
+                                 Compare a schematic between git revisions (ECO report)
+  verify [entry] [--json] [--pcb <file>]
+                                 Report differences between the KiCad board and the circuit
+  pull-placement [entry] [--pcb <file>] [--output <file>]
+                                 Save footprint positions from the KiCad board to placements.ts
+  pull-positions [entry]         Keep symbol positions from the KiCad schematic on the next synth
+  import <file.kicad_sch> [--name <Class>] [--output <file>]
+                                 Convert a KiCad schematic into a TypeScript schematic
   print [entry]                  Print schematic to PDF
   parts [--footprint <fp>] [--value <val>]
                                  Search JLC Parts for components
@@ -41,13 +60,19 @@ Commands:
   setup                          Configure project tsconfig.json for KiCad types
 
 Schematic Selection:
-  If no entry is provided for synth/export, an interactive list of
+  If no entry is provided for synth/export/check, an interactive list of
   available schematics from src/schematics/ is shown.
 
 Examples:
   npx @tobisk/pcbs synth my_board
   npx @tobisk/pcbs synth ./src/schematics/my_board/index.ts
   npx @tobisk/pcbs export my_board
+  npx @tobisk/pcbs export my_board --variant pro
+  npx @tobisk/pcbs check my_board --json
+  npx @tobisk/pcbs diff main HEAD my_board
+  npx @tobisk/pcbs verify my_board
+  npx @tobisk/pcbs pull-placement my_board
+  npx @tobisk/pcbs pull-positions my_board
   npx @tobisk/pcbs print my_board
   npx @tobisk/pcbs parts --footprint 0603 --value 10k
   npx @tobisk/pcbs parts
@@ -67,6 +92,18 @@ async function main(): Promise<void> {
       return cmdSynth(commandArgs);
     case "export":
       return cmdExport(commandArgs);
+    case "check":
+      return cmdCheck(commandArgs);
+    case "diff":
+      return cmdDiff(commandArgs);
+    case "verify":
+      return cmdVerify(commandArgs);
+    case "pull-placement":
+      return cmdPullPlacement(commandArgs);
+    case "pull-positions":
+      return cmdPullPositions(commandArgs);
+    case "import":
+      return cmdImport(commandArgs);
     case "print":
       return cmdPrint(commandArgs);
     case "parts":
@@ -0,0 +1,77 @@
+import * as path from "path";
+import { getConfig } from "../config";
+import { resolveSchematic, die } from "../utils";
+import { getProjectLibraryPaths } from "../synthesis";
+import { KicadGenerator } from "../../kicad/KicadGenerator";
+import { SymbolLibrary } from "../../kicad/SymbolLibrary";
+import { FootprintLibrary } from "../../kicad/FootprintLibrary";
+import { DesignChecker } from "../../kicad/DesignChecker";
+import { describeFinding } from "../../kicad/SourceLocator";
+import { Annotator } from "../../kicad/Annotator";
+import type { CircuitSnapshot } from "../../synth/types";
+
+/**
+ * check: Run the electrical rules check and design lint without writing any
+ * KiCad files. Works without a KiCad installation as long as the libraries
+ * used by the design can be found.
+ *
+ * Options:
+ *   --json               Print the findings as JSON
+ *   --ignore-ref <ref>   Suppress findings involving a component (wildcards allowed, repeatable)
+ *   --ignore-net <net>   Suppress findings involving a net (wildcards allowed, repeatable)
+ */
+export async function cmdCheck(args: string[]): Promise<void> {
+  let entry: string | undefined;
+  const ignoreRefs: string[] = [];
+  const ignoreNets: string[] = [];
+  const json = args.includes("--json");
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--ignore-ref" && args[i + 1]) {
+      ignoreRefs.push(args[++i]);
+    } else if (args[i] === "--ignore-net" && args[i + 1]) {
+      ignoreNets.push(args[++i]);
+    } else if (!args[i].startsWith("--") && !entry) {
+      entry = args[i];
+    }
+  }
+
+  const schematicPath = await resolveSchematic(entry);
+  const schematicDir = path.dirname(schematicPath);
+  const { projectRoot } = getConfig();
+
+  let snapshot: CircuitSnapshot;
+  try {
+    const mod = require(schematicPath);
+    const schematic = mod.default;
+
+    if (!schematic || typeof schematic._generateWithCapture !== "function") {
+      die(`${schematicPath} must default-export a Schematic instance.`);
+    }
+    snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, path.join(schematicDir, "uuids.json"));
+  } catch (err: any) {
+    die(`Failed to load schematic: ${err.message}`);
+  }
+
+  const symbols = new SymbolLibrary(KicadGenerator.symbolLibraryPaths(getProjectLibraryPaths()));
+  const footprints = new FootprintLibrary([schematicDir, process.cwd()], [path.join(projectRoot, ".kicad")]);
+  const result = new DesignChecker(snapshot, symbols, footprints).check({ ignoreRefs, ignoreNets });
+
+  if (json) {
+    console.log(JSON.stringify({ schematic: snapshot.name, ...result }, null, 2));
+  } else {
+    console.log(`\n🔍  Checking: ${snapshot.name}\n`);
+    for (const finding of result.findings) {
+      const icon = finding.severity === "error" ? "❌" : "⚠️ ";
+      console.log(`  ${icon} [${finding.rule}] ${describeFinding(finding)}`);
+    }
+    if (result.findings.length > 0) console.log();
+
+    const summary = `${result.errors} error(s), ${result.warnings} warning(s)` +
+      (result.suppressed > 0 ? `, ${result.suppressed} suppressed` : "");
+    console.log(result.errors > 0 ? `❌  Check failed: ${summary}\n` : `✨  Check passed: ${summary}\n`);
+  }
+
+  if (result.errors > 0) process.exit(1);
+}
@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { getConfig } from "../config";
+import { resolveSchematic, die } from "../utils";
+import { diffCircuits, formatEco } from "../utils/diff";
+import { Annotator } from "../../kicad/Annotator";
+import { toJSON, CircuitIR } from "../../synth/CircuitIR";
+
+/**
+ * diff: Compare a schematic between two git revisions and print an ECO
+ * report: added, removed and changed components, renamed nets and pins
+ * connected to other nets. Without a second revision, the working tree is
+ * compared against the first.
+ *
+ * Usage:
+ *   diff <rev-a> [rev-b] [entry]
+ *
+ * Options:
+ *   --json            Print the differences as JSON
+ *   --output <file>   Write the report to a file instead of printing it
+ */
+export async function cmdDiff(args: string[]): Promise<void> {
+  let entry: string | undefined;
+  let output: string | undefined;
+  const revisions: string[] = [];
+  const json = args.includes("--json");
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--output" && args[i + 1]) {
+      output = args[++i];
+    } else if (!args[i].startsWith("--")) {
+      if (revisions.length < 2 && isRevision(args[i])) revisions.push(args[i]);
+      else if (!entry) entry = args[i];
+    }
+  }
+  if (revisions.length === 0) {
+    die("Usage: pcbs diff <rev-a> [rev-b] [entry]");
+  }
+
+  const schematicPath = await resolveSchematic(entry);
+  const [from, to] = revisions;
+  let before: CircuitIR;
+  let after: CircuitIR;
+  try {
+    before = circuitAt(schematicPath, from);
+    after = to ? circuitAt(schematicPath, to) : loadCircuit(schematicPath);
+  } catch (err: any) {
+    die(`Failed to load schematic: ${err.message}`);
+  }
+
+  const diff = diffCircuits(before, after);
+  const report = json
+    ? JSON.stringify({ from, to: to ?? "working tree", ...diff }, null, 2) + "\n"
+    : formatEco(diff, from, to ?? "working tree");
+
+  if (output) {
+    fs.writeFileSync(output, report);
+    console.log(`  📄 ECO report: ${path.resolve(output)}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+function git(args: string[], cwd = getConfig().projectRoot): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+}
+
+function isRevision(name: string): boolean {
+  try {
+    git(["rev-parse", "--verify", "--quiet", `${name}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Load the schematic as of a revision, from a temporary worktree. */
+function circuitAt(schematicPath: string, revision: string): CircuitIR {
+  const { projectRoot } = getConfig();
+  const relative = path.relative(git(["rev-parse", "--show-toplevel"], path.dirname(schematicPath)), schematicPath);
+  // Within the project, so that the design resolves its packages from the project's node_modules
+  const worktree = fs.mkdtempSync(path.join(projectRoot, ".pcbs-diff-"));
+  try {
+    git(["worktree", "add", "--detach", worktree, revision]);
+    const entry = path.join(worktree, relative);
+    if (!fs.existsSync(entry)) throw new Error(`${relative} does not exist at ${revision}.`);
+    return loadCircuit(entry);
+  } finally {
+    try {
+      git(["worktree", "remove", "--force", worktree]);
+    } catch {
+      fs.rmSync(worktree, { recursive: true, force: true });
+      git(["worktree", "prune"]);
+    }
+  }
+}
+
+/** Throws rather than exiting, so that worktrees get removed. */
+function loadCircuit(schematicPath: string): CircuitIR {
+  const schematic = require(schematicPath).default;
+  if (!schematic || typeof schematic._generateWithCapture !== "function") {
+    throw new Error(`${schematicPath} must default-export a Schematic instance.`);
+  }
+  const snapshot = schematic._generateWithCapture();
+  Annotator.applyPersisted(snapshot, path.join(path.dirname(schematicPath), "uuids.json"));
+  return toJSON(snapshot);
+}
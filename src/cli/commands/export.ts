@@ -6,6 +6,7 @@ import { resolveSchematic, die } from "../utils";
 import { generateBom } from "../utils/bom";
 import { convertPosToCpl } from "../utils/cpl";
 import type { Component } from "../../synth/Component";
+import { Annotator } from "../../kicad/Annotator";
 
 /**
  * export: Export manufacturing files (Gerber, Drill, BOM, CPL) for JLCPCB.
@@ -18,18 +19,32 @@ import type { Component } from "../../synth/Component";
  * - CPL CSV (JLCPCB pick & place format)
  *
  * All files are zipped into a single archive.
+ *
+ * Options:
+ *   --variant <name>   Export one assembly variant: its BOM and CPL leave out
+ *                      the components it does not populate
  */
 export async function cmdExport(args: string[]): Promise<void> {
-  const entry = args[0];
+  let entry: string | undefined;
+  let variant: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--variant" && args[i + 1]) {
+      variant = args[++i];
+    } else if (!args[i].startsWith("--") && !entry) {
+      entry = args[i];
+    }
+  }
+
   const schematicPath = await resolveSchematic(entry);
   const schematicDir = path.dirname(schematicPath);
   const projectName = path.basename(schematicDir);
   const { kicadCliPath } = getConfig();
 
-  console.log(`\n📦  Exporting JLCPCB files: ${projectName}\n`);
+  console.log(`\n📦  Exporting JLCPCB files: ${projectName}${variant ? ` (variant ${variant})` : ""}\n`);
 
   // ── Step 0: Load the TypeScript schematic to get component registry ──
   let components: Component<any>[] = [];
+  let variants: string[] = [];
   try {
     const mod = require(schematicPath);
     const schematic = mod.default;
@@ -40,13 +55,20 @@ export async function cmdExport(args: string[]): Promise<void> {
 
     console.log(`  -> Loading circuit: ${schematic.name}...`);
     const snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, path.join(schematicDir, "uuids.json"));
     components = snapshot.components;
+    variants = snapshot.variants ?? [];
     console.log(`  -> Found ${components.length} components in circuit registry.`);
   } catch (err: any) {
     console.warn(`  ⚠️  Failed to load schematic TS: ${err.message}`);
     console.warn(`  ⚠️  BOM will fall back to parsing .kicad_sch if available.`);
   }
 
+  if (variant && !variants.includes(variant)) {
+    die(`Unknown variant '${variant}'. ${variants.length > 0 ? `Declared variants: ${variants.join(", ")}.` : "The schematic declares no variants."}`);
+  }
+  const artifactName = variant ? `${projectName}-${variant}` : projectName;
+
   // ── Step 1: Find the .kicad_pcb file ──
   let pcbFile = path.join(schematicDir, `${projectName}.kicad_pcb`);
   if (!fs.existsSync(pcbFile)) {
@@ -161,15 +183,16 @@ export async function cmdExport(args: string[]): Promise<void> {
         `--format`, `ascii`,
         `--units`, `mm`,
         `--side`, `both`,
-        `--exclude-dnp`,
+        // The board's DNP flags belong to the default assembly; variants are filtered below
+        ...(variant ? [] : [`--exclude-dnp`]),
         `"${pcbFile}"`,
       ].join(" "),
       { stdio: "pipe" }
     );
 
     // Convert KiCad pos output → JLCPCB CPL format
-    const cplFile = path.join(outputBase, `CPL-${projectName}.csv`);
-    convertPosToCpl(rawPosFile, cplFile, components, process.cwd());
+    const cplFile = path.join(outputBase, `CPL-${artifactName}.csv`);
+    convertPosToCpl(rawPosFile, cplFile, components, process.cwd(), variant);
 
     // Clean up raw file
     fs.unlinkSync(rawPosFile);
@@ -182,7 +205,7 @@ export async function cmdExport(args: string[]): Promise<void> {
 
     if (components.length > 0) {
       // Generate BOM from our TypeScript circuit registry
-      bomFile = generateBom(projectName, outputBase, components);
+      bomFile = generateBom(projectName, outputBase, components, variant);
     } else {
       console.warn("  ⚠️  No components loaded from TS circuit. Skipping BOM generation.");
     }
@@ -266,7 +289,7 @@ export async function cmdExport(args: string[]): Promise<void> {
     // ══════════════════════════════════════════════
     // 7. ZIP ARCHIVE
     // ══════════════════════════════════════════════
-    const zipFile = path.join(schematicDir, `JLCPCB-${projectName}.zip`);
+    const zipFile = path.join(schematicDir, `JLCPCB-${artifactName}.zip`);
     if (fs.existsSync(zipFile)) {
       fs.unlinkSync(zipFile);
     }
@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getConfig } from "../config";
+import { die } from "../utils";
+import { SchematicImporter } from "../../kicad/SchematicImporter";
+
+/**
+ * import: Convert a KiCad schematic into a TypeScript schematic with the same
+ * components, connections and symbol positions.
+ *
+ * Options:
+ *   --name <Class>    Name of the generated Schematic class (default: from the file name)
+ *   --output <file>   Where to write the source (default: src/schematics/<name>/index.ts)
+ *   --force           Overwrite an existing file
+ */
+export async function cmdImport(args: string[]): Promise<void> {
+  let file: string | undefined;
+  let className: string | undefined;
+  let output: string | undefined;
+  const force = args.includes("--force");
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--name" && args[i + 1]) {
+      className = args[++i];
+    } else if (args[i] === "--output" && args[i + 1]) {
+      output = args[++i];
+    } else if (!args[i].startsWith("--") && !file) {
+      file = args[i];
+    }
+  }
+  if (!file) die("Usage: pcbs import <file.kicad_sch> [--name <Class>] [--output <file>]");
+  if (!fs.existsSync(file)) die(`File not found: ${file}`);
+
+  const baseName = path.basename(file, ".kicad_sch");
+  className ??= baseName.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, c: string) => c.toUpperCase()).replace(/^(\d)/, "Sheet$1");
+  if (!/^[A-Za-z_$][\w$]*$/.test(className)) die(`Invalid class name '${className}'. Pass one with --name.`);
+  output = path.resolve(output ?? path.join(getConfig().schematicsDir, baseName, "index.ts"));
+  if (fs.existsSync(output) && !force) die(`${output} already exists. Use --force to overwrite it.`);
+
+  console.log(`\n📥  Importing: ${file}\n`);
+  let result: { source: string; warnings: string[] };
+  try {
+    result = new SchematicImporter(fs.readFileSync(file, "utf-8"), className).generate();
+  } catch (err: any) {
+    die(`Import failed: ${err.message}`);
+  }
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, result.source);
+  for (const warning of result.warnings) console.warn(`  ⚠️  ${warning}`);
+  console.log(`  ✅ Wrote ${className} to ${output}\n`);
+}
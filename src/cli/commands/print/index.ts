@@ -6,9 +6,9 @@ import { Schematic } from "../../../synth/Schematic";
 import { Composable } from "../../../synth/Composable";
 import { Net } from "../../../synth/Net";
 import { Pin } from "../../../synth/types";
-import { registry } from "../../../synth/Registry";
 import { renderScope } from "./scope";
 import { GravityLayout } from "../../../synth/Layout";
+import { Annotator } from "../../../kicad/Annotator";
 
 function isDescendant(item: any, potentialAncestor: Composable<any>): boolean {
   let current = item.parent;
@@ -38,8 +38,9 @@ export async function cmdPrint(args: string[]): Promise<void> {
     }
 
     console.log(`  -> Loading circuit: ${schematic.name}...`);
-    // This populates the registry
-    schematic._generateWithCapture();
+    // This populates the schematic's registry
+    const snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, path.join(schematicDir, "uuids.json"));
   } catch (err: any) {
     die(`Failed to load schematic TS: ${err.message}`);
     return;
@@ -68,6 +69,7 @@ export async function cmdPrint(args: string[]): Promise<void> {
   doc.addPage();
 
   // Collect top-level items
+  const registry = schematic.context!.registry;
   const components = registry.getComponents().filter((c) => !c.parent && c.schematicPosition !== null && c.symbol !== "Device:DNC");
   const composables = registry.getComposables().filter((c) => !c.parent && c.schematicPosition !== null);
 
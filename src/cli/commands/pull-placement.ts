@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveSchematic, die } from "../utils";
+import { PlacementImporter, PlacementImportResult } from "../../kicad/PlacementImporter";
+import { Annotator } from "../../kicad/Annotator";
+import { UuidManager } from "../../kicad/UuidManager";
+import type { CircuitSnapshot } from "../../synth/types";
+
+/**
+ * pull-placement: Read the footprint positions of the KiCad board into a
+ * generated placements.ts next to the schematic, so that placement done in
+ * pcbnew is versioned with the circuit and applied to regenerated boards.
+ *
+ * Options:
+ *   --pcb <file>      Board to read (defaults to <name>.kicad_pcb next to the schematic)
+ *   --output <file>   Where to write the placements (defaults to placements.ts next to the schematic)
+ */
+export async function cmdPullPlacement(args: string[]): Promise<void> {
+  let entry: string | undefined;
+  let pcbPath: string | undefined;
+  let output: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--pcb" && args[i + 1]) {
+      pcbPath = args[++i];
+    } else if (args[i] === "--output" && args[i + 1]) {
+      output = args[++i];
+    } else if (!args[i].startsWith("--") && !entry) {
+      entry = args[i];
+    }
+  }
+
+  const schematicPath = await resolveSchematic(entry);
+  const schematicDir = path.dirname(schematicPath);
+  const uuidPath = path.join(schematicDir, "uuids.json");
+
+  let snapshot: CircuitSnapshot;
+  try {
+    const mod = require(schematicPath);
+    const schematic = mod.default;
+
+    if (!schematic || typeof schematic._generateWithCapture !== "function") {
+      die(`${schematicPath} must default-export a Schematic instance.`);
+    }
+    snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, uuidPath);
+  } catch (err: any) {
+    die(`Failed to load schematic: ${err.message}`);
+  }
+
+  pcbPath = path.resolve(pcbPath ?? path.join(schematicDir, `${snapshot.name}.kicad_pcb`));
+  if (!fs.existsSync(pcbPath)) die(`Board not found: ${pcbPath}.`);
+  if (!fs.existsSync(uuidPath)) die(`${uuidPath} not found. Run synth first.`);
+  output = path.resolve(output ?? path.join(schematicDir, "placements.ts"));
+
+  const uuids = new UuidManager();
+  uuids.load(uuidPath);
+  let result: PlacementImportResult;
+  try {
+    result = new PlacementImporter(snapshot, fs.readFileSync(pcbPath, "utf-8"), uuids, path.basename(pcbPath)).generate();
+  } catch (err: any) {
+    die(`Failed to read ${pcbPath}: ${err.message}`);
+  }
+
+  console.log(`\n📌  Pulling placement: ${path.relative(process.cwd(), pcbPath)}\n`);
+  fs.writeFileSync(output, result.source);
+  for (const warning of result.warnings) console.warn(`  ⚠️  ${warning}`);
+  console.log(`  ✅ Wrote ${Object.keys(result.placements).length} positions to ${output}`);
+  if (!snapshot.pcb?.placements) {
+    const module = `./${path.relative(schematicDir, output).replace(/\\/g, "/").replace(/\.ts$/, "")}`;
+    console.log(`\n  Apply them with \`import placements from "${module}";\` and \`pcb: { ..., placements }\` in the schematic options.`);
+  }
+  console.log();
+}
@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveSchematic, die } from "../utils";
+import { SchematicPositionImporter, SchematicPositionImportResult } from "../../kicad/SchematicPositionImporter";
+import { SheetHierarchy } from "../../kicad/SheetHierarchy";
+import { Annotator } from "../../kicad/Annotator";
+import type { CircuitSnapshot } from "../../synth/types";
+
+/**
+ * pull-positions: Read the symbol positions and rotations of the generated
+ * schematic into schematic-positions.json next to it, so that symbols arranged
+ * in eeschema stay where they are when synth runs again.
+ */
+export async function cmdPullPositions(args: string[]): Promise<void> {
+  const entry = args.find(arg => !arg.startsWith("--"));
+
+  const schematicPath = await resolveSchematic(entry);
+  const schematicDir = path.dirname(schematicPath);
+  const uuidPath = path.join(schematicDir, "uuids.json");
+
+  let snapshot: CircuitSnapshot;
+  try {
+    const mod = require(schematicPath);
+    const schematic = mod.default;
+
+    if (!schematic || typeof schematic._generateWithCapture !== "function") {
+      die(`${schematicPath} must default-export a Schematic instance.`);
+    }
+    snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, uuidPath);
+  } catch (err: any) {
+    die(`Failed to load schematic: ${err.message}`);
+  }
+
+  const rootPath = path.join(schematicDir, `${snapshot.name}.kicad_sch`);
+  if (!fs.existsSync(rootPath)) die(`${rootPath} not found. Run synth first.`);
+  const output = path.join(schematicDir, "schematic-positions.json");
+
+  const hierarchy = new SheetHierarchy(snapshot);
+  const sheets: Record<string, string> = {};
+  for (const sheet of hierarchy.sheets) {
+    const sheetPath = path.join(schematicDir, sheet.fileName);
+    if (fs.existsSync(sheetPath)) sheets[sheet.fileName] = fs.readFileSync(sheetPath, "utf-8");
+  }
+
+  let result: SchematicPositionImportResult;
+  try {
+    result = new SchematicPositionImporter(snapshot, sheets, hierarchy).generate();
+  } catch (err: any) {
+    die(`Failed to read the schematic: ${err.message}`);
+  }
+
+  console.log(`\n📌  Pulling positions: ${path.relative(process.cwd(), rootPath)}\n`);
+  fs.writeFileSync(output, result.content);
+  for (const warning of result.warnings) console.warn(`  ⚠️  ${warning}`);
+  console.log(`  ✅ Wrote ${Object.keys(result.positions).length} positions to ${output}`);
+  console.log();
+}
@@ -1,12 +1,32 @@
+import * as fs from "fs";
 import * as path from "path";
 import { resolveSchematic, die } from "@tobisk/pcbs/cli/utils";
-import { CircuitSnapshot } from "@tobisk/pcbs";
+import { CircuitSnapshot, toJSON } from "@tobisk/pcbs";
 
 /**
  * synth: Compile TypeScript schematic → Generate KiCad files directly
+ *
+ * Options:
+ *   --variant <name>   Mark the components this assembly variant does not
+ *                      populate as DNP and apply its value overrides
+ *   --emit-ir [file]   Also write the circuit as JSON (default:
+ *                      <name>.circuit.json next to the schematic)
+ *   --update-pcb       Move and add the positioned footprints and replace the
+ *                      outline of an existing .kicad_pcb
  */
 export async function cmdSynth(args: string[]): Promise<void> {
-  const entry = args[0];
+  let entry: string | undefined;
+  let variant: string | undefined;
+  let emitIr: string | true | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--variant" && args[i + 1]) {
+      variant = args[++i];
+    } else if (args[i] === "--emit-ir") {
+      emitIr = args[i + 1]?.endsWith(".json") ? args[++i] : true;
+    } else if (!args[i].startsWith("--") && !entry) {
+      entry = args[i];
+    }
+  }
   const schematicPath = await resolveSchematic(entry);
   const schematicDir = path.dirname(schematicPath);
   const schematicName = path.basename(schematicDir);
@@ -26,6 +46,7 @@ export async function cmdSynth(args: string[]): Promise<void> {
     const noSymbols = args.includes("--no-symbols");
     const experimentalRouting = args.includes("--experimental-routing");
     const experimentalLayout = args.includes("--experimental");
+    const updatePcb = args.includes("--update-pcb");
 
     console.log(`  → Generating circuit: ${schematic.name}...`);
     schematic.generate();
@@ -35,7 +56,19 @@ export async function cmdSynth(args: string[]): Promise<void> {
     const { runSynthesis } = require("@tobisk/pcbs/cli/synthesis");
 
     const snapshot = schematic._generateWithCapture() as CircuitSnapshot;
-    const result = runSynthesis(snapshot, schematicDir, { noWires, noSymbols, experimentalRouting, experimentalLayout });
+    if (variant) {
+      if (!snapshot.variants?.includes(variant)) {
+        die(`Unknown variant '${variant}'. ${snapshot.variants?.length ? `Declared variants: ${snapshot.variants.join(", ")}.` : "The schematic declares no variants."}`);
+      }
+      snapshot.variant = variant;
+    }
+    const result = runSynthesis(snapshot, schematicDir, { noWires, noSymbols, experimentalRouting, experimentalLayout, updatePcb });
+    // After synthesis, which annotates the components
+    if (emitIr) {
+      const irPath = emitIr === true ? path.join(schematicDir, `${snapshot.name}.circuit.json`) : path.resolve(emitIr);
+      fs.writeFileSync(irPath, JSON.stringify(toJSON(snapshot), null, 2) + "\n");
+      console.log(`  📄 Circuit IR: ${irPath}`);
+    }
 
     if (result.success) {
       console.log(`  ✅ Synthesis successful!`);
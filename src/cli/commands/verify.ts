@@ -0,0 +1,82 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveSchematic, die } from "../utils";
+import { BoardVerifier } from "../../kicad/BoardVerifier";
+import { describeFinding } from "../../kicad/SourceLocator";
+import { Annotator } from "../../kicad/Annotator";
+import { UuidManager } from "../../kicad/UuidManager";
+import type { CircuitSnapshot } from "../../synth/types";
+
+/**
+ * verify: Compare the existing KiCad board with the circuit and report
+ * footprints and connections that were changed in pcbnew or not yet
+ * updated from the schematic. Does not write any files.
+ *
+ * Options:
+ *   --json          Print the findings as JSON
+ *   --pcb <file>    Board to verify (defaults to <name>.kicad_pcb next to the schematic)
+ */
+export async function cmdVerify(args: string[]): Promise<void> {
+  let entry: string | undefined;
+  let pcbPath: string | undefined;
+  const json = args.includes("--json");
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--pcb" && args[i + 1]) {
+      pcbPath = args[++i];
+    } else if (!args[i].startsWith("--") && !entry) {
+      entry = args[i];
+    }
+  }
+
+  const schematicPath = await resolveSchematic(entry);
+  const schematicDir = path.dirname(schematicPath);
+  const uuidPath = path.join(schematicDir, "uuids.json");
+
+  let snapshot: CircuitSnapshot;
+  try {
+    const mod = require(schematicPath);
+    const schematic = mod.default;
+
+    if (!schematic || typeof schematic._generateWithCapture !== "function") {
+      die(`${schematicPath} must default-export a Schematic instance.`);
+    }
+    snapshot = schematic._generateWithCapture();
+    Annotator.applyPersisted(snapshot, uuidPath);
+  } catch (err: any) {
+    die(`Failed to load schematic: ${err.message}`);
+  }
+
+  pcbPath = path.resolve(pcbPath ?? path.join(schematicDir, `${snapshot.name}.kicad_pcb`));
+  if (!fs.existsSync(pcbPath)) {
+    die(`Board not found: ${pcbPath}. Run synth and update the PCB from the schematic in KiCad first.`);
+  }
+  if (!fs.existsSync(uuidPath)) {
+    die(`${uuidPath} not found. Run synth first.`);
+  }
+
+  const uuids = new UuidManager();
+  uuids.load(uuidPath);
+  let result;
+  try {
+    result = new BoardVerifier(snapshot, fs.readFileSync(pcbPath, "utf-8"), uuids).verify();
+  } catch (err: any) {
+    die(`Failed to read ${pcbPath}: ${err.message}`);
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ schematic: snapshot.name, board: pcbPath, ...result }, null, 2));
+  } else {
+    console.log(`\n🔍  Verifying: ${path.relative(process.cwd(), pcbPath)} against ${snapshot.name}\n`);
+    for (const finding of result.findings) {
+      const icon = finding.severity === "error" ? "❌" : "⚠️ ";
+      console.log(`  ${icon} [${finding.rule}] ${describeFinding(finding)}`);
+    }
+    if (result.findings.length > 0) console.log();
+
+    const summary = `${result.errors} error(s), ${result.warnings} warning(s)`;
+    console.log(result.errors > 0 ? `❌  Board differs from the circuit: ${summary}\n` : `✨  Board matches the circuit: ${summary}\n`);
+  }
+
+  if (result.errors > 0) process.exit(1);
+}
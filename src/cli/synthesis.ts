@@ -23,22 +23,25 @@ function writeFileAtomic(filePath: string, content: string): void {
 }
 
 /**
- * Execute the circuit generation using native TypeScript generator.
+ * Project-local library search paths. KicadGenerator adds the defaults from
+ * env or common KiCad install locations.
  */
-export function runSynthesis(snapshot: CircuitSnapshot, outputDir: string, options: KicadGeneratorOptions = {}): { success: boolean; output: string, errors?: string[], warnings?: string[] } {
+export function getProjectLibraryPaths(): string[] {
   const { projectRoot } = getConfig();
-
-  // Define library search paths
-  const libPaths = [
+  return [
     path.join(projectRoot, ".kicad"), // Local project symbols
     path.join(projectRoot, "lib"),    // Legacy lib folder
     path.join(projectRoot, "src", "tests", "assets", "symbols"), // Test assets
-    // Add system paths?
-    // KicadGenerator will add defaults from env or common locations if not found.
-    // But better to pass them explicitly if we know them.
   ];
+}
+
+/**
+ * Execute the circuit generation using native TypeScript generator.
+ */
+export function runSynthesis(snapshot: CircuitSnapshot, outputDir: string, options: KicadGeneratorOptions = {}): { success: boolean; output: string, errors?: string[], warnings?: string[] } {
+  const { projectRoot } = getConfig();
 
-  const generator = new KicadGenerator(libPaths);
+  const generator = new KicadGenerator(getProjectLibraryPaths());
 
   try {
     const result = generator.generate(snapshot, outputDir, options);
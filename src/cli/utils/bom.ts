@@ -1,6 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
-import type { Component } from "../../synth/Component";
+import { resolveVariant, type Component } from "../../synth/Component";
 
 /**
  * BOM entry before grouping.
@@ -8,31 +8,39 @@ import type { Component } from "../../synth/Component";
 interface BomEntry {
   ref: string;
   value: string;
+  /** Normalized properties, so parts with equal values but different ratings stay apart. */
+  properties: string;
   footprint: string;
   lcsc: string;
+  fields: Readonly<Record<string, string>>;
 }
 
 /**
  * Generate a JLCPCB-compatible BOM CSV from the component registry.
  *
  * Format:
- *   Comment, Designator, Footprint, LCSC Part #
+ *   Comment, Designator, Footprint, LCSC Part #, <custom fields…>
  *
  * Grouping:
  * - All parts with the same footprint, same value, and same LCSC Part #
- *   are merged into one line.
- * - Comment = value (e.g. "39pF")
+ *   are merged into one line. Values of resistors, capacitors and inductors
+ *   are compared by their properties, so "10k", "10K" and "10000" match.
+ * - Comment = value (e.g. "39pF"), normalized when the properties describe it
  * - Designator = comma-separated refs (sorted numerically)
  * - Footprint = footprint name (library:name → just the name part)
  * - LCSC Part # = from component's partNo
+ * - Custom fields (e.g. MPN, Manufacturer) get one column each and are part
+ *   of the grouping key
  *
  * Components without a value default to their symbol name.
- * DNC and TestPoint components are excluded.
+ * DNC and TestPoint components are excluded, as are components not populated
+ * in the given assembly variant, whose value and partNo overrides apply.
  */
 export function generateBom(
   projectName: string,
   outputDir: string,
-  components: Component<any>[]
+  components: Component<any>[],
+  variant?: string
 ): string | null {
   console.log(`  -> Generating BOM from circuit registry...`);
 
@@ -43,9 +51,15 @@ export function generateBom(
     // Skip DNC markers
     if (comp.symbol === "Device:DNC") continue;
 
-    // Determine value
-    let value = comp.value || "";
-    if (!value) {
+    const populated = resolveVariant(comp, variant);
+    if (populated.dnp) continue;
+    const properties = populated.properties!;
+
+    // Determine value, normalized if its properties describe it completely
+    let value = populated.value || "";
+    if (properties.describesValue || (!value && !properties.isEmpty)) {
+      value = properties.toString();
+    } else if (!value) {
       // Fallback: use symbol name (part after colon)
       const parts = comp.symbol.split(":");
       value = parts.length > 1 ? parts[parts.length - 1] : comp.symbol;
@@ -58,13 +72,15 @@ export function generateBom(
       footprint = fpParts[fpParts.length - 1];
     }
 
-    const lcsc = comp.partNo || "";
+    const lcsc = populated.partNo || "";
 
     entries.push({
       ref: comp.ref,
       value,
+      properties: properties.toString(),
       footprint,
       lcsc,
+      fields: comp.fields ?? {},
     });
   }
 
@@ -73,10 +89,14 @@ export function generateBom(
     return null;
   }
 
-  // Group by (value, footprint, lcsc) - Muenchian grouping equivalent
+  // Custom field columns in order of first use
+  const fieldNames = Array.from(new Set(entries.flatMap((e) => Object.keys(e.fields))));
+
+  // Group by (value, properties, footprint, lcsc, fields) - Muenchian grouping equivalent
   const groups = new Map<string, BomEntry[]>();
   for (const entry of entries) {
-    const key = `${entry.value}\x00${entry.footprint}\x00${entry.lcsc}`;
+    const fields = fieldNames.map((name) => entry.fields[name] ?? "");
+    const key = [entry.value, entry.properties, entry.footprint, entry.lcsc, ...fields].join("\x00");
     if (!groups.has(key)) {
       groups.set(key, []);
     }
@@ -92,8 +112,12 @@ export function generateBom(
     return a.localeCompare(b);
   };
 
+  // CSV escape: wrap in quotes if value contains commas or quotes
+  const esc = (s: string) =>
+    s.includes(",") || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s;
+
   // Build CSV
-  const csvLines: string[] = ["Comment,Designator,Footprint,LCSC Part #"];
+  const csvLines: string[] = [["Comment", "Designator", "Footprint", "LCSC Part #", ...fieldNames].map(esc).join(",")];
 
   // Sort groups by first ref in each group
   const sortedGroups = [...groups.entries()].sort((a, b) => {
@@ -103,20 +127,16 @@ export function generateBom(
   });
 
   for (const [, group] of sortedGroups) {
-    const { value, footprint, lcsc } = group[0];
+    const { value, footprint, lcsc, fields } = group[0];
     const refs = group
       .map((e) => e.ref)
       .sort(sortRef)
       .join(",");
 
-    // CSV escape: wrap in quotes if value contains commas or quotes
-    const esc = (s: string) =>
-      s.includes(",") || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s;
-
-    csvLines.push(`${esc(value)},${esc(refs)},${esc(footprint)},${esc(lcsc)}`);
+    csvLines.push([value, refs, footprint, lcsc, ...fieldNames.map((name) => fields[name] ?? "")].map(esc).join(","));
   }
 
-  const bomFile = path.join(outputDir, `BOM-${projectName}.csv`);
+  const bomFile = path.join(outputDir, variant ? `BOM-${projectName}-${variant}.csv` : `BOM-${projectName}.csv`);
   fs.writeFileSync(bomFile, csvLines.join("\n"), "utf-8");
   console.log(`  -> BOM written: ${path.basename(bomFile)} (${sortedGroups.length} unique parts)`);
 
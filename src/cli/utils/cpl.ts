@@ -1,7 +1,7 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { Component } from "../../synth/Component";
+import { Component, resolveVariant } from "../../synth/Component";
 import { loadOverrides, resolveOverride } from "./overrides";
 
 /**
@@ -12,12 +12,15 @@ import { loadOverrides, resolveOverride } from "./overrides";
  *
  * JLCPCB CPL expects:
  *   Designator  Val  Package  Mid X  Mid Y  Rotation  Layer
+ *
+ * Components not populated in the given assembly variant are left out.
  */
 export function convertPosToCpl(
     posFilePath: string,
     cplOutputPath: string,
     components: Component<any>[],
-    projectRoot: string
+    projectRoot: string,
+    variant?: string
 ): string {
     const content = fs.readFileSync(posFilePath, "utf-8");
     const lines = content.split("\n");
@@ -72,6 +75,7 @@ export function convertPosToCpl(
 
         // Apply overrides if component exists
         const comp = componentMap.get(ref);
+        if (comp && resolveVariant(comp, variant).dnp) continue;
         if (comp) {
             const override = resolveOverride(comp, overrides);
             if (override) {
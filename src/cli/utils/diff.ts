@@ -0,0 +1,197 @@
+import type { CircuitIR, ComponentIR } from "../../synth/CircuitIR";
+
+/** Nets are taken as renamed if at least this share of their pins stayed together. */
+const RENAME_SIMILARITY = 0.5;
+
+export interface ComponentEntry {
+  ref: string;
+  value?: string;
+  footprint: string;
+}
+
+export interface ComponentChange {
+  ref: string;
+  changes: { property: string; before?: string; after?: string }[];
+}
+
+export interface NetRename {
+  from: string;
+  to: string;
+  /** Share of the pins of both nets that they have in common, 0…1. */
+  similarity: number;
+}
+
+/** A pin connected to another net. `from` or `to` is missing if the pin was or is unconnected. */
+export interface PinMove {
+  pin: string;
+  from?: string;
+  to?: string;
+}
+
+/** Semantic differences between two revisions of a circuit, as an engineering change order. */
+export interface CircuitDiff {
+  name: string;
+  components: { added: ComponentEntry[]; removed: ComponentEntry[]; changed: ComponentChange[] };
+  nets: { added: string[]; removed: string[]; renamed: NetRename[] };
+  pins: PinMove[];
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Compare two circuits. Components are matched by reference. Nets are
+ * matched by name, and nets whose name disappeared are matched to new nets
+ * sharing most of their pins, so a renamed net is reported as such instead
+ * of moving all its pins.
+ */
+export function diffCircuits(before: CircuitIR, after: CircuitIR): CircuitDiff {
+  const oldComponents = new Map(before.components.map(comp => [comp.ref, comp]));
+  const newComponents = new Map(after.components.map(comp => [comp.ref, comp]));
+  const entry = (comp: ComponentIR): ComponentEntry => ({ ref: comp.ref, value: comp.value, footprint: comp.footprint });
+
+  const added = after.components.filter(comp => !oldComponents.has(comp.ref)).map(entry);
+  const removed = before.components.filter(comp => !newComponents.has(comp.ref)).map(entry);
+  const changed: ComponentChange[] = [];
+  for (const comp of after.components) {
+    const old = oldComponents.get(comp.ref);
+    const changes = old ? componentChanges(old, comp) : [];
+    if (changes.length > 0) changed.push({ ref: comp.ref, changes });
+  }
+
+  const oldNets = netPins(before);
+  const newNets = netPins(after);
+  const renamed = matchRenamedNets(oldNets, newNets);
+  const renamedTo = new Map(renamed.map(rename => [rename.from, rename.to]));
+  const renamedFrom = new Set(renamed.map(rename => rename.to));
+
+  const pins: PinMove[] = [];
+  for (const comp of after.components) {
+    const old = oldComponents.get(comp.ref);
+    if (!old) continue;
+    const oldPins = new Map(old.pins.map(pin => [pin.number, pin.net]));
+    const newPins = new Map(comp.pins.map(pin => [pin.number, pin.net]));
+    for (const number of new Set([...oldPins.keys(), ...newPins.keys()])) {
+      const from = oldPins.get(number);
+      const to = newPins.get(number);
+      if ((from === undefined ? undefined : renamedTo.get(from) ?? from) !== to) pins.push({ pin: `${comp.ref}.${number}`, from, to });
+    }
+  }
+
+  return {
+    name: after.name,
+    components: {
+      added: added.sort((a, b) => byName(a.ref, b.ref)),
+      removed: removed.sort((a, b) => byName(a.ref, b.ref)),
+      changed: changed.sort((a, b) => byName(a.ref, b.ref)),
+    },
+    nets: {
+      added: [...newNets.keys()].filter(name => !oldNets.has(name) && !renamedFrom.has(name)).sort(byName),
+      removed: [...oldNets.keys()].filter(name => !newNets.has(name) && !renamedTo.has(name)).sort(byName),
+      renamed: renamed.sort((a, b) => byName(a.from, b.from)),
+    },
+    pins: pins.sort((a, b) => byName(a.pin, b.pin)),
+  };
+}
+
+/** Whether the two circuits are equivalent. */
+export function isEmptyDiff(diff: CircuitDiff): boolean {
+  const { components, nets, pins } = diff;
+  return components.added.length + components.removed.length + components.changed.length +
+    nets.added.length + nets.removed.length + nets.renamed.length + pins.length === 0;
+}
+
+function componentChanges(before: ComponentIR, after: ComponentIR): ComponentChange["changes"] {
+  const changes: ComponentChange["changes"] = [];
+  const compare = (property: string, a?: string, b?: string) => {
+    if ((a ?? "") !== (b ?? "")) changes.push({ property, before: a, after: b });
+  };
+
+  compare("symbol", before.symbol, after.symbol);
+  // "10k" and "10K" are the same part, the properties tell
+  if (!sameProperties(before, after)) compare("value", before.value, after.value);
+  compare("footprint", before.footprint, after.footprint);
+  compare("partNo", before.partNo, after.partNo);
+  compare("dnp", before.dnp ? "yes" : "no", after.dnp ? "yes" : "no");
+  for (const field of new Set([...Object.keys(before.fields), ...Object.keys(after.fields)])) {
+    compare(field, before.fields[field], after.fields[field]);
+  }
+  return changes;
+}
+
+function sameProperties(before: ComponentIR, after: ComponentIR): boolean {
+  const a = Object.entries(before.properties).filter(([, value]) => value !== undefined);
+  const b = Object.entries(after.properties).filter(([, value]) => value !== undefined);
+  return a.length > 0 && a.length === b.length && a.every(([key, value]) => (after.properties as Record<string, unknown>)[key] === value);
+}
+
+/** The pins of every net, as `REF.PIN`. */
+function netPins(ir: CircuitIR): Map<string, Set<string>> {
+  const nets = new Map<string, Set<string>>(ir.nets.map(net => [net.name, new Set<string>()]));
+  for (const comp of ir.components) {
+    for (const pin of comp.pins) {
+      if (pin.net === undefined) continue;
+      if (!nets.has(pin.net)) nets.set(pin.net, new Set());
+      nets.get(pin.net)!.add(`${comp.ref}.${pin.number}`);
+    }
+  }
+  return nets;
+}
+
+/** Pair up vanished and new net names by the pins they share, most similar first. */
+function matchRenamedNets(before: Map<string, Set<string>>, after: Map<string, Set<string>>): NetRename[] {
+  const vanished = [...before.keys()].filter(name => !after.has(name));
+  const appeared = [...after.keys()].filter(name => !before.has(name));
+
+  const candidates: NetRename[] = [];
+  for (const from of vanished) {
+    for (const to of appeared) {
+      const a = before.get(from)!;
+      const b = after.get(to)!;
+      const shared = [...a].filter(pin => b.has(pin)).length;
+      const similarity = shared / (a.size + b.size - shared || 1);
+      if (shared > 0 && similarity >= RENAME_SIMILARITY) candidates.push({ from, to, similarity });
+    }
+  }
+  candidates.sort((a, b) => b.similarity - a.similarity || byName(a.from, b.from));
+
+  const renamed: NetRename[] = [];
+  const used = new Set<string>();
+  for (const candidate of candidates) {
+    if (used.has(candidate.from) || used.has(`>${candidate.to}`)) continue;
+    used.add(candidate.from).add(`>${candidate.to}`);
+    renamed.push(candidate);
+  }
+  return renamed;
+}
+
+/** The diff as a Markdown ECO report. */
+export function formatEco(diff: CircuitDiff, from: string, to: string): string {
+  const lines = [`# ECO: ${diff.name}`, "", `Changes from \`${from}\` to \`${to}\`.`, ""];
+  if (isEmptyDiff(diff)) return [...lines, "No changes.", ""].join("\n");
+
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) lines.push(`### ${title}`, "", ...items.map(item => `- ${item}`), "");
+  };
+  const component = (comp: ComponentEntry) => `**${comp.ref}** ${[comp.value, comp.footprint].filter(Boolean).join(", ")}`;
+  const net = (name?: string) => (name === undefined ? "unconnected" : `\`${name}\``);
+
+  const { components, nets, pins } = diff;
+  if (components.added.length + components.removed.length + components.changed.length > 0) {
+    lines.push("## Components", "");
+    section("Added", components.added.map(component));
+    section("Removed", components.removed.map(component));
+    section("Changed", components.changed.map(change =>
+      `**${change.ref}**: ${change.changes.map(c => `${c.property} ${c.before || "—"} → ${c.after || "—"}`).join("; ")}`));
+  }
+  if (nets.added.length + nets.removed.length + nets.renamed.length > 0) {
+    lines.push("## Nets", "");
+    section("Renamed", nets.renamed.map(rename => `${net(rename.from)} → ${net(rename.to)} (${Math.round(rename.similarity * 100)}% of pins)`));
+    section("Added", nets.added.map(name => net(name)));
+    section("Removed", nets.removed.map(name => net(name)));
+  }
+  if (pins.length > 0) {
+    lines.push("## Connections", "");
+    lines.push(...pins.map(move => `- \`${move.pin}\`: ${net(move.from)} → ${net(move.to)}`), "");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,128 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component } from "../synth/Component";
+import { UuidManager } from "./UuidManager";
+
+/**
+ * Assigns numbers to unannotated references such as "R" or "R?".
+ *
+ * Every unannotated component is identified by its scope (the refs of its
+ * parent composables), its ref, and what it is and connects to: symbol,
+ * value, footprint and the names of the nets on its pins. The chosen
+ * designator is persisted under that identity in `uuids.json`, so numbers
+ * stay stable across re-synthesis, however components are reordered or
+ * added. A component whose identity changed, e.g. because its value did,
+ * takes over a designator of its scope that no other component claimed.
+ * New components get the lowest number not used by any other component with
+ * the same prefix.
+ */
+export class Annotator {
+  constructor(private readonly snapshot: CircuitSnapshot, private readonly uuids: UuidManager) {}
+
+  /**
+   * Apply the designators persisted in a project's `uuids.json` without
+   * writing it back. Used by commands that read, but do not synthesize, a design.
+   */
+  static applyPersisted(snapshot: CircuitSnapshot, uuidPath: string): void {
+    const uuids = new UuidManager();
+    uuids.load(uuidPath);
+    new Annotator(snapshot, uuids).annotate();
+  }
+
+  annotate(): void {
+    const pending = this.snapshot.components.filter(c => c.symbol !== "Device:DNC" && c.isUnannotated);
+    if (pending.length === 0) return;
+
+    const used = new Set(this.snapshot.components.filter(c => !c.isUnannotated).map(c => c.ref));
+    const identities = this.identities(pending);
+    const reusable = (comp: Component<any>, previous: string | undefined): previous is string =>
+      !!previous && !used.has(previous) && this.prefixOf(comp) === previous.replace(/\d+$/, "");
+
+    // Keep persisted designators first so that new components cannot take them over
+    const changed: Component<any>[] = [];
+    for (const comp of pending) {
+      const previous = this.uuids.get(this.key(identities.get(comp)!));
+      if (reusable(comp, previous)) {
+        used.add(previous);
+        comp._annotate(previous);
+      } else {
+        changed.push(comp);
+      }
+    }
+
+    // Then hand the designators nobody claimed to the components that changed, most similar first
+    const candidates = changed.flatMap(comp => {
+      const { scope, identity } = identities.get(comp)!;
+      return this.uuids.keys()
+        .filter(key => this.isInScope(key, scope))
+        .map(key => ({ comp, key, similarity: this.similarity(identity, key.slice(`ref:${scope}`.length)) }));
+    });
+    for (const { comp, key } of candidates.sort((a, b) => b.similarity - a.similarity)) {
+      const previous = this.uuids.get(key);
+      if (!comp.isUnannotated || !reusable(comp, previous)) continue;
+      this.uuids.delete(key);
+      this.uuids.set(this.key(identities.get(comp)!), previous);
+      used.add(previous);
+      comp._annotate(previous);
+    }
+
+    for (const comp of changed.filter(c => c.isUnannotated)) {
+      const prefix = this.prefixOf(comp);
+      let n = 1;
+      while (used.has(`${prefix}${n}`)) n++;
+      const ref = `${prefix}${n}`;
+      used.add(ref);
+      comp._annotate(ref);
+      this.uuids.set(this.key(identities.get(comp)!), ref);
+    }
+  }
+
+  private key({ scope, identity }: { scope: string; identity: string }): string {
+    return `ref:${scope}${identity}`;
+  }
+
+  /** Whether a key of `uuids.json` holds a designator of a component in `scope`, including keys of older versions. */
+  private isInScope(key: string, scope: string): boolean {
+    const prefix = `ref:${scope}`;
+    return key.startsWith(prefix) && (key[prefix.length] === "|" || key[prefix.length] === "#");
+  }
+
+  /**
+   * How alike two identities are: the pin connections they share count most,
+   * then a shared symbol, value and footprint.
+   */
+  private similarity(a: string, b: string): number {
+    const fields = (identity: string) => identity.replace(/#\d+$/, "").split("|").slice(1);
+    const [ours, theirs] = [fields(a), fields(b)];
+    const pins = new Set((theirs[3] ?? "").split(",").filter(Boolean));
+    const sharedPins = (ours[3] ?? "").split(",").filter(pin => pins.has(pin)).length;
+    const sharedFields = ours.slice(0, 3).filter((field, index) => field && field === theirs[index]).length;
+    return sharedPins * 4 + sharedFields;
+  }
+
+  private prefixOf(comp: Component<any>): string {
+    return comp.ref.replace(/\?+$/, "");
+  }
+
+  /**
+   * e.g. scope "/CH1/R?" and identity "|Device:R|10k|R_0603|1=IN,2=OUT#0" for
+   * the first such "R?" created inside composable CH1. Components that are
+   * indistinguishable are told apart by their order.
+   */
+  private identities(components: Component<any>[]): Map<Component<any>, { scope: string; identity: string }> {
+    const identities = new Map<Component<any>, { scope: string; identity: string }>();
+    const counts = new Map<string, number>();
+    for (const comp of components) {
+      const ancestors: string[] = [];
+      for (let parent: any = comp.parent; parent; parent = parent.parent) ancestors.unshift(parent.ref);
+      const scope = `/${[...ancestors, comp.ref].join("/")}`;
+      const pins = Array.from(new Set<Pin>(comp.allPins.values())).filter(pin => pin.net)
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+        .map(pin => `${pin.name}=${pin.net!.name}`);
+      const base = `|${comp.symbol}|${comp.value ?? ""}|${comp.footprint ?? ""}|${pins.join(",")}`;
+      const index = counts.get(scope + base) ?? 0;
+      counts.set(scope + base, index + 1);
+      identities.set(comp, { scope, identity: `${base}#${index}` });
+    }
+    return identities;
+  }
+}
@@ -0,0 +1,113 @@
+import { PcbPosition } from "../synth/types";
+import { SExpr, SExpressionParser } from "./SExpressionParser";
+
+/** A list in a KiCad file, e.g. `(footprint ...)`, located by character offsets. */
+export interface SExprRange {
+  keyword: string;
+  /** Offset of the opening parenthesis. */
+  start: number;
+  /** Offset after the closing parenthesis. */
+  end: number;
+}
+
+/** A footprint as found on a board. */
+export interface BoardFootprint extends SExprRange {
+  ref: string;
+  footprint: string;
+  /** Symbol instance path, e.g. "/<sheet>/<symbol>", if linked to the schematic. */
+  path?: string;
+  /** Has KiCad's "Not in schematic" attribute, like mounting holes and logos. */
+  boardOnly: boolean;
+  position: Required<PcbPosition>;
+  /** Net of every pad by pad number, undefined for unconnected pads. */
+  pads: Map<string, string | undefined>;
+}
+
+/**
+ * The lists directly contained in the list that opens at `start`, without
+ * parsing them. Lets boards be edited in place: everything outside the
+ * ranges that are replaced stays exactly as pcbnew wrote it.
+ */
+export function listItems(content: string, start = content.indexOf("(")): SExprRange[] {
+  const items: SExprRange[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') {
+      for (i++; i < content.length && content[i] !== '"'; i++) if (content[i] === "\\") i++;
+    } else if (char === "(") {
+      depth++;
+      if (depth === 2) itemStart = i;
+    } else if (char === ")") {
+      if (depth === 2) {
+        items.push({ keyword: content.slice(itemStart + 1).match(/^[^\s()]*/)![0], start: itemStart, end: i + 1 });
+      }
+      depth--;
+      if (depth === 0) break;
+    }
+  }
+  return items;
+}
+
+/** The footprints of a `.kicad_pcb` file. */
+export function readBoardFootprints(content: string): BoardFootprint[] {
+  if (!/^\s*\(kicad_pcb\b/.test(content)) throw new Error("Not a KiCad board: expected a (kicad_pcb ...) file.");
+
+  const footprints: BoardFootprint[] = [];
+  for (const item of listItems(content)) {
+    if (item.keyword !== "footprint") continue;
+    const footprint = SExpressionParser.parse(content.slice(item.start, item.end))[0] as SExpr[];
+
+    const reference = children(footprint, "property").find(property => text(property[1]) === "Reference")
+      ?? children(footprint, "fp_text").find(fpText => fpText[1] === "reference");
+    const pads = new Map<string, string | undefined>();
+    for (const pad of children(footprint, "pad")) {
+      const number = text(pad[1]);
+      if (!number || pads.get(number) !== undefined) continue;
+      // (net 3 "GND") up to KiCad 9, (net "GND") since
+      const net = child(pad, "net");
+      const name = net ? text(net[net.length - 1]) : "";
+      pads.set(number, name || undefined);
+    }
+    const path = child(footprint, "path");
+    const at = child(footprint, "at") ?? [];
+
+    footprints.push({
+      ...item,
+      ref: text(reference?.[2]),
+      footprint: text(footprint[1]),
+      path: path ? text(path[1]) : undefined,
+      boardOnly: child(footprint, "attr")?.includes("board_only") ?? false,
+      position: {
+        x: Number(at[1] ?? 0),
+        y: Number(at[2] ?? 0),
+        rotation: Number(at[3] ?? 0),
+        side: text(child(footprint, "layer")?.[1]) === "B.Cu" ? "back" : "front",
+      },
+      pads,
+    });
+  }
+  return footprints;
+}
+
+/**
+ * An angle in (-180, 180], as pcbnew writes them, or with `signed` false in
+ * [0, 360), as eeschema writes them.
+ */
+export function normalizeAngle(angle: number, signed = true): number {
+  const normalized = ((angle % 360) + 360) % 360;
+  return signed && normalized > 180 ? normalized - 360 : normalized;
+}
+
+function child(expr: SExpr[], name: string): SExpr[] | undefined {
+  return expr.find((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function children(expr: SExpr[], name: string): SExpr[][] {
+  return expr.filter((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function text(expr: SExpr | undefined): string {
+  return typeof expr === "string" ? SExpressionParser.unquote(expr) : "";
+}
@@ -0,0 +1,192 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component } from "../synth/Component";
+import { Net } from "../synth/Net";
+import { BoardFootprint, readBoardFootprints } from "./BoardFile";
+import { CheckFinding } from "./ErcChecker";
+import { SheetHierarchy } from "./SheetHierarchy";
+import { SourceLocator } from "./SourceLocator";
+import { UuidManager } from "./UuidManager";
+
+export interface BoardVerifyResult {
+  findings: CheckFinding[];
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Compares an existing `.kicad_pcb` with the circuit. After the initial
+ * board, pcbnew owns the file, so footprints and connections edited there
+ * can drift from the code. Footprints are matched to components through the
+ * symbol UUIDs of their `(path ...)`, falling back to the reference.
+ *
+ * Connectivity is compared pin by pin. Nets are paired by name, or by the
+ * pins they share if the board names them differently (e.g. `/SDA` for a
+ * local label, or `Net-(R1-Pad1)` for an unlabelled net), so only real
+ * changes in connections are reported.
+ */
+export class BoardVerifier {
+  private readonly hierarchy: SheetHierarchy;
+  private findings: CheckFinding[] = [];
+
+  constructor(
+    private readonly snapshot: CircuitSnapshot,
+    private readonly board: string,
+    private readonly uuids: UuidManager,
+    hierarchy?: SheetHierarchy,
+  ) {
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
+  }
+
+  verify(): BoardVerifyResult {
+    this.findings = [];
+    const pairs = this.matchFootprints(readBoardFootprints(this.board).filter(footprint => !footprint.boardOnly));
+    this.checkNets(pairs);
+    new SourceLocator(this.snapshot).locate(this.findings);
+
+    return {
+      findings: this.findings,
+      errors: this.findings.filter(f => f.severity === "error").length,
+      warnings: this.findings.filter(f => f.severity === "warning").length,
+    };
+  }
+
+  /** Components that KiCad places on the board. */
+  private get components(): Component<any>[] {
+    return this.snapshot.components.filter(comp =>
+      comp.symbol !== "Device:DNC" && !comp.ref.startsWith("#") && comp.footprint && comp.footprint !== "DNC");
+  }
+
+  /** Pair components with their footprints and report the ones without a counterpart. */
+  private matchFootprints(footprints: BoardFootprint[]): [Component<any>, BoardFootprint][] {
+    const byPath = new Map<string, BoardFootprint>();
+    for (const footprint of footprints) if (footprint.path) byPath.set(footprint.path, footprint);
+
+    const pairs: [Component<any>, BoardFootprint][] = [];
+    const unmatched: Component<any>[] = [];
+    const used = new Set<BoardFootprint>();
+    for (const comp of this.components) {
+      const footprint = byPath.get(this.hierarchy.footprintPath(comp, this.uuids));
+      if (footprint && !used.has(footprint)) {
+        used.add(footprint);
+        pairs.push([comp, footprint]);
+      } else {
+        unmatched.push(comp);
+      }
+    }
+
+    for (const comp of unmatched) {
+      const footprint = footprints.find(candidate => !used.has(candidate) && candidate.ref === comp.ref);
+      if (!footprint) {
+        this.error("missing-footprint", `Missing Footprint: ${comp.ref} (${comp.footprint}) is not on the board.`, [comp.ref]);
+        continue;
+      }
+      used.add(footprint);
+      pairs.push([comp, footprint]);
+      this.warning("unlinked-footprint", `Unlinked Footprint: ${comp.ref} on the board is not linked to its schematic symbol; update the PCB from the schematic.`, [comp.ref]);
+    }
+
+    for (const footprint of footprints) {
+      if (used.has(footprint)) continue;
+      const message = `Extra Footprint: ${footprint.ref || "?"} (${footprint.footprint}) is on the board, but not in the circuit.`;
+      // Footprints without a symbol were added in pcbnew on purpose, e.g. mounting holes
+      const refs = footprint.ref ? [footprint.ref] : [];
+      if (footprint.path) this.error("extra-footprint", message, refs);
+      else this.warning("extra-footprint", message, refs);
+    }
+
+    for (const [comp, footprint] of pairs) {
+      if (footprint.ref !== comp.ref) {
+        this.error("ref-changed", `Changed Reference: ${comp.ref} is '${footprint.ref}' on the board.`, [comp.ref]);
+      }
+      if (footprint.footprint !== comp.footprint) {
+        this.error("footprint-changed", `Changed Footprint: ${comp.ref} uses '${comp.footprint}', but '${footprint.footprint}' on the board.`, [comp.ref]);
+      }
+    }
+    return pairs;
+  }
+
+  private checkNets(pairs: [Component<any>, BoardFootprint][]) {
+    // Pins of the circuit and their pads on the board, as long as both exist
+    const connections: { comp: Component<any>; pin: Pin; net?: Net; pad?: string }[] = [];
+    for (const [comp, footprint] of pairs) {
+      for (const pin of new Set<Pin>(comp.allPins.values())) {
+        if (!footprint.pads.has(pin.name)) continue;
+        connections.push({ comp, pin, net: pin.isDNC ? undefined : pin.net ?? undefined, pad: boardNet(footprint.pads.get(pin.name)) });
+      }
+    }
+
+    // A net with a single pin on the board connects nothing, however it is named
+    const fanOut = new Map<Net, number>();
+    for (const { net } of connections) if (net) fanOut.set(net, (fanOut.get(net) ?? 0) + 1);
+    for (const connection of connections) if (connection.net && fanOut.get(connection.net)! < 2) connection.net = undefined;
+    const padFanOut = new Map<string, number>();
+    for (const { pad } of connections) if (pad) padFanOut.set(pad, (padFanOut.get(pad) ?? 0) + 1);
+    for (const connection of connections) if (connection.pad && padFanOut.get(connection.pad)! < 2) connection.pad = undefined;
+
+    const boardNetOf = this.pairNets(connections);
+    for (const { comp, pin, net, pad } of connections) {
+      const expected = net ? boardNetOf.get(net) : undefined;
+      if (pad === expected) continue;
+      const inCode = net ? `'${net.name}'` : "nothing";
+      const onBoard = pad ? `'${pad}'` : "nothing";
+      this.error("pad-net", `Changed Connection: ${comp.ref}.${pin.name} is connected to ${inCode} in the circuit, but to ${onBoard} on the board.`,
+        [comp.ref], net ? [net.name] : []);
+    }
+  }
+
+  /** The board net corresponding to every net of the circuit: the one of the same name, or the one sharing most pins. */
+  private pairNets(connections: { net?: Net; pad?: string }[]): Map<Net, string> {
+    const boardNets = new Set(connections.flatMap(({ pad }) => (pad ? [pad] : [])));
+    const shared = new Map<Net, Map<string, number>>();
+    for (const { net, pad } of connections) {
+      if (!net) continue;
+      if (!shared.has(net)) shared.set(net, new Map());
+      if (pad) shared.get(net)!.set(pad, (shared.get(net)!.get(pad) ?? 0) + 1);
+    }
+
+    const paired = new Map<Net, string>();
+    const taken = new Set<string>();
+    for (const net of shared.keys()) {
+      const name = [...boardNets].find(candidate => localName(candidate) === net.name);
+      if (name && !taken.has(name)) {
+        paired.set(net, name);
+        taken.add(name);
+      }
+    }
+
+    const candidates = [...shared].flatMap(([net, pads]) => [...pads].map(([pad, count]) => ({ net, pad, count })));
+    candidates.sort((a, b) => b.count - a.count);
+    for (const { net, pad } of candidates) {
+      if (paired.has(net) || taken.has(pad)) continue;
+      paired.set(net, pad);
+      taken.add(pad);
+      if (!isGeneratedName(pad)) {
+        this.warning("net-renamed", `Renamed Net: '${net.name}' is called '${pad}' on the board.`, [], [net.name]);
+      }
+    }
+    return paired;
+  }
+
+  private error(rule: string, message: string, refs: string[], nets: string[] = []) {
+    this.findings.push({ severity: "error", rule, message, refs, nets });
+  }
+
+  private warning(rule: string, message: string, refs: string[], nets: string[] = []) {
+    this.findings.push({ severity: "warning", rule, message, refs, nets });
+  }
+}
+
+/** Pads KiCad left unconnected are named after the pad, e.g. "unconnected-(U1-NC-Pad4)". */
+function boardNet(name: string | undefined): string | undefined {
+  return name && !name.startsWith("unconnected-(") ? name : undefined;
+}
+
+/** Net names of local labels are prefixed with their sheet path, e.g. "/power/EN". */
+function localName(name: string): string {
+  return name.startsWith("/") ? name.slice(name.lastIndexOf("/") + 1) : name;
+}
+
+/** Names KiCad makes up for unlabelled nets, e.g. "Net-(R1-Pad1)". */
+function isGeneratedName(name: string): boolean {
+  return /^Net-\(.*\)$/.test(name);
+}
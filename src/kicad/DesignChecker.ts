@@ -0,0 +1,106 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component } from "../synth/Component";
+import { wildcard } from "../synth/Wildcard";
+import { SymbolLibrary } from "./SymbolLibrary";
+import { FootprintLibrary } from "./FootprintLibrary";
+import { CheckFinding, ErcChecker } from "./ErcChecker";
+import { VoltageChecker } from "./VoltageChecker";
+import { SourceLocator } from "./SourceLocator";
+
+export interface DesignCheckOptions {
+  /** Component references to ignore. Supports `*` wildcards, e.g. "TP*". */
+  ignoreRefs?: string[];
+  /** Net names to ignore. Supports `*` wildcards. */
+  ignoreNets?: string[];
+}
+
+export interface DesignCheckResult {
+  findings: CheckFinding[];
+  /** Number of findings dropped by `ignoreRefs` / `ignoreNets`. */
+  suppressed: number;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Offline design lint: runs the electrical rules and voltage checks and
+ * verifies that the design can be turned into a KiCad project (unique
+ * references, resolvable symbols and footprints, pins that exist on their
+ * symbols). Does not write any files and does not need `kicad-cli`.
+ */
+export class DesignChecker {
+  private findings: CheckFinding[] = [];
+
+  constructor(
+    private readonly snapshot: CircuitSnapshot,
+    private readonly symbols: SymbolLibrary,
+    private readonly footprints: FootprintLibrary,
+  ) {}
+
+  check(options: DesignCheckOptions = {}): DesignCheckResult {
+    this.findings = [];
+    this.checkReferences();
+    this.checkLibraries();
+    this.findings.push(...new ErcChecker(this.snapshot, this.symbols).check().findings);
+    this.findings.push(...new VoltageChecker(this.snapshot).check().findings);
+    new SourceLocator(this.snapshot).locate(this.findings);
+
+    const ignoredRefs = (options.ignoreRefs ?? []).map(pattern => wildcard(pattern));
+    const ignoredNets = (options.ignoreNets ?? []).map(pattern => wildcard(pattern));
+    const findings = this.findings.filter(finding =>
+      !finding.refs.some(ref => ignoredRefs.some(pattern => pattern.test(ref))) &&
+      !finding.nets.some(net => ignoredNets.some(pattern => pattern.test(net)))
+    );
+
+    return {
+      findings,
+      suppressed: this.findings.length - findings.length,
+      errors: findings.filter(f => f.severity === "error").length,
+      warnings: findings.filter(f => f.severity === "warning").length,
+    };
+  }
+
+  private get components(): Component<any>[] {
+    return this.snapshot.components.filter(c => c.symbol !== "Device:DNC");
+  }
+
+  private checkReferences() {
+    const byRef = new Map<string, Component<any>[]>();
+    for (const comp of this.components) {
+      if (!byRef.has(comp.ref)) byRef.set(comp.ref, []);
+      byRef.get(comp.ref)!.push(comp);
+    }
+
+    for (const [ref, comps] of byRef) {
+      if (comps.length > 1) {
+        this.error("duplicate-ref", `Duplicate Reference: '${ref}' is used by ${comps.length} components (${comps.map(c => c.symbol).join(", ")}).`, [ref]);
+      }
+      if (!/\d+$/.test(ref)) {
+        this.error("invalid-ref", `Invalid Reference: Component '${ref}' (${comps[0].symbol}) must end in a number to be compatible with KiCad annotation.`, [ref]);
+      }
+    }
+  }
+
+  private checkLibraries() {
+    for (const comp of this.components) {
+      if (!this.symbols.getSymbol(comp.symbol)) {
+        this.error("unresolved-symbol", `Unresolved Symbol: ${comp.ref} uses '${comp.symbol}', which was not found in any symbol library.`, [comp.ref]);
+      } else {
+        const pinNumbers = this.symbols.getPinTypes(comp.symbol);
+        for (const pin of new Set<Pin>(comp.allPins.values())) {
+          if (!pinNumbers.has(pin.name)) {
+            this.error("unknown-pin", `Unknown Pin: ${comp.ref} (${comp.symbol}) has no pin '${pin.name}'.`, [comp.ref], pin.net ? [pin.net.name] : []);
+          }
+        }
+      }
+
+      if (comp.footprint && comp.footprint !== "DNC" && !this.footprints.resolve(comp.footprint)) {
+        this.error("unresolved-footprint", `Unresolved Footprint: ${comp.ref} uses '${comp.footprint}', which was not found in any footprint library.`, [comp.ref]);
+      }
+    }
+  }
+
+  private error(rule: string, message: string, refs: string[], nets: string[] = []) {
+    this.findings.push({ severity: "error", rule, message, refs, nets });
+  }
+}
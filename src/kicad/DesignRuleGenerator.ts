@@ -0,0 +1,129 @@
+import { CircuitSnapshot, DesignRule, KeepoutRule, NetSelector } from "../synth/types";
+import { Component } from "../synth/Component";
+import { Composable } from "../synth/Composable";
+import { Net } from "../synth/Net";
+import { Bus } from "../synth/Bus";
+import { NetClass } from "../synth/NetClass";
+
+type Side = "A" | "B";
+
+/**
+ * Generates the custom design rules file (`.kicad_dru`) from the rules
+ * declared on the schematic. Nets are matched by name or net class, keepouts
+ * by the courtyards of the affected footprints.
+ */
+export class DesignRuleGenerator {
+  private warnings: string[] = [];
+
+  constructor(private readonly snapshot: CircuitSnapshot) {}
+
+  generate(): { content: string; warnings: string[] } {
+    this.warnings = [];
+    const rules = (this.snapshot.designRules ?? [])
+      .map(rule => this.rule(rule))
+      .filter((rule): rule is string => rule !== null);
+
+    const content = [
+      "(version 1)",
+      `# Generated by @tobisk/pcbs from the design rules of ${this.snapshot.name}. Edit the rules in code; changes made here are overwritten.`,
+      ...rules.map(rule => `\n${rule}`),
+    ].join("\n") + "\n";
+
+    return { content, warnings: this.warnings };
+  }
+
+  private rule(rule: DesignRule): string | null {
+    switch (rule.type) {
+      case "clearance": {
+        const nets = (side: Side) => this.netCondition(rule.nets, side);
+        const others = (side: Side) => rule.to ? this.netCondition(rule.to, side) : `!(${nets(side)})`;
+        return this.format(
+          rule.name ?? `Clearance ${this.describe(rule.nets)} to ${rule.to ? this.describe(rule.to) : "other nets"}`,
+          [`(constraint clearance (min ${this.mm(rule.min)}))`],
+          `(${nets("A")} && ${others("B")}) || (${others("A")} && ${nets("B")})`,
+        );
+      }
+      case "trackWidth": {
+        const limits = (["min", "opt", "max"] as const)
+          .filter(limit => rule[limit] !== undefined)
+          .map(limit => `(${limit} ${this.mm(rule[limit]!)})`);
+        if (limits.length === 0) {
+          this.warnings.push(`Design rule '${rule.name ?? this.describe(rule.nets)}' sets no track width limit and was skipped.`);
+          return null;
+        }
+        return this.format(
+          rule.name ?? `Track width ${this.describe(rule.nets)}`,
+          [`(constraint track_width ${limits.join(" ")})`],
+          this.netCondition(rule.nets, "A"),
+        );
+      }
+      case "keepout":
+        return this.keepout(rule);
+      case "custom":
+        return this.format(rule.name, Array.isArray(rule.constraint) ? rule.constraint : [rule.constraint as string], rule.condition, rule.layer);
+    }
+  }
+
+  private keepout(rule: KeepoutRule): string | null {
+    const targets = (Array.isArray(rule.around) ? rule.around : [rule.around]) as ReadonlyArray<Component<any> | Composable<any>>;
+    const refs = targets.flatMap(target => target instanceof Component
+      ? [target.ref]
+      : this.snapshot.components.filter(comp => this.isInside(comp, target)).map(comp => comp.ref)
+    ).filter(ref => !ref.startsWith("DNC_"));
+
+    const name = rule.name ?? `Keepout ${targets.map(target => target.ref).join(", ")}`;
+    if (refs.length === 0) {
+      this.warnings.push(`Design rule '${name}' has no footprints to keep out from and was skipped.`);
+      return null;
+    }
+
+    // The footprints' own pads, texts and graphics are always inside their courtyards
+    const inside = refs.map(ref => `A.intersectsCourtyard('${this.escape(ref)}')`).join(" || ");
+    const own = refs.map(ref => `A.memberOfFootprint('${this.escape(ref)}')`).join(" || ");
+    return this.format(name, [`(constraint disallow ${(rule.disallow ?? ["track", "via", "zone"]).join(" ")})`], `(${inside}) && !(${own})`);
+  }
+
+  private isInside(comp: Component<any>, composable: Composable<any>): boolean {
+    for (let parent = comp.parent; parent; parent = parent.parent) {
+      if (parent === composable) return true;
+    }
+    return false;
+  }
+
+  private netCondition(selector: NetSelector, side: Side): string {
+    const terms = this.selectors(selector).flatMap(entry => {
+      if (entry instanceof NetClass) return [`${side}.NetClass == '${this.escape(entry.name)}'`];
+      if (entry instanceof Bus) return entry.nets.map(net => `${side}.NetName == '${this.escape(net.name)}'`);
+      if (entry instanceof Net) return [`${side}.NetName == '${this.escape(entry.name)}'`];
+      return [`${side}.NetName == '${this.escape(entry)}'`];
+    });
+    return terms.length === 1 ? terms[0] : `(${terms.join(" || ")})`;
+  }
+
+  private describe(selector: NetSelector): string {
+    return this.selectors(selector)
+      .map(entry => entry instanceof Bus ? entry.label : typeof entry === "string" ? entry : entry.name)
+      .join(", ");
+  }
+
+  private selectors(selector: NetSelector): (Net | Bus | NetClass | string)[] {
+    return Array.isArray(selector) ? [...selector] : [selector as Net | Bus | NetClass | string];
+  }
+
+  private format(name: string, constraints: string[], condition?: string, layer?: string): string {
+    return [
+      `(rule "${name.replace(/"/g, '\\"')}"`,
+      ...(layer ? [`\t(layer ${layer})`] : []),
+      ...constraints.map(constraint => `\t${constraint}`),
+      ...(condition ? [`\t(condition "${condition.replace(/"/g, '\\"')}")`] : []),
+    ].join("\n") + ")";
+  }
+
+  private mm(value: number): string {
+    return `${Number(value.toFixed(4))}mm`;
+  }
+
+  private escape(value: string): string {
+    return value.replace(/'/g, "\\'");
+  }
+}
@@ -0,0 +1,116 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component } from "../synth/Component";
+import { Net } from "../synth/Net";
+import { SymbolLibrary } from "./SymbolLibrary";
+
+/** A single rule violation found by the checkers. */
+export interface CheckFinding {
+  severity: "error" | "warning";
+  /** Stable rule identifier, e.g. "output-conflict". */
+  rule: string;
+  message: string;
+  /** References of the components involved. */
+  refs: string[];
+  /** Names of the nets involved. */
+  nets: string[];
+  /** Where in the design code the components (or nets) involved were created, as `file:line`. */
+  sources?: string[];
+}
+
+/** A connected pin together with its electrical type from the symbol library. */
+interface ErcNode {
+  comp: Component<any>;
+  pin: Pin;
+  type: string;
+}
+
+/** Pin types that actively drive a net and must not be combined. */
+const ACTIVE_DRIVERS = new Set(["output", "power_out"]);
+
+/** Pin types that can provide a signal level to an input. */
+const DRIVERS = new Set(["output", "power_out", "bidirectional", "tri_state", "passive", "open_collector", "open_emitter", "unspecified"]);
+
+/**
+ * Electrical rules check over the circuit graph.
+ *
+ * Uses the pin electrical types of the KiCad symbols (`input`, `output`,
+ * `power_in`, ...) to catch wiring mistakes before the design is opened in
+ * KiCad. Conflicting outputs are errors, everything else is reported as a
+ * warning.
+ */
+export class ErcChecker {
+  public errors: string[] = [];
+  public warnings: string[] = [];
+  public findings: CheckFinding[] = [];
+
+  constructor(private readonly snapshot: CircuitSnapshot, private readonly library: SymbolLibrary) {}
+
+  check(): { errors: string[]; warnings: string[]; findings: CheckFinding[] } {
+    for (const [net, nodes] of this.collectNets()) {
+      this.checkNet(net, nodes);
+    }
+    this.checkUnconnectedPins();
+    return { errors: this.errors, warnings: this.warnings, findings: this.findings };
+  }
+
+  private report(severity: CheckFinding["severity"], rule: string, message: string, refs: string[], nets: string[] = []) {
+    this.findings.push({ severity, rule, message, refs: Array.from(new Set(refs)), nets });
+    (severity === "error" ? this.errors : this.warnings).push(message);
+  }
+
+  private collectNets(): Map<Net, ErcNode[]> {
+    const nets = new Map<Net, ErcNode[]>();
+    for (const comp of this.snapshot.components) {
+      if (comp.symbol === "Device:DNC") continue;
+      const types = this.library.getPinTypes(comp.symbol);
+
+      for (const pin of new Set<Pin>(comp.allPins.values())) {
+        if (!pin.net || pin.isDNC) continue;
+        if (!nets.has(pin.net)) nets.set(pin.net, []);
+        nets.get(pin.net)!.push({ comp, pin, type: types.get(pin.name) ?? "passive" });
+      }
+    }
+    return nets;
+  }
+
+  private checkNet(net: Net, nodes: ErcNode[]) {
+    const describe = (list: ErcNode[]) => list.map(n => `${n.comp.ref}.${n.pin.name} (${n.type})`).join(", ");
+    const refs = (list: ErcNode[]) => list.map(n => n.comp.ref);
+
+    // Power nets always connect to their global power symbol as well
+    if (nodes.length === 1 && net.class !== "Power") {
+      this.report("warning", "single-pin-net", `Single Pin Net: Net '${net.name}' only connects ${describe(nodes)}.`, refs(nodes), [net.name]);
+    }
+
+    const activeDrivers = nodes.filter(n => ACTIVE_DRIVERS.has(n.type));
+    if (activeDrivers.length > 1) {
+      this.report("error", "output-conflict", `Output Conflict: Net '${net.name}' is driven by multiple outputs: ${describe(activeDrivers)}.`, refs(activeDrivers), [net.name]);
+    }
+
+    const inputs = nodes.filter(n => n.type === "input");
+    if (inputs.length > 0 && !nodes.some(n => DRIVERS.has(n.type))) {
+      this.report("warning", "undriven-input", `Undriven Input: Net '${net.name}' has input pins but no driver: ${describe(inputs)}.`, refs(inputs), [net.name]);
+    }
+
+    const powerInputs = nodes.filter(n => n.type === "power_in");
+    if (powerInputs.length > 0 && !nodes.some(n => n.type === "power_out")) {
+      this.report("warning", "unpowered-net", `Unpowered Net: Net '${net.name}' has power input pins but no power output pin: ${describe(powerInputs)}.`, refs(powerInputs), [net.name]);
+    }
+  }
+
+  private checkUnconnectedPins() {
+    for (const comp of this.snapshot.components) {
+      if (comp.symbol === "Device:DNC") continue;
+
+      for (const [pinName, type] of this.library.getPinTypes(comp.symbol)) {
+        if (type === "no_connect") continue;
+        const pin = comp.allPins.get(pinName);
+
+        // If the pin wasn't accessed at all, or if it has no net and isn't marked DNC
+        if (!pin || (!pin.net && !pin.isDNC)) {
+          this.report("warning", "unconnected-pin", `Unconnected Pin: ${comp.ref} (${comp.symbol}) pin ${pinName} is not connected to any net and not marked as Do Not Connect (DNC).`, [comp.ref]);
+        }
+      }
+    }
+  }
+}
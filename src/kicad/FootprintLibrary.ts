@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Locates `.kicad_mod` files for "Library:Footprint" names.
+ *
+ * Libraries are looked up in the `fp-lib-table` files of the given project
+ * directories, in additional roots containing `<Library>.pretty` folders,
+ * in `KICAD_FOOTPRINT_DIR` and in the standard KiCad installation paths.
+ */
+export class FootprintLibrary {
+  constructor(
+    private readonly tableDirs: string[],
+    private readonly libraryRoots: string[] = [],
+  ) {}
+
+  /** Absolute path of the footprint file, or undefined if it cannot be found. */
+  resolve(footprint: string): string | undefined {
+    const separator = footprint.indexOf(":");
+    if (separator < 1) return undefined;
+    const library = footprint.slice(0, separator);
+    const name = footprint.slice(separator + 1);
+    const candidates: string[] = [];
+
+    for (const tablePath of this.tableDirs.map((dir) => path.join(dir, "fp-lib-table"))) {
+      if (!fs.existsSync(tablePath)) continue;
+      const table = fs.readFileSync(tablePath, "utf-8");
+      const libPattern = new RegExp(`\\(lib\\s+\\(name\\s+"?${this.escapeRegex(library)}"?\\).*?\\(uri\\s+"([^"]+)"\\)`, "s");
+      const match = table.match(libPattern);
+      if (match) {
+        const root = match[1].replace(/\$\{KIPRJMOD\}/g, path.dirname(tablePath));
+        candidates.push(path.join(root, `${name}.kicad_mod`));
+      }
+    }
+
+    const envRoots = process.env.KICAD_FOOTPRINT_DIR ? process.env.KICAD_FOOTPRINT_DIR.split(path.delimiter) : [];
+    const systemRoots = [
+      ...this.libraryRoots,
+      ...envRoots,
+      "/usr/share/kicad/footprints",
+      "/Applications/KiCad/KiCad.app/Contents/SharedSupport/footprints",
+      "C:\\Program Files\\KiCad\\share\\kicad\\footprints",
+    ];
+    for (const root of systemRoots) candidates.push(path.join(root, `${library}.pretty`, `${name}.kicad_mod`));
+    return candidates.find((candidate) => fs.existsSync(candidate));
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
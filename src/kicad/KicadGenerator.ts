@@ -8,12 +8,25 @@ import { SchematicGenerator } from "./SchematicGenerator";
 import { NetlistGenerator } from "./NetlistGenerator";
 import { KicadLibrary } from "../synth/KicadLibrary";
 import { PcbGenerator } from "./PcbGenerator";
+import { SheetHierarchy } from "./SheetHierarchy";
+import { CheckFinding, ErcChecker } from "./ErcChecker";
+import { VoltageChecker } from "./VoltageChecker";
+import { Annotator } from "./Annotator";
+import { ProjectGenerator } from "./ProjectGenerator";
+import { DesignRuleGenerator } from "./DesignRuleGenerator";
+import { SourceLocator, describeFinding } from "./SourceLocator";
+import { createdAt } from "../synth/SourceLocation";
+import { SchematicPositions, loadSchematicPositions } from "./SchematicPositionImporter";
 
 export interface KicadGeneratorOptions {
   noWires?: boolean;
   noSymbols?: boolean;
   experimentalRouting?: boolean;
   experimentalLayout?: boolean;
+  /** Symbol positions to keep, by reference. Defaults to the `schematic-positions.json` next to the schematic. */
+  positions?: SchematicPositions;
+  /** Update an existing `.kicad_pcb` with the positioned footprints and outline declared in code. */
+  updatePcb?: boolean;
   /** Validate the temporary schematic with kicad-cli before replacing output. Defaults to true when available. */
   validateWithKicad?: boolean;
 }
@@ -27,7 +40,11 @@ export class KicadGenerator {
   constructor(libraryPaths?: string[]) {
     this.library = new SymbolLibrary();
     this.uuids = new UuidManager();
+    this.library.setLibraryPaths(KicadGenerator.symbolLibraryPaths(libraryPaths));
+  }
 
+  /** Symbol library search paths: the given paths, `KICAD_SYMBOL_DIR` and the standard KiCad installations. */
+  static symbolLibraryPaths(libraryPaths?: string[]): string[] {
     // Default library paths from environment
     const envPaths = process.env.KICAD_SYMBOL_DIR
       ? process.env.KICAD_SYMBOL_DIR.split(":")
@@ -40,8 +57,7 @@ export class KicadGenerator {
       "C:\\Program Files\\KiCad\\share\\kicad\\symbols"
     ].filter(p => fs.existsSync(p));
 
-    const paths = [...(libraryPaths || []), ...envPaths, ...systemPaths];
-    this.library.setLibraryPaths(paths);
+    return [...(libraryPaths || []), ...envPaths, ...systemPaths];
   }
 
   private writeAtomic(filePath: string, content: string): void {
@@ -99,6 +115,13 @@ export class KicadGenerator {
     }
   }
 
+  /** Add checker findings to the errors and warnings, with the code locations they point at. */
+  private report(findings: CheckFinding[]): void {
+    for (const finding of findings) {
+      (finding.severity === "error" ? this.errors : this.warnings).push(describeFinding(finding));
+    }
+  }
+
   generate(snapshot: CircuitSnapshot, outputDir: string, options: KicadGeneratorOptions = {}) {
     if (!fs.existsSync(outputDir)) {
       fs.mkdirSync(outputDir, { recursive: true });
@@ -109,66 +132,97 @@ export class KicadGenerator {
     const netPath = path.join(outputDir, `${name}.net`);
     const uuidPath = path.join(outputDir, "uuids.json");
 
+    // Load existing UUIDs
+    this.uuids.load(uuidPath);
+
+    // Number references like "R" or "R?", reusing the designators of previous runs
+    new Annotator(snapshot, this.uuids).annotate();
+
     // Validate component references end in a number
     for (const comp of snapshot.components) {
       if (comp.symbol === "Device:DNC" || comp.ref === "#PWR") continue;
       if (!/\d+$/.test(comp.ref)) {
-        throw new Error(`Invalid Reference: Component '${comp.ref}' (${comp.symbol}) must end in a number to be compatible with KiCad annotation.`);
+        throw new Error(`Invalid Reference: Component '${comp.ref}' (${comp.symbol})${createdAt(comp)} must end in a number to be compatible with KiCad annotation.`);
       }
     }
 
-    // Load existing UUIDs
-    this.uuids.load(uuidPath);
+    // Electrical rules check, and rail voltages against pin and capacitor ratings
+    const locator = new SourceLocator(snapshot);
+    this.report(locator.locate(new ErcChecker(snapshot, this.library).check().findings));
+    this.report(locator.locate(new VoltageChecker(snapshot).check().findings));
+
+    // Resolve subschematic sheets before layout detaches components from their groups
+    const hierarchy = new SheetHierarchy(snapshot);
+
+    // Keep the symbol positions pulled from the previous schematic
+    const positions = options.positions ?? loadSchematicPositions(path.join(outputDir, "schematic-positions.json"));
 
     // Generate Schematic
     console.log(`  → Generating Schematic: ${schPath}...`);
-    const schematicGen = new SchematicGenerator(snapshot, this.library, this.uuids, options);
-    const schematicContent = schematicGen.generate();
+    const schematicGen = new SchematicGenerator(snapshot, this.library, this.uuids, { ...options, positions }, hierarchy);
+    const [rootSheet, ...childSheets] = schematicGen.generateSheets();
     if (schematicGen.errors.length > 0) {
       this.errors.push(...schematicGen.errors);
     }
     if (schematicGen.warnings.length > 0) {
       this.warnings.push(...schematicGen.warnings);
     }
-    this.writeValidatedSchematic(schPath, schematicContent, options.validateWithKicad !== false);
+    // Child sheets are written first: kicad-cli resolves them relative to the root sheet.
+    for (const child of childSheets) {
+      console.log(`  → Generating Sheet: ${child.sheet.path} (${child.fileName})...`);
+      this.writeAtomic(path.join(outputDir, child.fileName), child.content);
+    }
+    this.writeValidatedSchematic(schPath, rootSheet.content, options.validateWithKicad !== false);
 
     // Generate Netlist
     console.log(`  → Generating Netlist: ${netPath}...`);
-    const netlistGen = new NetlistGenerator(snapshot, this.library, this.uuids, schPath);
+    const netlistGen = new NetlistGenerator(snapshot, this.library, this.uuids, schPath, hierarchy);
     const netlistContent = netlistGen.generate();
     this.writeAtomic(netPath, netlistContent);
 
-    // Save UUIDs
+    // Generate the project file, or update the net classes of an existing one
+    const proPath = path.join(outputDir, `${name}.kicad_pro`);
+    const existingProject = fs.existsSync(proPath) ? fs.readFileSync(proPath, "utf-8") : undefined;
+    try {
+      const proContent = new ProjectGenerator(snapshot, `${name}.kicad_pro`, this.uuids).generate(existingProject);
+      if (proContent !== existingProject) this.writeAtomic(proPath, proContent);
+    } catch (e: any) {
+      this.warnings.push(`Could not update ${proPath}: ${e.message}`);
+    }
+
+    // Save UUIDs, along with the net classes written to the project
     this.uuids.save();
 
-    // Generate minimal project file if missing
-    const proPath = path.join(outputDir, `${name}.kicad_pro`);
-    if (!fs.existsSync(proPath)) {
-      const proContent = JSON.stringify({
-        meta: { filename: `${name}.kicad_pro`, version: 1 },
-        board: {
-          design_settings: {
-            rules: {
-              solder_mask_clearance: 0.0,
-              solder_mask_min_width: 0.0,
-              solder_paste_clearance: 0.0,
-              solder_paste_margin: 0.0
-            }
-          }
-        }
-      }, null, 2);
-      this.writeAtomic(proPath, proContent);
+    // Custom design rules are owned by the code and rewritten on every run
+    if (snapshot.designRules && snapshot.designRules.length > 0) {
+      const druPath = path.join(outputDir, `${name}.kicad_dru`);
+      const druResult = new DesignRuleGenerator(snapshot).generate();
+      console.log(`  → Generating design rules: ${druPath}...`);
+      this.warnings.push(...druResult.warnings);
+      this.writeAtomic(druPath, druResult.content);
     }
 
     // Generate an initial PCB with the declared outline and explicit placements.
     // Existing boards are never overwritten: after the initial import, KiCad owns
-    // routing and placement of all remaining components.
+    // routing and placement of all remaining components. On request, the
+    // declared placements and outline are merged into the existing board.
     const pcbPath = path.join(outputDir, `${name}.kicad_pcb`);
     if (snapshot.pcb && !fs.existsSync(pcbPath)) {
-      const pcbResult = new PcbGenerator(snapshot, this.uuids, outputDir).generate();
+      const pcbResult = new PcbGenerator(snapshot, this.uuids, outputDir, hierarchy).generate();
       console.log(`  → Generating PCB: ${pcbPath} (${pcbResult.placed} explicitly placed footprints)...`);
       this.warnings.push(...pcbResult.warnings);
       this.writeAtomic(pcbPath, pcbResult.content);
+      // The UUIDs of the outline segments are recorded for later updates
+      this.uuids.save();
+    } else if (options.updatePcb && !snapshot.pcb) {
+      this.warnings.push(`Cannot update ${pcbPath}: the schematic declares no pcb options.`);
+    } else if (snapshot.pcb && options.updatePcb) {
+      const existing = fs.readFileSync(pcbPath, "utf-8");
+      const pcbResult = new PcbGenerator(snapshot, this.uuids, outputDir, hierarchy).update(existing);
+      console.log(`  → Updating PCB: ${pcbPath} (${pcbResult.moved} moved, ${pcbResult.added} added${pcbResult.outlineUpdated ? ", outline replaced" : ""})...`);
+      this.warnings.push(...pcbResult.warnings);
+      if (pcbResult.content !== existing) this.writeAtomic(pcbPath, pcbResult.content);
+      this.uuids.save();
     } else if (!fs.existsSync(pcbPath)) {
       const pcbContent = `(kicad_pcb
 	(version 20241229)
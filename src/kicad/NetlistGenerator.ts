@@ -1,9 +1,10 @@
 import { CircuitSnapshot, Pin } from "../synth/types";
-import { Component } from "../synth/Component";
+import { Component, resolveVariant } from "../synth/Component";
 import { Net } from "../synth/Net";
 import { SymbolLibrary, SymbolDefinition } from "./SymbolLibrary";
 import { SExpr, SExpressionParser } from "./SExpressionParser";
 import { UuidManager } from "./UuidManager";
+import { SheetHierarchy } from "./SheetHierarchy";
 import * as path from "path";
 
 export class NetlistGenerator {
@@ -12,12 +13,14 @@ export class NetlistGenerator {
   private uuids: UuidManager;
   private usedSymbols = new Map<string, SymbolDefinition>();
   private schematicPath: string;
+  private hierarchy: SheetHierarchy;
 
-  constructor(snapshot: CircuitSnapshot, library: SymbolLibrary, uuids: UuidManager, schematicPath: string = "") {
+  constructor(snapshot: CircuitSnapshot, library: SymbolLibrary, uuids: UuidManager, schematicPath: string = "", hierarchy?: SheetHierarchy) {
     this.snapshot = snapshot;
     this.library = library;
     this.uuids = uuids;
     this.schematicPath = schematicPath || snapshot.name;
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
   }
 
   generate(): string {
@@ -30,13 +33,14 @@ export class NetlistGenerator {
         ["source", this.quote(this.schematicPath)],
         ["date", this.quote(new Date().toISOString())],
         ["tool", this.quote("Eeschema 9.0.7")],
-        ["sheet", ["number", '"1"'], ["name", '"/"'], ["tstamps", '"/"'],
+        ...this.hierarchy.sheets.map(sheet => [
+          "sheet", ["number", this.quote(String(sheet.page))], ["name", this.quote(sheet.path)], ["tstamps", this.quote(this.hierarchy.tstampsPath(sheet, this.uuids))],
           ["title_block",
             ["title", this.quote(this.snapshot.name)],
             ["company", this.quote("Generated by @tobisk/pcbs")],
             ["rev", this.quote("v1.0")],
             ["date", this.quote(new Date().toISOString().split("T")[0])],
-            ["source", this.quote(`${this.snapshot.name}.kicad_sch`)],
+            ["source", this.quote(sheet.fileName)],
             ["comment", ["number", '"1"'], ["value", '""']],
             ["comment", ["number", '"2"'], ["value", '""']],
             ["comment", ["number", '"3"'], ["value", '""']],
@@ -47,7 +51,7 @@ export class NetlistGenerator {
             ["comment", ["number", '"8"'], ["value", '""']],
             ["comment", ["number", '"9"'], ["value", '""']]
           ]
-        ]
+        ] as SExpr[])
       ],
       this.generateComponents(),
       this.generateLibParts(),
@@ -64,7 +68,7 @@ export class NetlistGenerator {
       if (comp.symbol === "Device:DNC") continue;
 
       const symName = comp.symbol;
-      const uuid = this.uuids.getOrGenerate(comp.ref);
+      const uuid = this.hierarchy.symbolUuid(comp, this.uuids);
 
       // Collect symbol for libparts later
       const symDef = this.library.getSymbol(comp.symbol);
@@ -77,6 +81,8 @@ export class NetlistGenerator {
       const partName = symNameParts.length > 1 ? symNameParts.slice(1).join(":") : symName;
 
       const rootUuid = this.uuids.getOrGenerate("ROOT");
+      const sheet = this.hierarchy.sheetOf(comp);
+      const instancePath = this.hierarchy.instancePath(sheet, this.uuids);
 
       const compProps = new Map<string, string>();
       if (symDef) {
@@ -97,10 +103,17 @@ export class NetlistGenerator {
       const kiKeywords = compProps.get("ki_keywords");
       const kiFpFilters = compProps.get("ki_fp_filters");
 
+      const populated = resolveVariant(comp, this.snapshot.variant);
+      const custom = comp.fields ?? {};
+      const description = custom.Description ?? comp.description;
       const fields: SExpr[] = ["fields"];
-      fields.push(["field", ["name", this.quote("Datasheet")]]);
-      if (comp.description) {
-        fields.push(["field", this.quote(comp.description), ["name", this.quote("Description")]]);
+      if (custom.Datasheet) {
+        fields.push(["field", this.quote(custom.Datasheet), ["name", this.quote("Datasheet")]]);
+      } else {
+        fields.push(["field", ["name", this.quote("Datasheet")]]);
+      }
+      if (description) {
+        fields.push(["field", this.quote(description), ["name", this.quote("Description")]]);
       } else {
         fields.push(["field", ["name", this.quote("Description")]]);
       }
@@ -109,25 +122,33 @@ export class NetlistGenerator {
       } else {
         fields.push(["field", ["name", this.quote("Footprint")]]);
       }
-      fields.push(["field", this.quote(`/${rootUuid}`), ["name", this.quote("hierarchy_path")]]);
+      fields.push(["field", this.quote(instancePath), ["name", this.quote("hierarchy_path")]]);
       fields.push(["field", ["name", this.quote("ki_keywords")]]);
-      if (comp.partNo) {
-        fields.push(["field", this.quote(comp.partNo), ["name", this.quote("LCSC_Part")]]);
+      if (populated.partNo) {
+        fields.push(["field", this.quote(populated.partNo), ["name", this.quote("LCSC_Part")]]);
       } else {
         fields.push(["field", ["name", this.quote("LCSC_Part")]]);
       }
+      for (const [name, value] of (populated.properties?.fields() ?? []).filter(([name]) => !(name in custom))) {
+        fields.push(["field", this.quote(value), ["name", this.quote(name)]]);
+      }
+      for (const [name, value] of Object.entries(custom)) {
+        if (name !== "Datasheet" && name !== "Description") {
+          fields.push(["field", this.quote(value), ["name", this.quote(name)]]);
+        }
+      }
       fields.push(["field", this.quote(rootUuid), ["name", this.quote("root_uuid")]]);
 
       const compDef: SExpr[] = [
         "comp",
         ["ref", this.quote(comp.ref)],
-        ["value", this.quote(comp.value || symName)],
+        ["value", this.quote(populated.value || symName)],
         ["footprint", this.quote(comp.footprint || "")],
         fields,
         ["libsource", ["lib", this.quote(libName)], ["part", this.quote(partName)], ["description", this.quote(comp.description || "")]],
       ];
 
-      compDef.push(["property", ["name", this.quote("hierarchy_path")], ["value", this.quote(`/${rootUuid}`)]]);
+      compDef.push(["property", ["name", this.quote("hierarchy_path")], ["value", this.quote(instancePath)]]);
       if (kiFpFilters !== undefined) {
         compDef.push(["property", ["name", this.quote("ki_fp_filters")], ["value", this.quote(kiFpFilters)]]);
       }
@@ -135,11 +156,14 @@ export class NetlistGenerator {
       if (kiKeywords !== undefined) {
         compDef.push(["property", ["name", this.quote("ki_keywords")], ["value", this.quote(kiKeywords)]]);
       }
-      compDef.push(["property", ["name", this.quote("LCSC_Part")], ["value", this.quote(comp.partNo || "")]]);
+      compDef.push(["property", ["name", this.quote("LCSC_Part")], ["value", this.quote(populated.partNo || "")]]);
+      if (populated.dnp) {
+        compDef.push(["property", ["name", this.quote("dnp")]]);
+      }
       compDef.push(["property", ["name", this.quote("root_uuid")], ["value", this.quote(rootUuid)]]);
-      compDef.push(["property", ["name", this.quote("Sheetname")], ["value", this.quote("Stammblatt")]]);
-      compDef.push(["property", ["name", this.quote("Sheetfile")], ["value", this.quote(`${this.snapshot.name}.kicad_sch`)]]);
-      compDef.push(["sheetpath", ["names", '"/"'], ["tstamps", '"/"']]);
+      compDef.push(["property", ["name", this.quote("Sheetname")], ["value", this.quote(sheet.parent ? sheet.name : "Stammblatt")]]);
+      compDef.push(["property", ["name", this.quote("Sheetfile")], ["value", this.quote(sheet.fileName)]]);
+      compDef.push(["sheetpath", ["names", this.quote(sheet.path)], ["tstamps", this.quote(this.hierarchy.tstampsPath(sheet, this.uuids))]]);
       compDef.push(["tstamps", this.quote(uuid)]);
 
       components.push(compDef);
@@ -291,15 +315,24 @@ export class NetlistGenerator {
     const nets: SExpr[] = ["nets"];
     let code = 1;
 
+    // Nodes per net, in component order
     const pinMap = new Map<Pin, Component<any>>();
+    const netNodes = new Map<Net, SExpr[]>();
     for (const comp of this.snapshot.components) {
       if (comp.symbol === "Device:DNC") continue;
       for (const [name, pin] of comp.allPins) {
         pinMap.set(pin as Pin, comp);
       }
     }
+    for (const [pin, comp] of pinMap) {
+      if (!pin.net) continue;
+      const pintype = this.library.getPinTypes(comp.symbol).get(pin.name) ?? "passive";
+      if (!netNodes.has(pin.net)) netNodes.set(pin.net, []);
+      netNodes.get(pin.net)!.push(["node", ["ref", this.quote(comp.ref)], ["pin", this.quote(pin.name)], ["pintype", this.quote(pintype)]]);
+    }
 
     const processedNets = new Set<Net>();
+    const classNames = new Set((this.snapshot.netClasses ?? []).map(netClass => netClass.name));
 
     const allNets = new Set<Net>(this.snapshot.nets);
     for (const comp of this.snapshot.components) {
@@ -312,59 +345,13 @@ export class NetlistGenerator {
       if (processedNets.has(net)) continue;
       processedNets.add(net);
 
-      const nodes: SExpr[] = [];
-
-      for (const [pin, comp] of pinMap) {
-        if (pin.net === net) {
-          let pintype = "passive";
-          const symDef = this.library.getSymbol(comp.symbol);
-          if (symDef) {
-            // Helper to recursively find pin type by pin number
-            const findPinType = (expr: SExpr, targetPin: string): string | null => {
-              if (!Array.isArray(expr)) return null;
-
-              // Is this a pin definition? (pin "type" "shape" ...)
-              if (expr[0] === "pin" && typeof expr[1] === "string" && typeof expr[2] === "string") {
-                // Find the (number "X" ...) child
-                for (const child of expr) {
-                  if (Array.isArray(child) && child[0] === "number" && typeof child[1] === "string") {
-                    const num = SExpressionParser.unquote(child[1]);
-                    if (num === targetPin) {
-                      return expr[1]; // The pin type is the second element
-                    }
-                  }
-                }
-              }
-
-              // Recurse
-              for (const child of expr) {
-                const res = findPinType(child, targetPin);
-                if (res) return res;
-              }
-              return null;
-            };
-
-            pintype = findPinType(symDef.definition, pin.name) || "passive";
-            if (pintype === "passive") {
-              for (const dep of symDef.dependencies) {
-                const depType = findPinType(dep, pin.name);
-                if (depType) {
-                  pintype = depType;
-                  break;
-                }
-              }
-            }
-          }
-
-          nodes.push(["node", ["ref", this.quote(comp.ref)], ["pin", this.quote(pin.name)], ["pintype", this.quote(pintype)]]);
-        }
-      }
+      const nodes = netNodes.get(net) ?? [];
 
       nets.push([
         "net",
         ["code", this.quote(code.toString())],
         ["name", this.quote(net.name)],
-        ["class", this.quote("Default")],
+        ["class", this.quote(classNames.has(net.class) ? net.class : "Default")],
         ...nodes
       ]);
       code++;
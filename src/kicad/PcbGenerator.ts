@@ -1,9 +1,14 @@
 import * as crypto from "crypto";
 import * as fs from "fs";
-import * as path from "path";
-import { CircuitSnapshot } from "../synth/types";
+import { CircuitSnapshot, PcbOptions, PcbPoint, PcbPosition } from "../synth/types";
 import { Component } from "../synth/Component";
+import { createdAt } from "../synth/SourceLocation";
+import { wildcard } from "../synth/Wildcard";
 import { UuidManager } from "./UuidManager";
+import { SheetHierarchy } from "./SheetHierarchy";
+import { FootprintLibrary } from "./FootprintLibrary";
+import { SExpr, SExpressionParser } from "./SExpressionParser";
+import { listItems, normalizeAngle, readBoardFootprints } from "./BoardFile";
 
 export interface PcbGenerationResult {
   content: string;
@@ -11,53 +16,223 @@ export interface PcbGenerationResult {
   warnings: string[];
 }
 
-/** Generates an initial board containing the outline and explicitly positioned footprints. */
+export interface PcbUpdateResult {
+  content: string;
+  /** Positioned footprints that were not on the board yet. */
+  added: number;
+  /** Footprints moved to their position in code. */
+  moved: number;
+  outlineUpdated: boolean;
+  warnings: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Key of the UUID of an outline segment in uuids.json. */
+const outlineKey = (index: number) => `pcb_outline_${index}`;
+
+/**
+ * Generates an initial board containing the outline and explicitly positioned
+ * footprints, including the positions pulled from a previous board.
+ */
 export class PcbGenerator {
+  private readonly hierarchy: SheetHierarchy;
+  private readonly footprints: FootprintLibrary;
+
   constructor(
     private readonly snapshot: CircuitSnapshot,
     private readonly uuids: UuidManager,
     private readonly outputDir: string,
-  ) {}
+    hierarchy?: SheetHierarchy,
+  ) {
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
+    this.footprints = new FootprintLibrary([outputDir, process.cwd()]);
+  }
 
   generate(): PcbGenerationResult {
+    const pcb = this.pcbOptions();
+    const warnings: string[] = [];
+    const footprints: string[] = [];
+    for (const component of this.positionedComponents(true)) {
+      const footprint = this.footprintFor(component, warnings);
+      if (footprint) footprints.push(footprint);
+    }
+
+    return {
+      content: `${this.header(pcb.thickness ?? 1.6)}\n${footprints.join("\n")}\n${this.outlineEdges(pcb).join("\n")}\n\t(embedded_fonts no)\n)\n`,
+      placed: footprints.length,
+      warnings,
+    };
+  }
+
+  /**
+   * Update an existing board in place: move the footprints of positioned
+   * components whose position in code changed, add positioned components that
+   * are not on the board yet, and replace the outline segments generated from
+   * `pcb.outline` if it changed. Everything else, including footprints placed
+   * in pcbnew, tracks, zones and other Edge.Cuts drawings, is left exactly as
+   * it is.
+   */
+  update(existing: string): PcbUpdateResult {
+    const pcb = this.pcbOptions();
+    const warnings: string[] = [];
+    const edits: TextEdit[] = [];
+    const onBoard = readBoardFootprints(existing);
+    const byPath = new Map(onBoard.filter((footprint) => footprint.path).map((footprint) => [footprint.path!, footprint]));
+
+    const added: string[] = [];
+    let moved = 0;
+    // Pulled placements came from the board; moving them back could undo newer work in pcbnew
+    for (const component of this.positionedComponents(false)) {
+      const footprint = byPath.get(this.hierarchy.footprintPath(component, this.uuids)) ?? onBoard.find((candidate) => candidate.ref === component.ref);
+      if (!footprint) {
+        const instance = this.footprintFor(component, warnings);
+        if (instance) added.push(instance);
+        continue;
+      }
+
+      const target = component.absolutePcbPosition;
+      if (target.side !== footprint.position.side) {
+        warnings.push(`${component.ref}${createdAt(component)} is on the ${target.side} side in code, but on the ${footprint.position.side} side of the board; flip it in pcbnew.`);
+        continue;
+      }
+      if (samePosition(footprint.position, target)) continue;
+      edits.push({ start: footprint.start, end: footprint.end, text: this.moveFootprint(existing.slice(footprint.start, footprint.end), footprint.position, target) });
+      moved++;
+    }
+
+    const items = listItems(existing);
+    const edgeCuts = items
+      .filter((item) => item.keyword.startsWith("gr_"))
+      .map((item) => ({ ...item, expr: SExpressionParser.parse(existing.slice(item.start, item.end))[0] as SExpr[] }))
+      .filter((item) => this.isEdgeCut(item.expr));
+    const recorded = new Set(this.recordedOutline());
+    let outlineUpdated = false;
+    if (recorded.size > 0) {
+      // Only the segments generated before are the outline; cutouts and slots drawn in pcbnew stay
+      const generated = edgeCuts.filter((item) => recorded.has(uuidOf(item.expr) ?? ""));
+      outlineUpdated = generated.length !== pcb.outline.length || !this.matchOutline(generated.map((item) => item.expr), pcb.outline);
+      if (outlineUpdated) {
+        for (const item of generated) edits.push({ start: lineStart(existing, item.start), end: item.end, text: "" });
+      }
+    } else {
+      // A board from before the outline was recorded: adopt the drawings that are its edges
+      const matched = this.matchOutline(edgeCuts.map((item) => item.expr), pcb.outline);
+      if (matched && matched.every((index) => uuidOf(edgeCuts[index].expr))) {
+        this.recordOutline(matched.map((index) => uuidOf(edgeCuts[index].expr)!));
+      } else if (edgeCuts.length === 0) {
+        outlineUpdated = true;
+      } else {
+        warnings.push("The Edge.Cuts drawings of the board are not the declared outline, and it is unknown which of them were generated; update the outline in pcbnew.");
+      }
+    }
+
+    const inserted = [...added, ...(outlineUpdated ? this.outlineEdges(pcb) : [])];
+    if (inserted.length > 0) {
+      // After the footprints, where pcbnew writes them too
+      const footprints = items.filter((item) => item.keyword === "footprint");
+      const anchor = (footprints[footprints.length - 1] ?? items.filter((item) => item.keyword !== "embedded_fonts").pop())?.end ?? existing.lastIndexOf(")");
+      edits.push({ start: anchor, end: anchor, text: `\n${inserted.join("\n")}` });
+    }
+
+    return { content: applyEdits(existing, edits), added: added.length, moved, outlineUpdated, warnings };
+  }
+
+  private pcbOptions(): PcbOptions {
     const pcb = this.snapshot.pcb;
     if (!pcb) throw new Error("Cannot generate a PCB without schematic pcb options.");
     if (pcb.outline.length < 3) throw new Error("PCB outline must contain at least three points.");
     if (pcb.outline.some((point) => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
       throw new Error("PCB outline points must contain finite x/y coordinates.");
     }
+    return pcb;
+  }
 
-    const warnings: string[] = [];
-    const footprints: string[] = [];
-    for (const component of this.snapshot.components) {
-      if (!component.footprint || component.footprint === "DNC" || !this.hasExplicitPcbPosition(component) || !this.isIncluded(component.ref)) continue;
-      const source = this.resolveFootprint(component.footprint);
-      if (!source) {
-        warnings.push(`Could not resolve footprint '${component.footprint}' for positioned component ${component.ref}; it was left for KiCad import.`);
-        continue;
-      }
-      footprints.push(this.instantiateFootprint(component, fs.readFileSync(source, "utf-8")));
+  private positionedComponents(includePulled: boolean): Component<any>[] {
+    return this.snapshot.components.filter((component) =>
+      component.footprint && component.footprint !== "DNC" && this.isIncluded(component.ref) &&
+      (this.hasExplicitPcbPosition(component) || (includePulled && !!component.placement)));
+  }
+
+  private footprintFor(component: Component<any>, warnings: string[]): string | undefined {
+    const source = this.footprints.resolve(component.footprint);
+    if (!source) {
+      warnings.push(`Could not resolve footprint '${component.footprint}' for positioned component ${component.ref}${createdAt(component)}; it was left for KiCad import.`);
+      return undefined;
     }
+    return this.instantiateFootprint(component, fs.readFileSync(source, "utf-8"));
+  }
 
+  /** The outline segments. Their UUIDs are recorded, so updates can tell them from Edge.Cuts drawings added in pcbnew. */
+  private outlineEdges(pcb: PcbOptions): string[] {
     const edges = pcb.outline.map((start, index) => {
       const end = pcb.outline[(index + 1) % pcb.outline.length];
-      return `\t(gr_line\n\t\t(start ${start.x} ${start.y})\n\t\t(end ${end.x} ${end.y})\n\t\t(stroke (width ${pcb.outlineLineWidth ?? 0.05}) (type solid))\n\t\t(layer "Edge.Cuts")\n\t\t(uuid "${crypto.randomUUID()}")\n\t)`;
+      return { start, end, uuid: crypto.randomUUID() };
     });
+    this.recordOutline(edges.map((edge) => edge.uuid));
+    return edges.map(({ start, end, uuid }) =>
+      `\t(gr_line\n\t\t(start ${start.x} ${start.y})\n\t\t(end ${end.x} ${end.y})\n\t\t(stroke (width ${pcb.outlineLineWidth ?? 0.05}) (type solid))\n\t\t(layer "Edge.Cuts")\n\t\t(uuid "${uuid}")\n\t)`);
+  }
 
-    return {
-      content: `${this.header(pcb.thickness ?? 1.6)}\n${footprints.join("\n")}\n${edges.join("\n")}\n\t(embedded_fonts no)\n)\n`,
-      placed: footprints.length,
-      warnings,
-    };
+  private recordedOutline(): string[] {
+    const recorded: string[] = [];
+    for (let uuid = this.uuids.get(outlineKey(0)); uuid; uuid = this.uuids.get(outlineKey(recorded.length))) recorded.push(uuid);
+    return recorded;
+  }
+
+  private recordOutline(segments: string[]): void {
+    segments.forEach((uuid, index) => this.uuids.set(outlineKey(index), uuid));
+    for (let index = segments.length; this.uuids.get(outlineKey(index)); index++) this.uuids.delete(outlineKey(index));
+  }
+
+  private isEdgeCut(expr: SExpr[]): boolean {
+    return expr.some((child) => Array.isArray(child) && child[0] === "layer" && SExpressionParser.unquote(String(child[1])) === "Edge.Cuts");
+  }
+
+  /**
+   * The drawing of every edge of the outline, in any order and direction, or
+   * undefined if an edge is not among the drawings.
+   */
+  private matchOutline(drawings: SExpr[][], outline: PcbPoint[]): number[] | undefined {
+    const segments = drawings.map((expr) => {
+      const point = (name: string) => {
+        const at = expr.find((child): child is SExpr[] => Array.isArray(child) && child[0] === name);
+        return at ? { x: Number(at[1]), y: Number(at[2]) } : undefined;
+      };
+      return expr[0] === "gr_line" ? [point("start"), point("end")] : [];
+    });
+    const matched = outline.map((start, index) => {
+      const end = outline[(index + 1) % outline.length];
+      return segments.findIndex(([a, b]) => !!a && !!b &&
+        ((samePoint(a, start) && samePoint(b, end)) || (samePoint(a, end) && samePoint(b, start))));
+    });
+    return matched.includes(-1) ? undefined : matched;
+  }
+
+  /** Move a footprint of the board. Pad and text angles are absolute in board files, so they turn along. */
+  private moveFootprint(footprint: string, from: Required<PcbPosition>, to: PcbPosition): string {
+    const rotation = normalizeAngle(to.rotation ?? 0);
+    const delta = rotation - from.rotation;
+    const edits: TextEdit[] = [];
+    for (const item of listItems(footprint, 0)) {
+      if (item.keyword === "at") {
+        edits.push({ start: item.start, end: item.end, text: `(at ${formatNumber(to.x)} ${formatNumber(to.y)} ${formatNumber(rotation)})` });
+      } else if (delta !== 0 && ["pad", "property", "fp_text"].includes(item.keyword)) {
+        const at = listItems(footprint, item.start).find((child) => child.keyword === "at");
+        if (at) edits.push({ start: at.start, end: at.end, text: rotateAt(footprint.slice(at.start, at.end), delta) });
+      }
+    }
+    return applyEdits(footprint, edits);
   }
 
   private isIncluded(reference: string): boolean {
     const patterns = this.snapshot.pcb?.place;
     if (!patterns?.length) return true;
-    return patterns.some((pattern) => {
-      const expression = pattern.split("*").map((part) => this.escapeRegex(part)).join(".*");
-      return new RegExp(`^${expression}$`).test(reference);
-    });
+    return patterns.some((pattern) => wildcard(pattern).test(reference));
   }
 
   private hasExplicitPcbPosition(component: Component<any>): boolean {
@@ -73,39 +248,9 @@ export class PcbGenerator {
     return false;
   }
 
-  private resolveFootprint(footprint: string): string | undefined {
-    const separator = footprint.indexOf(":");
-    if (separator < 1) return undefined;
-    const library = footprint.slice(0, separator);
-    const name = footprint.slice(separator + 1);
-    const candidates: string[] = [];
-
-    for (const tablePath of [path.join(this.outputDir, "fp-lib-table"), path.join(process.cwd(), "fp-lib-table")]) {
-      if (!fs.existsSync(tablePath)) continue;
-      const table = fs.readFileSync(tablePath, "utf-8");
-      const libPattern = new RegExp(`\\(lib\\s+\\(name\\s+"?${this.escapeRegex(library)}"?\\).*?\\(uri\\s+"([^"]+)"\\)`, "s");
-      const match = table.match(libPattern);
-      if (match) {
-        const root = match[1].replace(/\$\{KIPRJMOD\}/g, path.dirname(tablePath));
-        candidates.push(path.join(root, `${name}.kicad_mod`));
-      }
-    }
-
-    const envRoots = process.env.KICAD_FOOTPRINT_DIR ? process.env.KICAD_FOOTPRINT_DIR.split(path.delimiter) : [];
-    const systemRoots = [
-      ...envRoots,
-      "/usr/share/kicad/footprints",
-      "/Applications/KiCad/KiCad.app/Contents/SharedSupport/footprints",
-      "C:\\Program Files\\KiCad\\share\\kicad\\footprints",
-    ];
-    for (const root of systemRoots) candidates.push(path.join(root, `${library}.pretty`, `${name}.kicad_mod`));
-    return candidates.find((candidate) => fs.existsSync(candidate));
-  }
-
   private instantiateFootprint(component: Component<any>, source: string): string {
     const pos = component.absolutePcbPosition;
     const rotation = pos.rotation ?? 0;
-    const footprintUuid = this.uuids.getOrGenerate(component.ref);
     const quotedRef = this.escapeQuoted(component.ref);
     const quotedValue = this.escapeQuoted(component.value || component.footprint.split(":").pop() || component.ref);
     let result = source.trim();
@@ -120,7 +265,8 @@ export class PcbGenerator {
     const rootLayer = pos.side === "back" ? "B.Cu" : "F.Cu";
     result = result.replace(/\n\s*\(layer\s+"[FB]\.Cu"\)/, `\n\t(layer "${rootLayer}")\n\t(uuid "${crypto.randomUUID()}")\n\t(at ${pos.x} ${pos.y} ${rotation})`);
 
-    const association = `\n\t(path "/${footprintUuid}")\n\t(sheetname "/")\n\t(sheetfile "${this.escapeQuoted(this.snapshot.name)}.kicad_sch")`;
+    const sheet = this.hierarchy.sheetOf(component);
+    const association = `\n\t(path "${this.hierarchy.footprintPath(component, this.uuids)}")\n\t(sheetname "${this.escapeQuoted(sheet.path)}")\n\t(sheetfile "${this.escapeQuoted(sheet.fileName)}")`;
     const attrIndex = result.search(/\n\s*\(attr\b/);
     if (attrIndex >= 0) result = result.slice(0, attrIndex) + association + result.slice(attrIndex);
     else result = result.replace(/\n\)$/, `${association}\n)`);
@@ -138,10 +284,6 @@ export class PcbGenerator {
     return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
   }
 
-  private escapeRegex(value: string): string {
-    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  }
-
   private header(thickness: number): string {
     return `(kicad_pcb
 \t(version 20241229)
@@ -175,3 +317,44 @@ export class PcbGenerator {
 \t(net 0 "")`;
   }
 }
+
+/** Replace ranges of a text. The ranges must not overlap. */
+function applyEdits(content: string, edits: TextEdit[]): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/** Start of the line, including its indentation, if only whitespace precedes `offset` on it. */
+function lineStart(content: string, offset: number): number {
+  let start = offset;
+  while (start > 0 && (content[start - 1] === "\t" || content[start - 1] === " ")) start--;
+  return start > 0 && content[start - 1] === "\n" ? start - 1 : offset;
+}
+
+function rotateAt(at: string, delta: number): string {
+  const [, x, y, ...rest] = SExpressionParser.parse(at)[0] as string[];
+  // The angle is omitted for 0, and may be followed by flags like "unlocked"
+  const angle = rest.length > 0 && !isNaN(Number(rest[0])) ? Number(rest.shift()) : 0;
+  const rotation = normalizeAngle(angle + delta);
+  return `(at ${[x, y, ...(rotation !== 0 ? [formatNumber(rotation)] : []), ...rest].join(" ")})`;
+}
+
+function uuidOf(expr: SExpr[]): string | undefined {
+  const uuid = expr.find((child): child is SExpr[] => Array.isArray(child) && child[0] === "uuid");
+  return uuid ? SExpressionParser.unquote(String(uuid[1])) : undefined;
+}
+
+function samePosition(a: Required<PcbPosition>, b: PcbPosition): boolean {
+  return samePoint(a, b) && Math.abs(normalizeAngle(a.rotation - (b.rotation ?? 0))) < 1e-6;
+}
+
+function samePoint(a: PcbPoint, b: PcbPoint): boolean {
+  return Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
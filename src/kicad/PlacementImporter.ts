@@ -0,0 +1,94 @@
+import { CircuitSnapshot, PcbPlacements, PcbPosition } from "../synth/types";
+import { Component } from "../synth/Component";
+import { normalizeAngle, readBoardFootprints } from "./BoardFile";
+import { SheetHierarchy } from "./SheetHierarchy";
+import { UuidManager } from "./UuidManager";
+
+export interface PlacementImportResult {
+  /** Source of the `placements.ts` module. */
+  source: string;
+  placements: PcbPlacements;
+  warnings: string[];
+}
+
+/**
+ * Reads the footprint positions of a board placed in pcbnew back into the
+ * circuit, as `PcbOptions.placements`. Footprints are matched to components
+ * through their symbol UUIDs, or by reference. Positions of components inside
+ * a composable are stored relative to it, so moving the composable in code
+ * moves them along. Components with a `pcbPosition` in code are left out:
+ * the code decides where they go.
+ */
+export class PlacementImporter {
+  private readonly hierarchy: SheetHierarchy;
+
+  constructor(
+    private readonly snapshot: CircuitSnapshot,
+    private readonly board: string,
+    private readonly uuids: UuidManager,
+    private readonly boardName: string,
+    hierarchy?: SheetHierarchy,
+  ) {
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
+  }
+
+  generate(): PlacementImportResult {
+    const warnings: string[] = [];
+    const footprints = readBoardFootprints(this.board).filter(footprint => !footprint.boardOnly);
+    const byPath = new Map(footprints.filter(footprint => footprint.path).map(footprint => [footprint.path!, footprint]));
+
+    const placements: PcbPlacements = {};
+    for (const comp of this.components) {
+      if (comp.pcbPosition) continue;
+      const footprint = byPath.get(this.hierarchy.footprintPath(comp, this.uuids)) ?? footprints.find(candidate => candidate.ref === comp.ref);
+      if (!footprint) {
+        warnings.push(`${comp.ref} is not on the board yet; update the PCB from the schematic first.`);
+        continue;
+      }
+      placements[comp.ref] = this.relativeTo(comp, footprint.position);
+    }
+
+    return { source: this.source(placements), placements, warnings };
+  }
+
+  private get components(): Component<any>[] {
+    return this.snapshot.components.filter(comp =>
+      comp.symbol !== "Device:DNC" && !comp.ref.startsWith("#") && comp.footprint && comp.footprint !== "DNC");
+  }
+
+  /** A board position relative to the component's parent composable, undoing `absolutePcbPosition`. */
+  private relativeTo(comp: Component<any>, position: Required<PcbPosition>): PcbPosition {
+    const parent = comp.parent?.absolutePcbPosition ?? { x: 0, y: 0, rotation: 0 };
+    return {
+      x: round(position.x - parent.x),
+      y: round(position.y - parent.y),
+      rotation: round(normalizeAngle(position.rotation - (parent.rotation ?? 0))),
+      side: position.side,
+    };
+  }
+
+  private source(placements: PcbPlacements): string {
+    const refs = Object.keys(placements).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const entries = refs.map(ref => {
+      const { x, y, rotation, side } = placements[ref];
+      const key = /^[A-Za-z_$][\w$]*$/.test(ref) ? ref : JSON.stringify(ref);
+      return `  ${key}: { x: ${x}, y: ${y}, rotation: ${rotation}, side: "${side}" },`;
+    });
+    return [
+      `// Generated by \`pcbs pull-placement\` from ${this.boardName}. Move the footprints in pcbnew`,
+      `// and pull again rather than editing this file.`,
+      `import type { PcbPlacements } from "@tobisk/pcbs";`,
+      ``,
+      `const placements: PcbPlacements = {`,
+      ...entries,
+      `};`,
+      ``,
+      `export default placements;`,
+      ``,
+    ].join("\n");
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
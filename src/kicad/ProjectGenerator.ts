@@ -0,0 +1,143 @@
+import { CircuitSnapshot } from "../synth/types";
+import { NetClass } from "../synth/NetClass";
+import { UuidManager } from "./UuidManager";
+
+/** Rules of KiCad's built-in `Default` net class, used for everything a NetClass leaves out. */
+const DEFAULT_NET_CLASS = {
+  bus_width: 12,
+  clearance: 0.2,
+  diff_pair_gap: 0.25,
+  diff_pair_via_gap: 0.25,
+  diff_pair_width: 0.2,
+  line_style: 0,
+  microvia_diameter: 0.3,
+  microvia_drill: 0.1,
+  name: "Default",
+  pcb_color: "rgba(0, 0, 0, 0.000)",
+  schematic_color: "rgba(0, 0, 0, 0.000)",
+  track_width: 0.25,
+  via_diameter: 0.8,
+  via_drill: 0.4,
+  wire_width: 6,
+};
+
+/** A net class in `net_settings.classes`. Fields this generator does not know are kept. */
+interface ProjectNetClass {
+  name: string;
+  [field: string]: unknown;
+}
+
+/** An entry of `net_settings.netclass_patterns`, assigning the nets matching `pattern` to a class. */
+interface NetClassPattern {
+  netclass: string;
+  pattern: string;
+}
+
+/** The parts of a `.kicad_pro` file written here; everything else is passed through. */
+interface KicadProject {
+  net_settings?: {
+    meta?: { version: number };
+    classes?: ProjectNetClass[];
+    netclass_patterns?: NetClassPattern[];
+    [field: string]: unknown;
+  };
+  [field: string]: unknown;
+}
+
+/** Keys in `uuids.json` recording the classes and patterns written to the project. */
+const CLASS_KEY = "project_netclass:";
+const PATTERN_KEY = "project_netclass_pattern:";
+
+/**
+ * Generates the KiCad project file (`.kicad_pro`). A new project gets minimal
+ * board settings; an existing one is kept as is apart from the net classes
+ * defined in code and the assignment of their nets, so settings made in
+ * KiCad survive regeneration. The classes and patterns written are recorded
+ * in `uuids.json`, so they are removed again once the code no longer
+ * declares them.
+ */
+export class ProjectGenerator {
+  constructor(private readonly snapshot: CircuitSnapshot, private readonly fileName: string, private readonly uuids: UuidManager) {}
+
+  /** Generate the project file content, updating `existing` when given. */
+  generate(existing?: string): string {
+    const project: KicadProject = existing ? JSON.parse(existing) : this.createProject();
+    const netClasses = this.snapshot.netClasses ?? [];
+    const written = this.recorded(CLASS_KEY);
+    const writtenPatterns = this.recorded(PATTERN_KEY);
+    if (existing && netClasses.length === 0 && written.size === 0 && writtenPatterns.size === 0) return existing;
+
+    const settings = project.net_settings ?? (project.net_settings = {});
+    settings.meta ??= { version: 3 };
+
+    const classNames = new Set(netClasses.map(c => c.name));
+    const classes: ProjectNetClass[] = (Array.isArray(settings.classes) ? settings.classes : [])
+      .filter(c => classNames.has(c.name) || !written.has(c.name));
+    if (!classes.some(c => c.name === "Default")) classes.unshift({ ...DEFAULT_NET_CLASS });
+    for (const netClass of netClasses) {
+      const index = classes.findIndex(c => c.name === netClass.name);
+      const entry = this.classEntry(netClass, index >= 0 ? classes[index] : undefined);
+      if (index >= 0) classes[index] = entry;
+      else classes.push(entry);
+    }
+    settings.classes = classes;
+
+    // Assign every net of a code-defined class by its exact name
+    const assigned = this.snapshot.nets
+      .filter(net => classNames.has(net.class))
+      .map(net => ({ netclass: net.class, pattern: net.name }));
+    const assignedNames = new Set(assigned.map(a => a.pattern));
+    const patterns: NetClassPattern[] = Array.isArray(settings.netclass_patterns) ? settings.netclass_patterns : [];
+    settings.netclass_patterns = [
+      ...patterns.filter(p => !assignedNames.has(p.pattern) && writtenPatterns.get(p.pattern) !== p.netclass),
+      ...assigned,
+    ];
+
+    this.record(CLASS_KEY, netClasses.map(c => [c.name, c.name]));
+    this.record(PATTERN_KEY, assigned.map(a => [a.pattern, a.netclass]));
+    return JSON.stringify(project, null, 2);
+  }
+
+  /** The entries recorded under a key prefix, e.g. pattern to class name. */
+  private recorded(prefix: string): Map<string, string> {
+    const keys = this.uuids.keys().filter(key => key.startsWith(prefix));
+    return new Map(keys.map(key => [key.slice(prefix.length), this.uuids.get(key)!]));
+  }
+
+  private record(prefix: string, entries: [string, string][]): void {
+    for (const key of this.uuids.keys()) if (key.startsWith(prefix)) this.uuids.delete(key);
+    for (const [name, value] of entries) this.uuids.set(`${prefix}${name}`, value);
+  }
+
+  private createProject(): KicadProject {
+    return {
+      meta: { filename: this.fileName, version: 1 },
+      board: {
+        design_settings: {
+          rules: {
+            solder_mask_clearance: 0.0,
+            solder_mask_min_width: 0.0,
+            solder_paste_clearance: 0.0,
+            solder_paste_margin: 0.0
+          }
+        }
+      },
+    };
+  }
+
+  private classEntry(netClass: NetClass, previous?: ProjectNetClass): ProjectNetClass {
+    const entry: ProjectNetClass = { ...DEFAULT_NET_CLASS, ...previous, name: netClass.name };
+    const rules: [keyof NetClass, string][] = [
+      ["trackWidth", "track_width"],
+      ["clearance", "clearance"],
+      ["viaDiameter", "via_diameter"],
+      ["viaDrill", "via_drill"],
+      ["diffPairWidth", "diff_pair_width"],
+      ["diffPairGap", "diff_pair_gap"],
+    ];
+    for (const [key, field] of rules) {
+      if (netClass[key] !== undefined) entry[field] = netClass[key];
+    }
+    return entry;
+  }
+}
@@ -1,15 +1,31 @@
 import { CircuitSnapshot, Pin } from "../synth/types";
-import { Component } from "../synth/Component";
+import { Component, resolveVariant } from "../synth/Component";
 import { Net } from "../synth/Net";
+import { createdAt, formatSourceLocation } from "../synth/SourceLocation";
+import { DiffPair } from "../synth/Bus";
 import { SymbolLibrary, SymbolDefinition } from "./SymbolLibrary";
 import { UuidManager } from "./UuidManager";
 import { SExpr, SExpressionParser } from "./SExpressionParser";
 import { Router, Point, Box } from "./Router";
 import { HierarchicalPlacer } from "./HierarchicalPlacer";
 import { KicadGeneratorOptions } from "./KicadGenerator";
+import { SheetHierarchy, SheetNode } from "./SheetHierarchy";
+import { SchematicPositions } from "./SchematicPositionImporter";
 
 interface PinInfo { x: number; y: number; rotation: number; number?: string; }
 interface PinPos { x: number; y: number; rotation: number; }
+/** A unit of a component drawn on the sheet, `dx` to the right of the component position (before rotation). */
+interface PlacedUnit { unit: number; dx: number; }
+
+/** Horizontal space between the units of a multi-unit symbol. */
+const UNIT_GAP = 7.62;
+
+/** A generated `.kicad_sch` file of the sheet hierarchy. */
+export interface GeneratedSheet {
+  sheet: SheetNode;
+  fileName: string;
+  content: string;
+}
 
 export class SchematicGenerator {
   private snapshot: CircuitSnapshot;
@@ -24,37 +40,95 @@ export class SchematicGenerator {
   private wireCounter = 0;
   private powerSymbolCounter = 0;
   private options: KicadGeneratorOptions;
-
-  constructor(snapshot: CircuitSnapshot, library: SymbolLibrary, uuids: UuidManager, options: KicadGeneratorOptions = {}) {
+  private hierarchy: SheetHierarchy;
+  /** The sheet currently being emitted. */
+  private currentSheet: SheetNode;
+  /** Components drawn on the current sheet. */
+  private scope: Component<any>[];
+  /** Per-component translation moving child sheet content onto its own page. */
+  private sheetOffsets = new Map<Component<any>, { x: number; y: number }>();
+  /** Units drawn per component. */
+  private unitPlacements = new Map<Component<any>, PlacedUnit[]>();
+
+  constructor(snapshot: CircuitSnapshot, library: SymbolLibrary, uuids: UuidManager, options: KicadGeneratorOptions = {}, hierarchy?: SheetHierarchy) {
     this.snapshot = snapshot;
     this.library = library;
     this.uuids = uuids;
     this.options = options;
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
+    this.currentSheet = this.hierarchy.root;
+    this.scope = this.currentSheet.components;
   }
 
+  /** Generate the root schematic sheet. */
   generate(): string {
+    return this.generateSheets()[0].content;
+  }
+
+  /**
+   * Generate the root sheet followed by one file per subschematic sheet.
+   * Shared instances of repeated composables do not get a file of their own.
+   */
+  generateSheets(): GeneratedSheet[] {
     // Auto-layout components if needed
     HierarchicalPlacer.place(this.snapshot, (comp) => this.getComponentDimensions(comp), { experimental: this.options.experimentalLayout });
 
     // Auto-rotate 2-pin passives connected to power/GND
     this.autoRotateComponents();
 
-    if (this.snapshot.autoPack) {
-      this.packComponentsOnSheet();
+    const sheets = this.hierarchy.sheets.filter(sheet => !sheet.shared);
+    for (const sheet of sheets) {
+      if (this.snapshot.autoPack) {
+        this.packComponentsOnSheet(sheet.components);
+      }
+      if (sheet.parent) {
+        this.alignSheet(sheet);
+      }
+    }
+
+    // Symbols pulled from the previous schematic stay where they were
+    if (this.options.positions) {
+      this.pinPositions(sheets, this.options.positions);
     }
 
     // Validate Placement
-    this.checkOverlaps();
-    this.checkUnconnectedPins();
+    for (const sheet of sheets) {
+      this.enterSheet(sheet);
+      this.checkOverlaps();
+    }
 
-    const rootUuid = this.uuids.getOrGenerate("ROOT");
+    const generated = sheets.map(sheet => ({
+      sheet,
+      fileName: sheet.fileName,
+      content: this.generateSheet(sheet),
+    }));
+
+    if (this.errors.length > 0) {
+      throw new Error("Schematic Generator Errors:\n" + this.errors.join("\n"));
+    }
+
+    return generated;
+  }
+
+  private enterSheet(sheet: SheetNode) {
+    this.currentSheet = sheet;
+    this.scope = sheet.components;
+    this._cachedBoxes = undefined;
+    this._generatedWires = [];
+  }
+
+  private generateSheet(sheet: SheetNode): string {
+    this.enterSheet(sheet);
+    const uuid = sheet.parent
+      ? this.uuids.getOrGenerate(`sheet_file:${sheet.fileName}`)
+      : this.uuids.getOrGenerate("ROOT");
 
     const schematic: SExpr[] = [
       "kicad_sch",
       ["version", "20250610"],
       ["generator", this.quote("@tobisk/pcbs")],
       ["generator_version", this.quote("10.0")],
-      ["uuid", this.quote(rootUuid)],
+      ["uuid", this.quote(uuid)],
       ["paper", this.quote(this.snapshot.size ?? "A4")],
       ["title_block",
         ["title", this.quote(this.snapshot.name)],
@@ -80,16 +154,73 @@ export class SchematicGenerator {
       if (!directLabels) this.verifyRouting();
     }
 
-    if (this.errors.length > 0) {
-      throw new Error("Schematic Generator Errors:\n" + this.errors.join("\n"));
+    schematic.push(...this.generateSheetSymbols(sheet));
+
+    if (!sheet.parent && this.hierarchy.isHierarchical) {
+      schematic.push(["sheet_instances", ["path", '"/"', ["page", '"1"']]]);
     }
 
     return SExpressionParser.serialize(schematic);
   }
 
+  /** Absolute position of a component on the page it is drawn on. */
+  private positionOf(comp: Component<any>): { x: number; y: number; rotation?: number } | null {
+    const pos = comp.absoluteSchematicPosition;
+    if (!pos) return null;
+    const offset = this.sheetOffsets.get(comp);
+    if (!offset) return pos;
+    return { x: pos.x + offset.x, y: pos.y + offset.y, rotation: pos.rotation };
+  }
+
+  /**
+   * Components of a subschematic are placed by the global layout; translate
+   * them so the sheet's content starts at the top-left corner of its page.
+   */
+  private alignSheet(sheet: SheetNode) {
+    const boxes = sheet.components
+      .map(c => this.getComponentBox(c, 0))
+      .filter((b): b is Box => b !== null);
+    if (boxes.length === 0) return;
+
+    const grid = 1.27;
+    const margin = 20 * grid;
+    const minX = Math.min(...boxes.map(b => b.x));
+    const minY = Math.min(...boxes.map(b => b.y));
+    const offset = {
+      x: Math.round((margin - minX) / grid) * grid,
+      y: Math.round((margin - minY) / grid) * grid,
+    };
+    for (const comp of sheet.components) this.sheetOffsets.set(comp, offset);
+  }
+
+  /**
+   * Pin symbols to the page positions stored by `pcbs pull-positions`. The
+   * layout has already run, so the rest of the sheet is placed as before; the
+   * stored position is converted back into one relative to the parent.
+   */
+  private pinPositions(sheets: SheetNode[], positions: SchematicPositions) {
+    for (const comp of sheets.flatMap(sheet => sheet.components)) {
+      const pinned = positions[comp.ref];
+      if (!pinned || comp.symbol === "Device:DNC") continue;
+
+      const parent = comp.parent ? comp.parent.absoluteSchematicPosition : { x: 0, y: 0, rotation: 0 };
+      if (!parent) continue;
+      const rad = ((parent.rotation || 0) * Math.PI) / 180;
+      const dx = pinned.x - parent.x;
+      const dy = pinned.y - parent.y;
+      (comp as any).schematicPosition = {
+        x: dx * Math.cos(rad) + dy * Math.sin(rad),
+        y: dy * Math.cos(rad) - dx * Math.sin(rad),
+        rotation: (pinned.rotation ?? 0) - (parent.rotation || 0),
+      };
+      this.sheetOffsets.delete(comp);
+    }
+    this._cachedBoxes = undefined;
+  }
+
   private checkOverlaps() {
     // Use smaller padding (2) for overlap check since we reduced HierarchicalPlacer padding
-    const boxes = this.snapshot.components
+    const boxes = this.scope
       .filter(c => c.symbol !== "Device:DNC")
       .map(c => ({
         comp: c,
@@ -113,11 +244,11 @@ export class SchematicGenerator {
   }
 
   /**
-   * Deterministic shelf packing for large, flat generated schematics. Components
-   * are detached from layout-only parent offsets because KiCad receives them as
-   * root-sheet symbols in the current generator.
+   * Deterministic shelf packing for large generated schematics. Components are
+   * detached from layout-only parent offsets and packed in root coordinates of
+   * the sheet they are drawn on.
    */
-  private packComponentsOnSheet(): void {
+  private packComponentsOnSheet(components: Component<any>[]): void {
     const sheetDimensions: Record<string, { width: number; height: number }> = {
       A0: { width: 1189, height: 841 },
       A1: { width: 841, height: 594 },
@@ -142,12 +273,12 @@ export class SchematicGenerator {
     let cursorY = margin;
     let rowHeight = 0;
 
-    for (const comp of this.snapshot.components) {
+    for (const comp of components) {
       if (comp.symbol === "Device:DNC") continue;
 
       const rotation = comp.absoluteSchematicPosition?.rotation ?? 0;
-      // Parent/subschematic objects currently influence placement only; emitted
-      // symbols all live on this root sheet and therefore need root coordinates.
+      // Parent objects influence placement only; emitted symbols need
+      // coordinates relative to the page they are drawn on.
       (comp as any).parent = undefined;
       (comp as any).schematicPosition = { x: 0, y: 0, rotation };
 
@@ -175,38 +306,10 @@ export class SchematicGenerator {
     this._cachedBoxes = undefined;
   }
 
-  private checkUnconnectedPins() {
-    for (const comp of this.snapshot.components) {
-      if (comp.symbol === "Device:DNC") continue;
-
-      const symDef = this.library.getSymbol(comp.symbol);
-      if (!symDef) continue; // Missing symbol is handled elsewhere
-
-      const pins = this.findAllPinsInSymbol(symDef);
-
-      for (const pinInfo of pins) {
-        if (!pinInfo.number) continue;
-
-        let pinName = pinInfo.number;
-        // The parser keeps quotes around names e.g. '"1"'
-        if (pinName.startsWith('"') && pinName.endsWith('"')) {
-          pinName = pinName.substring(1, pinName.length - 1);
-        }
-
-        const pin = comp.allPins.get(pinName);
-
-        // If the pin wasn't accessed at all, or if it has no net and isn't marked DNC
-        if (!pin || (!pin.net && !pin.isDNC)) {
-          this.warnings.push(`Unconnected Pin: ${comp.ref} (${comp.symbol}) pin ${pinName} is not connected to any net and not marked as Do Not Connect (DNC).`);
-        }
-      }
-    }
-  }
-
   private getCachedComponentBoxes(): Box[] {
     if (!this._cachedBoxes) {
       // Use smaller padding (0.5) for routing obstacles to match dense physics layout
-      this._cachedBoxes = this.snapshot.components
+      this._cachedBoxes = this.scope
         .filter(c => c.symbol !== "Device:DNC")
         .map(c => this.getComponentBox(c, 0.5))
         .filter(b => b !== null) as Box[];
@@ -219,7 +322,7 @@ export class SchematicGenerator {
     const symDef = this.library.getSymbol(comp.symbol);
     if (!symDef) return { width: 25, height: 25 };
 
-    const pins = this.findAllPinsInSymbol(symDef);
+    const pins = this.placedPins(comp, symDef);
     if (pins.length === 0) return { width: 25, height: 25 };
 
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
@@ -234,24 +337,26 @@ export class SchematicGenerator {
     return { width: Math.max(15, maxX - minX), height: Math.max(15, maxY - minY) };
   }
 
-  private getComponentBox(comp: Component, padding: number): Box | null {
+  /** Bounding box of a component's pins on the sheet, or of one of its units. */
+  private getComponentBox(comp: Component, padding: number, unit?: number): Box | null {
     if (comp.symbol === "Device:DNC") return null;
 
+    const position = this.positionOf(comp);
     const symDef = this.library.getSymbol(comp.symbol);
     if (!symDef) {
-      if (comp.absoluteSchematicPosition) {
-        const x = comp.absoluteSchematicPosition.x;
-        const y = comp.absoluteSchematicPosition.y;
+      if (position) {
+        const x = position.x;
+        const y = position.y;
         return { x: x - 12.5 - padding, y: y - 12.5 - padding, width: 25 + 2 * padding, height: 25 + 2 * padding };
       }
       return null;
     }
 
-    const pins = this.findAllPinsInSymbol(symDef);
+    const pins = this.placedPins(comp, symDef, unit);
 
-    const cx = comp.absoluteSchematicPosition?.x || 0;
-    const cy = comp.absoluteSchematicPosition?.y || 0;
-    const crot = comp.absoluteSchematicPosition?.rotation || 0;
+    const cx = position?.x || 0;
+    const cy = position?.y || 0;
+    const crot = position?.rotation || 0;
     const rad = (crot * Math.PI) / 180;
     const cos = Math.cos(rad);
     const sin = Math.sin(rad);
@@ -283,6 +388,83 @@ export class SchematicGenerator {
     };
   }
 
+  /**
+   * The units of a component to draw: those with pins in use or addressed via
+   * `Component.unit()`, and power units, whose pins must be connected even if
+   * the design never names them. Units are laid out left to right.
+   */
+  private placedUnits(comp: Component<any>): PlacedUnit[] {
+    const cached = this.unitPlacements.get(comp);
+    if (cached) return cached;
+
+    const count = this.library.getUnitCount(comp.symbol);
+    if (this.library.getSymbol(comp.symbol)) {
+      for (const unit of (comp.units ?? []).filter(u => u.number > count)) {
+        const available = count === 1 ? "a single unit" : `units A–${String.fromCharCode(64 + count)}`;
+        this.errors.push(`Unit '${unit.name}' of ${comp.ref}${createdAt(comp)} does not exist: ${comp.symbol} has ${available}.`);
+      }
+    }
+    const symDef = count > 1 ? this.library.getSymbol(comp.symbol) : null;
+    if (!symDef) {
+      const single = [{ unit: 1, dx: 0 }];
+      this.unitPlacements.set(comp, single);
+      return single;
+    }
+
+    const pinUnits = this.library.getPinUnits(comp.symbol);
+    const pinTypes = this.library.getPinTypes(comp.symbol);
+    const wanted = new Set<number>((comp.units ?? []).map(u => u.number).filter(u => u <= count));
+    for (const pin of comp.allPins.values()) {
+      const unit = pinUnits.get(pin.name);
+      if (unit) wanted.add(unit);
+    }
+    for (const [number, unit] of pinUnits) {
+      if (unit && pinTypes.get(number) === "power_in") wanted.add(unit);
+    }
+    if (wanted.size === 0) wanted.add(1);
+
+    const pins = this.findAllPinsInSymbol(symDef);
+    const placed: PlacedUnit[] = [];
+    let right = 0;
+    for (const unit of Array.from(wanted).sort((a, b) => a - b)) {
+      const xs = pins
+        .filter(pin => [0, unit].includes(pinUnits.get(SExpressionParser.unquote(pin.number ?? "")) ?? 0))
+        .map(pin => pin.x);
+      const minX = xs.length > 0 ? Math.min(...xs) : 0;
+      const maxX = xs.length > 0 ? Math.max(...xs) : 0;
+      // Keep pins on the 2.54 grid
+      const dx = placed.length === 0 ? 0 : Math.ceil((right + UNIT_GAP - minX) / 2.54) * 2.54;
+      placed.push({ unit, dx });
+      right = dx + maxX;
+    }
+    this.unitPlacements.set(comp, placed);
+    return placed;
+  }
+
+  /** The unit a pin is drawn in. Pins shared by all units or unknown to the symbol go with the first placed unit. */
+  private unitOfPin(comp: Component<any>, pinNumber: string): PlacedUnit {
+    const placed = this.placedUnits(comp);
+    const unit = this.library.getPinUnits(comp.symbol).get(pinNumber);
+    return placed.find(p => p.unit === unit) ?? placed[0];
+  }
+
+  /** Whether a pin belongs to the instance of `unit`. Pins shared by all units belong to every one. */
+  private isPinOfUnit(comp: Component<any>, pinNumber: string, unit: number): boolean {
+    return this.library.getPinUnits(comp.symbol).get(pinNumber) === 0 || this.unitOfPin(comp, pinNumber).unit === unit;
+  }
+
+  /** Symbol pins of the placed units (or of one unit), shifted by the unit's offset. */
+  private placedPins(comp: Component<any>, symDef: SymbolDefinition, unit?: number): PinInfo[] {
+    const placed = this.placedUnits(comp);
+    const pinUnits = this.library.getPinUnits(comp.symbol);
+    return this.findAllPinsInSymbol(symDef).flatMap(pin => {
+      const pinUnit = pinUnits.get(SExpressionParser.unquote(pin.number ?? "")) ?? 0;
+      const target = placed.find(p => p.unit === (pinUnit === 0 ? unit ?? placed[0].unit : pinUnit));
+      if (!target || (unit !== undefined && target.unit !== unit)) return [];
+      return [{ ...pin, x: pin.x + target.dx }];
+    });
+  }
+
   private findAllPinsInSymbol(symDef: SymbolDefinition): PinInfo[] {
     const pins: PinInfo[] = [];
     this.collectPins(symDef.definition, pins);
@@ -318,7 +500,7 @@ export class SchematicGenerator {
     const libSymbols: SExpr[] = ["lib_symbols"];
     const processedSymbols = new Set<string>();
 
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
 
       const symDef = this.library.getSymbol(comp.symbol);
@@ -367,85 +549,103 @@ export class SchematicGenerator {
 
   private generateComponents(): SExpr[] {
     const rootUuid = this.uuids.getOrGenerate("ROOT");
+    const instancePath = this.hierarchy.instancePath(this.currentSheet, this.uuids);
+    const sheetInstances = this.hierarchy.instancesOf(this.currentSheet);
     const instances: SExpr[] = [];
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
 
-      const uuid = this.uuids.getOrGenerate(comp.ref);
-      const x = comp.absoluteSchematicPosition?.x || 0;
-      const y = comp.absoluteSchematicPosition?.y || 0;
-      const rot = comp.absoluteSchematicPosition?.rotation || 0;
-
-      const symName = comp.symbol;
-      const box = this.getComponentBox(comp, 0);
-      let textRot = 0;
-      let valY = y + 2.54;
-      let refY = y - 2.54;
-      let valX = x;
-      let refX = x;
-
-      if (box) {
-        if (box.height > box.width) {
-          textRot = 90;
-          refX = box.x + box.width + 1.27;
-          refY = y - 1.27;
-          valX = box.x + box.width + 1.27;
-          valY = y + 1.27;
-        } else {
-          refY = box.y - 1.27;
-          valY = box.y + box.height + 1.27;
-        }
+      const populated = resolveVariant(comp, this.snapshot.variant);
+      const fields = comp.fields ?? {};
+      const customFields = Object.entries(fields).filter(([name]) => name !== "Datasheet" && name !== "Description");
+      if (this.snapshot.sourceLocations && comp.source && !("Source" in fields)) {
+        customFields.push(["Source", formatSourceLocation(comp.source)]);
       }
 
-      const instance: SExpr[] = [
-        "symbol",
-        ["lib_id", this.quote(symName)],
-        ["at", x.toFixed(2), y.toFixed(2), rot.toFixed(2)],
-        ["unit", "1"],
-        ["in_bom", "yes"],
-        ["on_board", "yes"],
-        ["dnp", "no"],
-        ["uuid", this.quote(uuid)],
-        ["property", '"Reference"', this.quote(comp.ref), ["at", `${refX.toFixed(2)}`, `${refY.toFixed(2)}`, `${textRot}`], ["effects", ["font", ["size", "1.27", "1.27"]]]],
-        ["property", '"Value"', this.quote(comp.value || symName), ["at", `${valX.toFixed(2)}`, `${valY.toFixed(2)}`, `${textRot}`], ["effects", ["font", ["size", "1.27", "1.27"]]]],
-        ["property", '"Footprint"', this.quote(comp.footprint || ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
-        ["property", '"Datasheet"', '""', ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]]]],
-        ["property", '"Description"', '""', ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]]]],
-        ["property", '"LCSC_Part"', this.quote(comp.partNo || ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
-        ["property", '"ki_keywords"', '""', ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
-        ["property", '"hierarchy_path"', this.quote(`/${rootUuid}`), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
-        ["property", '"root_uuid"', this.quote(rootUuid), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
-        ...Array.from(new Set(comp.allPins.values())).map(pin => [
-          "pin",
-          this.quote(pin.name),
-          ["uuid", this.quote(this.uuids.getOrGenerate(`${comp.ref}_pin_${pin.name}`))]
-        ]),
-        [
-          "instances",
+      const position = this.positionOf(comp);
+      const rot = position?.rotation || 0;
+      const rad = (rot * Math.PI) / 180;
+
+      // Units of a multi-unit symbol are separate instances sharing the reference
+      for (const { unit, dx } of this.placedUnits(comp)) {
+        const uuid = this.uuids.getOrGenerate(unit === 1 ? comp.ref : `${comp.ref}_unit${unit}`);
+        const x = (position?.x || 0) + dx * Math.cos(rad);
+        const y = (position?.y || 0) - dx * Math.sin(rad);
+
+        const symName = comp.symbol;
+        const box = this.getComponentBox(comp, 0, unit);
+        let textRot = 0;
+        let valY = y + 2.54;
+        let refY = y - 2.54;
+        let valX = x;
+        let refX = x;
+
+        if (box) {
+          if (box.height > box.width) {
+            textRot = 90;
+            refX = box.x + box.width + 1.27;
+            refY = y - 1.27;
+            valX = box.x + box.width + 1.27;
+            valY = y + 1.27;
+          } else {
+            refY = box.y - 1.27;
+            valY = box.y + box.height + 1.27;
+          }
+        }
+
+        const instance: SExpr[] = [
+          "symbol",
+          ["lib_id", this.quote(symName)],
+          ["at", x.toFixed(2), y.toFixed(2), rot.toFixed(2)],
+          ["unit", `${unit}`],
+          ["in_bom", "yes"],
+          ["on_board", "yes"],
+          ["dnp", populated.dnp ? "yes" : "no"],
+          ["uuid", this.quote(uuid)],
+          ["property", '"Reference"', this.quote(comp.ref), ["at", `${refX.toFixed(2)}`, `${refY.toFixed(2)}`, `${textRot}`], ["effects", ["font", ["size", "1.27", "1.27"]]]],
+          ["property", '"Value"', this.quote(populated.value || symName), ["at", `${valX.toFixed(2)}`, `${valY.toFixed(2)}`, `${textRot}`], ["effects", ["font", ["size", "1.27", "1.27"]]]],
+          ["property", '"Footprint"', this.quote(comp.footprint || ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"Datasheet"', this.quote(fields.Datasheet ?? ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"Description"', this.quote(fields.Description ?? comp.description ?? ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"LCSC_Part"', this.quote(populated.partNo || ""), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"ki_keywords"', '""', ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"hierarchy_path"', this.quote(instancePath), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ["property", '"root_uuid"', this.quote(rootUuid), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]],
+          ...[...(populated.properties?.fields() ?? []).filter(([name]) => !(name in fields)), ...customFields].map(([name, value]) =>
+            ["property", this.quote(name), this.quote(value), ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["hide", "yes"]]]
+          ),
+          ...Array.from(new Set(comp.allPins.values())).filter(pin => this.isPinOfUnit(comp, pin.name, unit)).map(pin => [
+            "pin",
+            this.quote(pin.name),
+            ["uuid", this.quote(this.uuids.getOrGenerate(unit === 1 ? `${comp.ref}_pin_${pin.name}` : `${comp.ref}_unit${unit}_pin_${pin.name}`))]
+          ]),
           [
-            "project",
-            '""',
+            "instances",
             [
-              "path",
-              this.quote(`/${rootUuid}`),
-              ["reference", this.quote(comp.ref)],
-              ["unit", "1"]
-            ]
-          ],
-          [
-            "project",
-            this.quote(this.snapshot.name),
+              "project",
+              '""',
+              ...sheetInstances.map(sheet => [
+                "path",
+                this.quote(this.hierarchy.instancePath(sheet, this.uuids)),
+                ["reference", this.quote(this.hierarchy.counterpartOf(comp, sheet).ref)],
+                ["unit", `${unit}`]
+              ])
+            ],
             [
-              "path",
-              this.quote(`/${rootUuid}`),
-              ["reference", this.quote(comp.ref)],
-              ["unit", "1"]
+              "project",
+              this.quote(this.snapshot.name),
+              ...sheetInstances.map(sheet => [
+                "path",
+                this.quote(this.hierarchy.instancePath(sheet, this.uuids)),
+                ["reference", this.quote(this.hierarchy.counterpartOf(comp, sheet).ref)],
+                ["unit", `${unit}`]
+              ])
             ]
           ]
-        ]
-      ];
+        ];
 
-      instances.push(instance);
+        instances.push(instance);
+      }
     }
     return instances;
   }
@@ -478,8 +678,9 @@ export class SchematicGenerator {
 
     const netPins = new Map<Net, Pin[]>();
     const obstacles = this.getCachedComponentBoxes();
+    const buses = this.options.experimentalRouting ? { stubEnds: new Map<Pin, Point>(), items: [] } : this.generateBuses();
 
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
 
       // Deduplicate pins since allPins yields both name aliases and numbered aliases
@@ -570,13 +771,14 @@ export class SchematicGenerator {
             const outDir = { dx: -dir.dx, dy: -dir.dy };
             const s = { x: p.x + outDir.dx * 1.27, y: p.y + outDir.dy * 1.27 };
 
-            // Connect the pin precisely to the start of the label graphics
-            addWire(p, s, net.name);
+            // Connect the pin precisely to the start of the label graphics,
+            // or on to its bus entry
+            addWire(p, buses.stubEnds.get(pt.pin) ?? s, net.name);
 
             const uuid = this.uuids.getOrGenerate(`label_${pt.pin.component.ref}_${pt.pin.name}_${net.name}`);
             if (!emittedLabels.has(uuid)) {
               emittedLabels.add(uuid);
-              nets.push(this.createGlobalLabel(net.name, s.x, s.y, outDir, uuid));
+              nets.push(this.createNetLabel(net.name, s.x, s.y, outDir, uuid));
             }
           }
         } else {
@@ -613,13 +815,13 @@ export class SchematicGenerator {
               const uuid1 = this.uuids.getOrGenerate(`label_${pt1.pin.component.ref}_${pt1.pin.name}_${net.name}`);
               if (!emittedLabels.has(uuid1)) {
                 emittedLabels.add(uuid1);
-                nets.push(this.createGlobalLabel(net.name, s1.x, s1.y, dir1, uuid1));
+                nets.push(this.createNetLabel(net.name, s1.x, s1.y, dir1, uuid1));
               }
 
               const uuid2 = this.uuids.getOrGenerate(`label_${pt2.pin.component.ref}_${pt2.pin.name}_${net.name}`);
               if (!emittedLabels.has(uuid2)) {
                 emittedLabels.add(uuid2);
-                nets.push(this.createGlobalLabel(net.name, s2.x, s2.y, dir2, uuid2));
+                nets.push(this.createNetLabel(net.name, s2.x, s2.y, dir2, uuid2));
               }
             }
           }
@@ -627,7 +829,81 @@ export class SchematicGenerator {
       }
     }
 
-    return [...powerSymbols, ...nets, ...Array.from(uniqueWires.values())];
+    return [...powerSymbols, ...nets, ...buses.items, ...Array.from(uniqueWires.values())];
+  }
+
+  /**
+   * Draw vector buses. Where a symbol has two or more pins of the same bus on
+   * one side, their stubs are extended to bus entries joining a bus line that
+   * carries the bus label (e.g. `DATA[0..7]`). The member net labels are kept,
+   * so connectivity does not depend on the bus graphics.
+   */
+  private generateBuses(): { stubEnds: Map<Pin, Point>; items: SExpr[] } {
+    const stubEnds = new Map<Pin, Point>();
+    const items: SExpr[] = [];
+    const buses = (this.snapshot.buses ?? []).filter(bus => !(bus instanceof DiffPair) && bus.width > 1);
+
+    for (const comp of this.scope) {
+      for (const bus of buses) {
+        const members = bus.nets;
+        const sides = new Map<string, { pin: Pin; pos: PinPos; net: Net }[]>();
+        for (const pin of new Set<Pin>(comp.allPins.values())) {
+          if (!pin.net || pin.isDNC || !members.includes(pin.net)) continue;
+          const pos = this.getPinAbsolutePosition(pin);
+          if (!pos) continue;
+          const dir = this.getDirectionVector(pos.rotation);
+          const side = `${dir.dx},${dir.dy}`;
+          if (!sides.has(side)) sides.set(side, []);
+          sides.get(side)!.push({ pin, pos, net: pin.net });
+        }
+
+        for (const [side, pins] of sides) {
+          if (pins.length < 2) continue;
+          const dir = this.getDirectionVector(pins[0].pos.rotation);
+          const out = { dx: -dir.dx, dy: -dir.dy };
+          const horizontal = out.dx !== 0;
+          const sign = horizontal ? out.dx : out.dy;
+          const across = horizontal ? { dx: 0, dy: 1 } : { dx: 1, dy: 0 };
+
+          // All stubs end on one line, past the longest member label
+          const labelLength = Math.ceil((Math.max(...pins.map(p => p.net.name.length)) * 1.27 + 2.54) / 2.54) * 2.54;
+          const outward = pins.map(p => horizontal ? p.pos.x : p.pos.y);
+          const line = (sign > 0 ? Math.max(...outward) : Math.min(...outward)) + sign * (1.27 + labelLength);
+          const busLine = line + sign * 2.54;
+
+          const offsets: number[] = [];
+          for (const { pin, pos } of pins) {
+            const end = horizontal ? { x: line, y: pos.y } : { x: pos.x, y: line };
+            stubEnds.set(pin, end);
+            offsets.push((horizontal ? end.y : end.x) + 2.54);
+            items.push([
+              "bus_entry",
+              ["at", `${end.x.toFixed(2)}`, `${end.y.toFixed(2)}`],
+              ["size", `${(out.dx * 2.54 + across.dx * 2.54).toFixed(2)}`, `${(out.dy * 2.54 + across.dy * 2.54).toFixed(2)}`],
+              ["stroke", ["width", "0"], ["type", "default"]],
+              ["uuid", this.quote(this.uuids.getOrGenerate(`bus_entry_${comp.ref}_${pin.name}`))]
+            ]);
+          }
+
+          // The bus starts one grid step before the first entry, where its label sits
+          const start = Math.min(...offsets) - 5.08;
+          const end = Math.max(...offsets);
+          const at = (offset: number): Point => horizontal ? { x: busLine, y: offset } : { x: offset, y: busLine };
+          const p1 = at(start);
+          const p2 = at(end);
+          items.push([
+            "bus",
+            ["pts", ["xy", `${p1.x.toFixed(2)}`, `${p1.y.toFixed(2)}`], ["xy", `${p2.x.toFixed(2)}`, `${p2.y.toFixed(2)}`]],
+            ["stroke", ["width", "0"], ["type", "default"]],
+            ["uuid", this.quote(this.uuids.getOrGenerate(`bus_${comp.ref}_${bus.name}_${side}`))]
+          ]);
+          items.push(this.createNetLabel(bus.label, p1.x, p1.y, { dx: -across.dx, dy: -across.dy },
+            this.uuids.getOrGenerate(`bus_label_${comp.ref}_${bus.name}_${side}`)));
+        }
+      }
+    }
+
+    return { stubEnds, items };
   }
 
   /**
@@ -638,7 +914,7 @@ export class SchematicGenerator {
   private generateDirectLabels(): SExpr[] {
     const labels: SExpr[] = [];
 
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
 
       // allPins can contain both a named and numbered alias for the same Pin.
@@ -648,14 +924,14 @@ export class SchematicGenerator {
 
         const pos = this.getPinAbsolutePosition(pin);
         if (!pos) {
-          this.errors.push(`Cannot place net label for '${comp.ref}.${pin.name}': pin position is unavailable.`);
+          this.errors.push(`Cannot place net label for '${comp.ref}.${pin.name}'${createdAt(comp)}: pin position is unavailable.`);
           continue;
         }
 
         const pinDirection = this.getDirectionVector(pos.rotation);
         const outDirection = { dx: -pinDirection.dx, dy: -pinDirection.dy };
         const uuid = this.uuids.getOrGenerate(`direct_label_${comp.ref}_${pin.name}_${pin.net.name}`);
-        labels.push(this.createGlobalLabel(pin.net.name, pos.x, pos.y, outDirection, uuid));
+        labels.push(this.createNetLabel(pin.net.name, pos.x, pos.y, outDirection, uuid));
       }
     }
 
@@ -664,7 +940,7 @@ export class SchematicGenerator {
 
   private generateNoConnects(): SExpr[] {
     const items: SExpr[] = [];
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
       for (const [name, pin] of comp.allPins) {
         if ((pin as Pin).isDNC) {
@@ -684,7 +960,7 @@ export class SchematicGenerator {
 
   private verifyRouting() {
     // 1. Line-Rectangle Intersection (Rule 1: Wires cannot overlap symbols)
-    const strictBoxes = this.snapshot.components
+    const strictBoxes = this.scope
       .filter(c => c.symbol !== "Device:DNC")
       .map(c => ({
         comp: c,
@@ -696,7 +972,7 @@ export class SchematicGenerator {
     // 3. Pin Termination (Rule 3: All assigned pins must be touched)
     const pinRegistry = new Map<string, { pos: PinPos, netName: string, compRef: string, pinName: string, touched: boolean }>();
 
-    for (const comp of this.snapshot.components) {
+    for (const comp of this.scope) {
       if (comp.symbol === "Device:DNC") continue;
       for (const [name, pin] of comp.allPins) {
         if ((pin as Pin).isDNC) continue;
@@ -966,6 +1242,124 @@ export class SchematicGenerator {
     ];
   }
 
+  /**
+   * Label a net on the current sheet. The root sheet uses global labels; on
+   * subschematic sheets nets leaving the sheet get hierarchical labels (matched
+   * by the parent's sheet pins) and sheet-internal nets get local labels.
+   */
+  private createNetLabel(netName: string, x: number, y: number, dir: { dx: number, dy: number }, uuid: string): SExpr {
+    if (!this.currentSheet.parent) {
+      return this.createGlobalLabel(netName, x, y, dir, uuid);
+    }
+    const isPort = this.currentSheet.ports.some(net => net.name === netName);
+    return this.createSheetLabel(isPort ? "hierarchical_label" : "label", netName, x, y, dir, uuid);
+  }
+
+  private createSheetLabel(kind: "hierarchical_label" | "label", netName: string, x: number, y: number, dir: { dx: number, dy: number }, uuid: string): SExpr {
+    let angle = 0;
+    let justify = "left";
+    if (dir.dx < 0) {
+      angle = 180;
+      justify = "right";
+    } else if (dir.dy < 0) {
+      angle = 90;
+    } else if (dir.dy > 0) {
+      angle = 270;
+      justify = "right";
+    }
+
+    return [
+      kind,
+      this.quote(netName),
+      ...(kind === "hierarchical_label" ? [["shape", "bidirectional"]] : []),
+      ["at", `${x.toFixed(2)}`, `${y.toFixed(2)}`, `${angle}`],
+      ["fields_autoplaced", "yes"],
+      ["effects",
+        ["font", ["size", "1.27", "1.27"]],
+        kind === "label" ? ["justify", justify, "bottom"] : ["justify", justify]
+      ],
+      ["uuid", this.quote(uuid)]
+    ];
+  }
+
+  /**
+   * Place one sheet symbol per child sheet below the current sheet's content.
+   * Every port becomes a sheet pin on the left edge, connected by a short wire
+   * stub and a label of the net's kind on this sheet.
+   */
+  private generateSheetSymbols(sheet: SheetNode): SExpr[] {
+    if (sheet.children.length === 0) return [];
+
+    const grid = 1.27;
+    const snap = (value: number) => Math.round(value / grid) * grid;
+    const boxes = this.scope
+      .map(c => this.getComponentBox(c, 0))
+      .filter((b): b is Box => b !== null);
+    let cursorX = boxes.length > 0 ? snap(Math.min(...boxes.map(b => b.x))) : 20 * grid;
+    const top = boxes.length > 0 ? snap(Math.max(...boxes.map(b => b.y + b.height)) + 12 * grid) : 20 * grid;
+
+    const items: SExpr[] = [];
+    const parentInstances = this.hierarchy.instancesOf(sheet);
+
+    sheet.children.forEach((child, childIndex) => {
+      const longestPort = Math.max(0, ...child.ports.map(net => net.name.length));
+      const labelSpace = snap((longestPort + 4) * grid);
+      cursorX += labelSpace;
+
+      const width = Math.max(20 * grid, Math.ceil((Math.max(child.name.length, child.fileName.length) * grid) / (2 * grid)) * 2 * grid);
+      const height = (Math.max(2, child.ports.length + 1)) * 2 * grid;
+      const sheetUuid = this.hierarchy.sheetUuid(child, this.uuids);
+
+      const pins: SExpr[] = child.ports.map((net, index) => {
+        const pinY = top + (index + 1) * 2 * grid;
+        if (!this.options.noWires) {
+          const stubEnd = { x: cursorX - 2 * grid, y: pinY };
+          items.push(this.createWire({ x: cursorX, y: pinY }, stubEnd, net.name));
+          items.push(this.createNetLabel(net.name, stubEnd.x, stubEnd.y, { dx: -1, dy: 0 },
+            this.uuids.getOrGenerate(`sheet_label:${child.path}:${net.name}`)));
+        }
+        return [
+          "pin",
+          this.quote(this.hierarchy.pinName(child, net)),
+          "bidirectional",
+          ["at", `${cursorX.toFixed(2)}`, `${pinY.toFixed(2)}`, "180"],
+          ["uuid", this.quote(this.uuids.getOrGenerate(`sheet_pin:${child.path}:${net.name}`))],
+          ["effects", ["font", ["size", "1.27", "1.27"]], ["justify", "left"]]
+        ];
+      });
+
+      items.push([
+        "sheet",
+        ["at", `${cursorX.toFixed(2)}`, `${top.toFixed(2)}`],
+        ["size", `${width.toFixed(2)}`, `${height.toFixed(2)}`],
+        ["exclude_from_sim", "no"],
+        ["in_bom", "yes"],
+        ["on_board", "yes"],
+        ["dnp", "no"],
+        ["fields_autoplaced", "yes"],
+        ["stroke", ["width", "0.1524"], ["type", "solid"]],
+        ["fill", ["color", "0", "0", "0", "0.0000"]],
+        ["uuid", this.quote(sheetUuid)],
+        ["property", '"Sheetname"', this.quote(child.name), ["at", `${cursorX.toFixed(2)}`, `${(top - 0.72).toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["justify", "left", "bottom"]]],
+        ["property", '"Sheetfile"', this.quote(child.fileName), ["at", `${cursorX.toFixed(2)}`, `${(top + height + 0.59).toFixed(2)}`, "0"], ["effects", ["font", ["size", "1.27", "1.27"]], ["justify", "left", "top"]]],
+        ...pins,
+        ["instances",
+          ["project", this.quote(this.snapshot.name),
+            ...parentInstances.map(parent => [
+              "path",
+              this.quote(this.hierarchy.instancePath(parent, this.uuids)),
+              ["page", this.quote(String(parent.children[childIndex].page))]
+            ])
+          ]
+        ]
+      ]);
+
+      cursorX = snap(cursorX + width + 8 * grid);
+    });
+
+    return items;
+  }
+
   private createPowerSymbol(netName: string, x: number, y: number, rot: number, outDir: { dx: number, dy: number }, rootUuid: string, symUuid: string): SExpr {
     this.powerSymbolCounter++;
     const pwrRef = `#PWR${String(this.powerSymbolCounter).padStart(3, '0')}`;
@@ -1011,18 +1405,20 @@ export class SchematicGenerator {
 
     const pinInfo = this.findPinInSymbol(symDef, pin.name);
     if (!pinInfo) return null;
+    const { dx } = this.unitOfPin(comp, pin.name);
 
-    const cx = comp.absoluteSchematicPosition?.x || 0;
-    const cy = comp.absoluteSchematicPosition?.y || 0;
-    const crot = comp.absoluteSchematicPosition?.rotation || 0;
+    const position = this.positionOf(comp);
+    const cx = position?.x || 0;
+    const cy = position?.y || 0;
+    const crot = position?.rotation || 0;
 
     const rad = (crot * Math.PI) / 180;
     const cos = Math.cos(rad);
     const sin = Math.sin(rad);
 
     // Apply CCW rotation to Library (Y-up) coords, then invert Y for KiCad board space (Y-down)
-    const rx = pinInfo.x * cos - pinInfo.y * sin;
-    const ry = -(pinInfo.x * sin + pinInfo.y * cos);
+    const rx = (pinInfo.x + dx) * cos - pinInfo.y * sin;
+    const ry = -((pinInfo.x + dx) * sin + pinInfo.y * cos);
 
     return {
       x: cx + rx,
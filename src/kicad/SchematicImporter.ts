@@ -0,0 +1,438 @@
+import { SExpressionParser, SExpr } from "./SExpressionParser";
+import { ComponentProperties } from "../synth/Properties";
+
+interface Point { x: number; y: number; }
+
+/** A pin of a library symbol, in library coordinates (Y up). */
+interface LibPin { number: string; x: number; y: number; unit: number; }
+
+interface LibSymbol { pins: LibPin[]; power: boolean; }
+
+/** A symbol instance on the sheet; the units of a component are separate instances. */
+interface PlacedSymbol {
+  libId: string;
+  ref: string;
+  at: Point & { rotation: number };
+  unit: number;
+  dnp: boolean;
+  properties: Map<string, string>;
+  pins: { number: string; at: Point }[];
+}
+
+interface ImportedComponent {
+  ref: string;
+  symbol: string;
+  footprint: string;
+  value?: string;
+  description?: string;
+  partNo?: string;
+  fields: Record<string, string>;
+  dnp: boolean;
+  pos: Point & { rotation: number };
+  pins: Set<string>;
+}
+
+interface ImportedNet {
+  name?: string;
+  power: boolean;
+  /** Pins as `[ref, number]`. */
+  pins: [string, string][];
+  noConnect: boolean;
+}
+
+/** Fields that component options or the KiCad instance data set. */
+const SKIPPED_FIELDS = /^(Reference|Value|Footprint|Description|LCSC_Part|LCSC|LCSC Part #|ki_.*|hierarchy_path|root_uuid|Sheetname|Sheetfile)$/;
+const PART_NUMBER_FIELDS = ["LCSC_Part", "LCSC", "LCSC Part #"];
+
+const PAPER_SIZES = ["A0", "A1", "A2", "A3", "A4", "A5", "A", "B", "C", "D", "E"];
+
+/** KiCad stores positions with up to 4 decimals, points closer than this are the same. */
+const GRID = 100;
+
+/** Words that cannot name a variable. */
+const RESERVED = new Set(["break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null", "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with", "yield", "let", "static", "implements", "interface", "package", "private", "protected", "public", "await"]);
+
+/**
+ * Imports a KiCad schematic (`.kicad_sch`) into TypeScript source: a
+ * Schematic subclass declaring the components and nets of the sheet and
+ * connecting the pins with `tie()`.
+ *
+ * Connectivity is reconstructed like KiCad does it: wires connect at their
+ * ends and wherever a pin, label or junction touches them; labels and power
+ * symbols of the same name join their nets. Pin positions come from the
+ * symbol definitions embedded in the schematic, so no library is needed.
+ */
+export class SchematicImporter {
+  private warnings: string[] = [];
+  private parent = new Map<string, string>();
+
+  constructor(private readonly content: string, private readonly className: string) {}
+
+  generate(): { source: string; warnings: string[] } {
+    this.warnings = [];
+    this.parent.clear();
+
+    const root = SExpressionParser.parse(this.content)[0];
+    if (!Array.isArray(root) || root[0] !== "kicad_sch") {
+      throw new Error("Not a KiCad schematic: expected a (kicad_sch ...) file.");
+    }
+
+    const library = this.librarySymbols(root);
+    const placed = children(root, "symbol").map(symbol => this.placedSymbol(symbol, library)).filter((s): s is PlacedSymbol => s !== null);
+    for (const sheet of children(root, "sheet")) {
+      const name = children(sheet, "property").find(p => ["Sheetname", "Sheet name"].includes(text(p[1])));
+      this.warnings.push(`Hierarchical sheet '${name ? text(name[2]) : "?"}' was not imported; import its file separately.`);
+    }
+    if (children(root, "bus").length > 0) {
+      this.warnings.push("Buses were not imported; connections made only through bus entries are missing.");
+    }
+
+    const components = this.components(placed.filter(symbol => !library.get(symbol.libId)?.power));
+    const nets = this.nets(root, placed, library);
+    return { source: this.source(root, components, nets), warnings: this.warnings };
+  }
+
+  // Reading the sheet
+
+  private librarySymbols(root: SExpr[]): Map<string, LibSymbol> {
+    const library = new Map<string, LibSymbol>();
+    const definitions = child(root, "lib_symbols");
+    const extended: [string, string][] = [];
+    for (const symbol of definitions ? children(definitions, "symbol") : []) {
+      const name = text(symbol[1]);
+      const pins: LibPin[] = [];
+      this.collectPins(symbol, 0, pins);
+      library.set(name, { pins, power: child(symbol, "power") !== undefined });
+      const base = child(symbol, "extends");
+      if (base) extended.push([name, text(base[1])]);
+    }
+    for (const [name, base] of extended) {
+      const baseSymbol = library.get(base) ?? library.get(`${name.split(":")[0]}:${base}`);
+      if (baseSymbol && library.get(name)!.pins.length === 0) library.get(name)!.pins = baseSymbol.pins;
+    }
+    return library;
+  }
+
+  private collectPins(symbol: SExpr[], unit: number, pins: LibPin[]) {
+    for (const item of symbol) {
+      if (!Array.isArray(item)) continue;
+      if (item[0] === "symbol") {
+        // Units are sub-symbols named NAME_UNIT_STYLE, unit 0 is common to all units
+        const parts = text(item[1]).split("_");
+        this.collectPins(item, Number(parts[parts.length - 2]) || 0, pins);
+      } else if (item[0] === "pin") {
+        const at = child(item, "at");
+        const number = child(item, "number");
+        if (at && number) pins.push({ number: text(number[1]), x: Number(at[1]), y: Number(at[2]), unit });
+      }
+    }
+  }
+
+  private placedSymbol(symbol: SExpr[], library: Map<string, LibSymbol>): PlacedSymbol | null {
+    const libId = text(child(symbol, "lib_id")?.[1]);
+    if (!libId) return null;
+    const definition = library.get(text(child(symbol, "lib_name")?.[1])) ?? library.get(libId);
+    const at = child(symbol, "at");
+    const position = { x: Number(at?.[1] ?? 0), y: Number(at?.[2] ?? 0), rotation: Number(at?.[3] ?? 0) };
+    const unit = Number(child(symbol, "unit")?.[1] ?? 1);
+    const mirror = text(child(symbol, "mirror")?.[1]);
+
+    const properties = new Map<string, string>();
+    for (const property of children(symbol, "property")) properties.set(text(property[1]), text(property[2]));
+    let ref = properties.get("Reference") ?? "";
+    if (!ref || ref.endsWith("?")) {
+      const instance = findDeep(symbol, "reference");
+      if (instance) ref = text(instance[1]);
+    }
+
+    if (!definition) {
+      this.warnings.push(`Symbol ${ref || libId} has no definition in the schematic's lib_symbols; its pins are not connected.`);
+    }
+    const rad = (position.rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const pins = (definition?.pins ?? []).filter(pin => pin.unit === 0 || pin.unit === unit).map(pin => {
+      // Rotate counter-clockwise in library coordinates (Y up), then flip Y to sheet coordinates
+      let dx = pin.x * cos - pin.y * sin;
+      let dy = -(pin.x * sin + pin.y * cos);
+      if (mirror === "x") dy = -dy;
+      if (mirror === "y") dx = -dx;
+      return { number: pin.number, at: { x: position.x + dx, y: position.y + dy } };
+    });
+
+    const dnp = text(child(symbol, "dnp")?.[1]) === "yes";
+    return { libId, ref, at: position, unit, dnp, properties, pins };
+  }
+
+  private components(symbols: PlacedSymbol[]): ImportedComponent[] {
+    const byRef = new Map<string, ImportedComponent>();
+    for (const symbol of symbols) {
+      const existing = byRef.get(symbol.ref);
+      if (existing) {
+        // Another unit of the same component
+        symbol.pins.forEach(pin => existing.pins.add(pin.number));
+        if (symbol.unit === 1) existing.pos = symbol.at;
+        continue;
+      }
+      const property = (name: string) => {
+        const value = symbol.properties.get(name);
+        return value && value !== "~" ? value : undefined;
+      };
+      const value = property("Value");
+      const derived = new Map(ComponentProperties.of(symbol.libId, value).fields());
+      const fields: Record<string, string> = {};
+      for (const [name, fieldValue] of symbol.properties) {
+        if (SKIPPED_FIELDS.test(name) || !fieldValue || fieldValue === "~") continue;
+        // Property fields written from the value come back from the value
+        if (derived.get(name) === fieldValue) continue;
+        fields[name] = fieldValue;
+      }
+      byRef.set(symbol.ref, {
+        ref: symbol.ref,
+        symbol: symbol.libId,
+        footprint: property("Footprint") ?? "",
+        value,
+        description: property("Description"),
+        partNo: PART_NUMBER_FIELDS.map(property).find(Boolean),
+        fields,
+        dnp: symbol.dnp,
+        pos: symbol.at,
+        pins: new Set(symbol.pins.map(pin => pin.number)),
+      });
+    }
+    return Array.from(byRef.values()).sort((a, b) => a.ref.localeCompare(b.ref, undefined, { numeric: true }));
+  }
+
+  private nets(root: SExpr[], placed: PlacedSymbol[], library: Map<string, LibSymbol>): ImportedNet[] {
+    const wires = children(root, "wire").map(wire => {
+      const points = children(child(wire, "pts") ?? [], "xy").map(xy => ({ x: Number(xy[1]), y: Number(xy[2]) }));
+      return [points[0], points[points.length - 1]] as [Point, Point];
+    }).filter(([a, b]) => a && b);
+
+    // Every point that connects to a wire passing through it
+    const anchors: Point[] = [];
+    const attach = (point: Point) => {
+      anchors.push(point);
+      return this.find(key(point));
+    };
+    for (const [a, b] of wires) this.union(attach(a), attach(b));
+    for (const junction of children(root, "junction")) attach(point(child(junction, "at")));
+
+    const names: { key: string; name: string; priority: number }[] = [];
+    const labelKinds: [string, number][] = [["label", 1], ["hierarchical_label", 2], ["global_label", 3]];
+    for (const [kind, priority] of labelKinds) {
+      for (const label of children(root, kind)) {
+        names.push({ key: attach(point(child(label, "at"))), name: text(label[1]), priority });
+      }
+    }
+    const noConnects = children(root, "no_connect").map(flag => attach(point(child(flag, "at"))));
+
+    const pinKeys: [PlacedSymbol, string, string][] = [];
+    for (const symbol of placed) {
+      const power = library.get(symbol.libId)?.power ?? false;
+      for (const pin of symbol.pins) {
+        const pinKey = attach(pin.at);
+        // PWR_FLAG only marks a net as driven
+        if (power && !symbol.libId.endsWith(":PWR_FLAG")) {
+          names.push({ key: pinKey, name: symbol.properties.get("Value") ?? symbol.libId.split(":")[1], priority: 4 });
+        } else if (!power) {
+          pinKeys.push([symbol, pin.number, pinKey]);
+        }
+      }
+    }
+
+    for (const anchor of anchors) {
+      for (const [a, b] of wires) {
+        if (onSegment(anchor, a, b)) this.union(key(anchor), key(a));
+      }
+    }
+    // Labels and power symbols of the same name are the same net
+    const byName = new Map<string, string>();
+    for (const { key: labelKey, name } of names) {
+      if (byName.has(name)) this.union(byName.get(name)!, labelKey);
+      else byName.set(name, labelKey);
+    }
+
+    const nets = new Map<string, ImportedNet>();
+    const netAt = (pointKey: string) => {
+      const rootKey = this.find(pointKey);
+      if (!nets.has(rootKey)) nets.set(rootKey, { power: false, pins: [], noConnect: false });
+      return nets.get(rootKey)!;
+    };
+    const named = new Map<ImportedNet, { name: string; priority: number }[]>();
+    for (const entry of names) {
+      const net = netAt(entry.key);
+      if (!named.has(net)) named.set(net, []);
+      named.get(net)!.push(entry);
+    }
+    for (const [net, entries] of named) {
+      entries.sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+      net.name = entries[0].name;
+      net.power = entries[0].priority === 4;
+      const others = Array.from(new Set(entries.map(entry => entry.name))).filter(name => name !== net.name);
+      if (others.length > 0) this.warnings.push(`Net ${net.name} is also labelled ${others.join(", ")}; the other names were dropped.`);
+    }
+    for (const [symbol, number, pinKey] of pinKeys) {
+      const pins = netAt(pinKey).pins;
+      if (!pins.some(([ref, n]) => ref === symbol.ref && n === number)) pins.push([symbol.ref, number]);
+    }
+    for (const flag of noConnects) netAt(flag).noConnect = true;
+
+    return Array.from(nets.values()).filter(net => net.pins.length > 0);
+  }
+
+  private find(k: string): string {
+    let root = k;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    if (!this.parent.has(k)) this.parent.set(k, k);
+    // Path compression
+    let current = k;
+    while (current !== root) {
+      const next = this.parent.get(current)!;
+      this.parent.set(current, root);
+      current = next;
+    }
+    return root;
+  }
+
+  private union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootB, rootA);
+  }
+
+  // Writing the source
+
+  private source(root: SExpr[], components: ImportedComponent[], nets: ImportedNet[]): string {
+    const identifiers = new Set<string>();
+    const identifier = (name: string, fallback: string) => {
+      let base = name.replace(/^\+/, "p").replace(/^-/, "n").replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "").toLowerCase();
+      if (!base || /^\d/.test(base)) base = `${fallback}${base ? `_${base}` : ""}`;
+      if (RESERVED.has(base)) base = `${base}_`;
+      let unique = base;
+      for (let i = 2; identifiers.has(unique); i++) unique = `${base}_${i}`;
+      identifiers.add(unique);
+      return unique;
+    };
+
+    const variables = new Map(components.map(comp => [comp.ref, identifier(comp.ref, "part")]));
+    const pin = (ref: string, number: string) => `${variables.get(ref)}.pins[${/^[1-9]\d*$/.test(number) ? number : JSON.stringify(number)}]`;
+
+    const named = nets.filter(net => net.name !== undefined).sort((a, b) => a.name!.localeCompare(b.name!, undefined, { numeric: true }));
+    const netVariables = new Map(named.map(net => [net, identifier(net.name!, "net")]));
+
+    const title = child(root, "title_block");
+    const meta = (key: string) => {
+      const value = text(child(title ?? [], key)?.[1]);
+      return value || undefined;
+    };
+    const paper = text(child(root, "paper")?.[1]);
+    const options: [string, string | undefined][] = [
+      ["name", JSON.stringify(meta("title") ?? this.className)],
+      ["size", PAPER_SIZES.includes(paper) && paper !== "A4" ? JSON.stringify(paper) : undefined],
+      ["revision", meta("rev") && JSON.stringify(meta("rev"))],
+      ["company", meta("company") && JSON.stringify(meta("company"))],
+    ];
+
+    const lines: string[] = [
+      `import { Schematic, Component, Net } from "@tobisk/pcbs";`,
+      "",
+      "/**",
+      ` * ${this.className}, imported from KiCad by \`pcbs import\`.`,
+      " */",
+      `export class ${this.className} extends Schematic {`,
+      "  constructor() {",
+      `    super({ ${options.filter(([, value]) => value !== undefined).map(([name, value]) => `${name}: ${value}`).join(", ")} });`,
+      "  }",
+      "",
+      "  generate() {",
+    ];
+
+    for (const net of named) {
+      const netOptions = [`name: ${JSON.stringify(net.name)}`, ...(net.power ? [`class: "Power"`] : [])];
+      lines.push(`    const ${netVariables.get(net)} = new Net({ ${netOptions.join(", ")} });`);
+    }
+    if (named.length > 0) lines.push("");
+
+    for (const comp of components) {
+      // An explicit rotation, even 0, keeps synthesis from rotating the symbol
+      const pos = [`x: ${round(comp.pos.x)}`, `y: ${round(comp.pos.y)}`, `r: ${round(comp.pos.rotation)}`];
+      const fields = Object.entries(comp.fields);
+      const props: string[] = [
+        `symbol: ${JSON.stringify(comp.symbol)}`,
+        `ref: ${JSON.stringify(comp.ref)}`,
+        `footprint: ${JSON.stringify(comp.footprint)}`,
+        ...(comp.value !== undefined ? [`value: ${JSON.stringify(comp.value)}`] : []),
+        ...(comp.description !== undefined ? [`description: ${JSON.stringify(comp.description)}`] : []),
+        ...(comp.partNo !== undefined ? [`partNo: ${JSON.stringify(comp.partNo)}`] : []),
+        ...(fields.length > 0 ? [`fields: { ${fields.map(([name, value]) => `${JSON.stringify(name)}: ${JSON.stringify(value)}`).join(", ")} }`] : []),
+        ...(comp.dnp ? ["dnp: true"] : []),
+        `pos: { ${pos.join(", ")} }`,
+      ];
+      lines.push(`    const ${variables.get(comp.ref)} = new Component({`, ...props.map(prop => `      ${prop},`), "    });");
+    }
+
+    const connections: string[] = [];
+    for (const net of named) {
+      for (const [ref, number] of net.pins) connections.push(`    ${pin(ref, number)}.tie(${netVariables.get(net)});`);
+    }
+    for (const net of nets.filter(net => net.name === undefined)) {
+      const [[firstRef, firstNumber], ...others] = net.pins;
+      if (others.length > 0) {
+        connections.push(`    ${pin(firstRef, firstNumber)}.tie(${others.map(([ref, number]) => pin(ref, number)).join(", ")});`);
+      } else if (net.noConnect) {
+        connections.push(`    ${pin(firstRef, firstNumber)}.dnc();`);
+      }
+    }
+    for (const net of nets.filter(net => net.noConnect && (net.name !== undefined || net.pins.length > 1))) {
+      this.warnings.push(`No-connect flag on connected net ${net.name ?? net.pins.map(([ref, number]) => `${ref}.${number}`).join(", ")} was ignored.`);
+    }
+    if (connections.length > 0) lines.push("", ...connections);
+
+    lines.push("  }", "}", "", `export default new ${this.className}();`, "");
+    return lines.join("\n");
+  }
+}
+
+function child(expr: SExpr[], name: string): SExpr[] | undefined {
+  return expr.find((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function children(expr: SExpr[], name: string): SExpr[][] {
+  return expr.filter((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function findDeep(expr: SExpr[], name: string): SExpr[] | undefined {
+  for (const item of expr) {
+    if (!Array.isArray(item)) continue;
+    if (item[0] === name) return item;
+    const found = findDeep(item, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function text(expr: SExpr | undefined): string {
+  return typeof expr === "string" ? SExpressionParser.unquote(expr) : "";
+}
+
+function point(at: SExpr[] | undefined): Point {
+  return { x: Number(at?.[1] ?? 0), y: Number(at?.[2] ?? 0) };
+}
+
+function key(p: Point): string {
+  return `${Math.round(p.x * GRID)},${Math.round(p.y * GRID)}`;
+}
+
+function onSegment(p: Point, a: Point, b: Point): boolean {
+  const tolerance = 1 / GRID;
+  const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0 || Math.abs(cross) / length > tolerance) return false;
+  const dot = (p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y);
+  return dot >= -tolerance && dot <= length * length + tolerance;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
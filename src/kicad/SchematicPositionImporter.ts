@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import { CircuitSnapshot, SchematicPosition } from "../synth/types";
+import { Component } from "../synth/Component";
+import { SExpr, SExpressionParser } from "./SExpressionParser";
+import { SheetHierarchy } from "./SheetHierarchy";
+import { normalizeAngle } from "./BoardFile";
+
+/** Symbol positions on their pages by reference, as stored in `schematic-positions.json`. */
+export type SchematicPositions = Record<string, Required<SchematicPosition>>;
+
+export interface SchematicPositionImportResult {
+  /** Content of the `schematic-positions.json` file. */
+  content: string;
+  positions: SchematicPositions;
+  warnings: string[];
+}
+
+/** Read a positions file written by `pcbs pull-positions`, if there is one. */
+export function loadSchematicPositions(filePath: string): SchematicPositions | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (e: any) {
+    throw new Error(`Invalid schematic positions file ${filePath}: ${e.message}`);
+  }
+}
+
+/**
+ * Reads the symbol positions and rotations of schematics tidied in eeschema,
+ * so that the generator pins them on the next run instead of laying them out
+ * again. Symbols are found by reference on the sheet file their component is
+ * drawn on; positions are page coordinates of that file. Multi-unit symbols
+ * are pinned by their first unit, the other units are drawn next to it.
+ */
+export class SchematicPositionImporter {
+  private readonly hierarchy: SheetHierarchy;
+
+  constructor(
+    private readonly snapshot: CircuitSnapshot,
+    /** Content of the generated `.kicad_sch` files by file name. */
+    private readonly sheets: Record<string, string>,
+    hierarchy?: SheetHierarchy,
+  ) {
+    this.hierarchy = hierarchy ?? new SheetHierarchy(snapshot);
+  }
+
+  generate(): SchematicPositionImportResult {
+    const warnings: string[] = [];
+    const positions: SchematicPositions = {};
+
+    for (const sheet of this.hierarchy.sheets.filter(sheet => !sheet.shared)) {
+      const components = sheet.components.filter(comp => this.isSymbol(comp));
+      if (components.length === 0) continue;
+
+      const content = this.sheets[sheet.fileName];
+      if (content === undefined) {
+        warnings.push(`${sheet.fileName} not found; run synth first.`);
+        continue;
+      }
+      const symbols = this.readSymbols(content, sheet.fileName);
+
+      for (const comp of components) {
+        const symbol = symbols.get(comp.ref);
+        if (!symbol) {
+          warnings.push(`${comp.ref} is not on ${sheet.fileName} yet; run synth first.`);
+          continue;
+        }
+        if (symbol.mirrored) warnings.push(`${comp.ref} is mirrored on ${sheet.fileName}; the generator does not mirror symbols.`);
+        positions[comp.ref] = symbol.position;
+      }
+    }
+
+    return { content: this.content(positions), positions, warnings };
+  }
+
+  private isSymbol(comp: Component<any>): boolean {
+    return comp.symbol !== "Device:DNC" && !comp.ref.startsWith("#");
+  }
+
+  /** The first unit of every symbol on a sheet, by reference. */
+  private readSymbols(content: string, fileName: string): Map<string, { unit: number; position: Required<SchematicPosition>; mirrored: boolean }> {
+    const root = SExpressionParser.parse(content)[0];
+    if (!Array.isArray(root) || root[0] !== "kicad_sch") throw new Error(`${fileName} is not a KiCad schematic.`);
+
+    const symbols = new Map<string, { unit: number; position: Required<SchematicPosition>; mirrored: boolean }>();
+    for (const symbol of children(root, "symbol")) {
+      if (!child(symbol, "lib_id")) continue;
+      const reference = children(symbol, "property").find(property => text(property[1]) === "Reference");
+      const ref = text(reference?.[2]);
+      const unit = Number(child(symbol, "unit")?.[1] ?? 1);
+      if (!ref || (symbols.get(ref)?.unit ?? Infinity) <= unit) continue;
+
+      const at = child(symbol, "at") ?? [];
+      symbols.set(ref, {
+        unit,
+        position: {
+          x: round(Number(at[1] ?? 0)),
+          y: round(Number(at[2] ?? 0)),
+          rotation: round(normalizeAngle(Number(at[3] ?? 0), false)),
+        },
+        mirrored: child(symbol, "mirror") !== undefined,
+      });
+    }
+    return symbols;
+  }
+
+  private content(positions: SchematicPositions): string {
+    const refs = Object.keys(positions).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const sorted = Object.fromEntries(refs.map(ref => [ref, positions[ref]]));
+    return JSON.stringify(sorted, null, 2) + "\n";
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+function child(expr: SExpr[], name: string): SExpr[] | undefined {
+  return expr.find((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function children(expr: SExpr[], name: string): SExpr[][] {
+  return expr.filter((item): item is SExpr[] => Array.isArray(item) && item[0] === name);
+}
+
+function text(expr: SExpr | undefined): string {
+  return typeof expr === "string" ? SExpressionParser.unquote(expr) : "";
+}
@@ -0,0 +1,395 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component, resolveVariant } from "../synth/Component";
+import type { Composable } from "../synth/Composable";
+import { Net } from "../synth/Net";
+import { UuidManager } from "./UuidManager";
+
+/** A single page of the generated KiCad schematic hierarchy. */
+export interface SheetNode {
+  /** Sheet name as shown in KiCad's hierarchy navigator. Empty for the root sheet. */
+  name: string;
+  /** Schematic file name, relative to the project directory. */
+  fileName: string;
+  /** Human readable sheet path, e.g. "/Power/Buck/" ("/" for the root sheet). */
+  path: string;
+  /** 1-based page number in hierarchy order. */
+  page: number;
+  parent?: SheetNode;
+  children: SheetNode[];
+  /** Components drawn on this sheet (not including those of child sheets). */
+  components: Component<any>[];
+  /** Nets connecting this sheet's subtree with the rest of the design, sorted by name. */
+  ports: Net[];
+  /** The composable that owns this sheet, if it was created via `makeSubschematic()`. */
+  composable?: Composable<any>;
+  /**
+   * Set when this sheet is a repeated instance of another composable sheet.
+   * It then reuses that sheet's schematic file instead of getting its own.
+   */
+  shared?: SheetNode;
+}
+
+type SheetSegment = { name: string } | { composable: Composable<any> };
+
+/**
+ * Resolves the sheet hierarchy of a circuit snapshot.
+ *
+ * Sheets are created for every `@subschematic` decorator name and every
+ * composable marked with `makeSubschematic()`. Nested composables produce
+ * nested sheets. Nets that cross a sheet boundary become sheet pins.
+ *
+ * Repeated instances of the same composable share a single schematic file
+ * when their contents are identical, mirroring KiCad's multi-instance sheets.
+ * The file is drawn from the first instance; the others map onto it by
+ * creation order.
+ */
+export class SheetHierarchy {
+  readonly root: SheetNode;
+  private sheetByComponent = new Map<Component<any>, SheetNode>();
+  private childBySegment = new Map<SheetNode, Map<string | Composable<any>, SheetNode>>();
+  /** Drawn component for every component of a shared sheet instance. */
+  private drawnComponent = new Map<Component<any>, Component<any>>();
+  /** Per-instance counterparts of drawn components. */
+  private counterparts = new Map<Component<any>, Map<SheetNode, Component<any>>>();
+  /** Sheet pin names of shared sheet instances, keyed by the instance's net. */
+  private portNames = new Map<SheetNode, Map<Net, string>>();
+
+  constructor(private readonly snapshot: CircuitSnapshot) {
+    this.root = {
+      name: "",
+      fileName: `${snapshot.name}.kicad_sch`,
+      path: "/",
+      page: 1,
+      children: [],
+      components: [],
+      ports: [],
+    };
+
+    for (const comp of snapshot.components) {
+      let sheet = this.root;
+      for (const segment of this.segmentsFor(comp)) {
+        sheet = this.childFor(sheet, segment);
+      }
+      sheet.components.push(comp);
+      this.sheetByComponent.set(comp, sheet);
+    }
+
+    this.resolvePorts();
+    this.shareRepeatedSheets();
+    this.assignNames(this.root);
+    this.assignFileNames();
+    this.sheets.forEach((sheet, index) => { sheet.page = index + 1; });
+  }
+
+  /** All sheets in hierarchy (pre-)order, starting with the root sheet. */
+  get sheets(): SheetNode[] {
+    const result: SheetNode[] = [];
+    const visit = (sheet: SheetNode) => {
+      result.push(sheet);
+      sheet.children.forEach(visit);
+    };
+    visit(this.root);
+    return result;
+  }
+
+  /** Whether the design spans more than the root sheet. */
+  get isHierarchical(): boolean {
+    return this.root.children.length > 0;
+  }
+
+  /** The sheet a component is drawn on. */
+  sheetOf(comp: Component<any>): SheetNode {
+    return this.sheetByComponent.get(comp) ?? this.root;
+  }
+
+  /** All sheets drawn from the same file as `sheet`, in hierarchy order. */
+  instancesOf(sheet: SheetNode): SheetNode[] {
+    const drawn = sheet.shared ?? sheet;
+    return this.sheets.filter(s => s === drawn || s.shared === drawn);
+  }
+
+  /** The component whose symbol represents `comp` in the schematic files. */
+  drawnComponentOf(comp: Component<any>): Component<any> {
+    return this.drawnComponent.get(comp) ?? comp;
+  }
+
+  /** The component of sheet instance `instance` that is represented by the drawn `comp`. */
+  counterpartOf(comp: Component<any>, instance: SheetNode): Component<any> {
+    return this.counterparts.get(comp)?.get(instance) ?? comp;
+  }
+
+  /** UUID of the schematic symbol representing `comp`, shared by all instances of a sheet. */
+  symbolUuid(comp: Component<any>, uuids: UuidManager): string {
+    return uuids.getOrGenerate(this.drawnComponentOf(comp).ref);
+  }
+
+  /** Path linking the footprint of `comp` on the board to its symbol, e.g. "/<sheet>/<symbol>". */
+  footprintPath(comp: Component<any>, uuids: UuidManager): string {
+    return `${this.tstampsPath(this.sheetOf(comp), uuids)}${this.symbolUuid(comp, uuids)}`;
+  }
+
+  /** Name of the sheet pin (and hierarchical label) through which `net` enters `sheet`. */
+  pinName(sheet: SheetNode, net: Net): string {
+    return this.portNames.get(sheet)?.get(net) ?? net.name;
+  }
+
+  /** UUID of the sheet symbol placing `sheet` on its parent page. */
+  sheetUuid(sheet: SheetNode, uuids: UuidManager): string {
+    return uuids.getOrGenerate(`sheet:${this.symbolSheetOf(sheet).path}`);
+  }
+
+  /**
+   * The sheet whose symbol is drawn for `sheet`. Sheets nested in a shared
+   * instance are drawn by the corresponding child of the drawn instance.
+   */
+  private symbolSheetOf(sheet: SheetNode): SheetNode {
+    const parent = sheet.parent;
+    if (!parent?.shared) return sheet;
+    return parent.shared.children[parent.children.indexOf(sheet)];
+  }
+
+  /** Symbol instance path of a sheet, e.g. "/<root>/<sheet>/<subsheet>". */
+  instancePath(sheet: SheetNode, uuids: UuidManager): string {
+    const rootUuid = uuids.getOrGenerate("ROOT");
+    return [rootUuid, ...this.sheetUuids(sheet, uuids)].map(uuid => `/${uuid}`).join("");
+  }
+
+  /** Sheet timestamp path as used by netlists and footprints, e.g. "/<sheet>/<subsheet>/". */
+  tstampsPath(sheet: SheetNode, uuids: UuidManager): string {
+    const uuidsOnPath = this.sheetUuids(sheet, uuids);
+    return uuidsOnPath.length > 0 ? `/${uuidsOnPath.join("/")}/` : "/";
+  }
+
+  private sheetUuids(sheet: SheetNode, uuids: UuidManager): string[] {
+    const chain: string[] = [];
+    let current: SheetNode | undefined = sheet;
+    while (current?.parent) {
+      chain.unshift(this.sheetUuid(current, uuids));
+      current = current.parent;
+    }
+    return chain;
+  }
+
+  private segmentsFor(comp: Component<any>): SheetSegment[] {
+    const ancestors: any[] = [];
+    let current: any = comp.parent;
+    while (current) {
+      ancestors.unshift(current);
+      current = current.parent;
+    }
+
+    const segments: SheetSegment[] = [];
+    const named = new Set<string>();
+    const addNamed = (name?: string) => {
+      if (!name || named.has(name)) return;
+      named.add(name);
+      segments.push({ name });
+    };
+
+    for (const ancestor of ancestors) {
+      addNamed(ancestor.subschematic);
+      if (ancestor._subschematicName) segments.push({ composable: ancestor });
+    }
+    addNamed(comp.subschematic);
+    return segments;
+  }
+
+  private childFor(parent: SheetNode, segment: SheetSegment): SheetNode {
+    if (!this.childBySegment.has(parent)) this.childBySegment.set(parent, new Map());
+    const children = this.childBySegment.get(parent)!;
+    const key = "composable" in segment ? segment.composable : segment.name;
+
+    let child = children.get(key);
+    if (!child) {
+      child = {
+        name: "composable" in segment ? segment.composable._subschematicName! : segment.name,
+        fileName: "",
+        path: "",
+        page: 0,
+        parent,
+        children: [],
+        components: [],
+        ports: [],
+        composable: "composable" in segment ? segment.composable : undefined,
+      };
+      children.set(key, child);
+      parent.children.push(child);
+    }
+    return child;
+  }
+
+  /** KiCad requires unique sheet names per parent. */
+  private assignNames(sheet: SheetNode): void {
+    const nameCounts = new Map<string, number>();
+    for (const child of sheet.children) nameCounts.set(child.name, (nameCounts.get(child.name) ?? 0) + 1);
+
+    const usedNames = new Set<string>();
+    for (const child of sheet.children) {
+      let name = child.name;
+      if (sheet.shared) {
+        // The sheet symbol lives in the shared file, so its name is fixed by the drawn instance
+        name = this.symbolSheetOf(child).name;
+      } else {
+        if (nameCounts.get(name)! > 1 && child.composable) name = `${name}_${child.composable.ref}`;
+        for (let n = 2; usedNames.has(name); n++) name = `${child.name}_${n}`;
+      }
+      usedNames.add(name);
+      child.name = name;
+      child.path = `${sheet.path}${name}/`;
+
+      this.assignNames(child);
+    }
+  }
+
+  /** File names are unique per project; shared instances reuse the file of the drawn sheet. */
+  private assignFileNames(): void {
+    const usedFiles = new Set([this.root.fileName]);
+    for (const sheet of this.sheets) {
+      if (!sheet.parent) continue;
+      if (sheet.shared) {
+        sheet.fileName = sheet.shared.fileName;
+        continue;
+      }
+
+      const isRepeated = this.instancesOf(sheet).length > 1;
+      const name = isRepeated && sheet.composable ? sheet.composable._subschematicName! : sheet.name;
+      const base = name.replace(/[^A-Za-z0-9_-]+/g, "_");
+      let fileName = `${base}.kicad_sch`;
+      for (let n = 2; usedFiles.has(fileName); n++) fileName = `${base}_${n}.kicad_sch`;
+      usedFiles.add(fileName);
+      sheet.fileName = fileName;
+    }
+  }
+
+  /**
+   * Pair up repeated composable sheets whose components, values and internal
+   * connectivity are identical. Later instances reuse the first one's file.
+   */
+  private shareRepeatedSheets(): void {
+    const drawnBySignature = new Map<string, SheetNode>();
+    for (const sheet of this.sheets) {
+      if (!sheet.composable || sheet.shared || this.isInsideSharedSheet(sheet)) continue;
+
+      const key = `${sheet.composable.constructor.name}|${sheet.composable._subschematicName}|${this.signatureOf(sheet)}`;
+      const drawn = drawnBySignature.get(key);
+      if (drawn) this.share(sheet, drawn);
+      else drawnBySignature.set(key, sheet);
+    }
+  }
+
+  private isInsideSharedSheet(sheet: SheetNode): boolean {
+    for (let current = sheet.parent; current; current = current.parent) {
+      if (current.shared) return true;
+    }
+    return false;
+  }
+
+  /** Map `instance` (and its nested sheets) onto the structurally identical `drawn` sheet. */
+  private share(instance: SheetNode, counterpart: SheetNode): void {
+    const drawn = counterpart.shared ?? counterpart;
+    instance.shared = drawn;
+
+    instance.components.forEach((comp, index) => {
+      const drawnComp = this.drawnComponentOf(counterpart.components[index]);
+      this.drawnComponent.set(comp, drawnComp);
+      if (!this.counterparts.has(drawnComp)) this.counterparts.set(drawnComp, new Map());
+      this.counterparts.get(drawnComp)!.set(instance, comp);
+    });
+
+    const names = new Map<Net, string>();
+    const ports = new Set(instance.ports);
+    const drawnSubtree = this.subtreeComponents(drawn);
+    this.subtreeComponents(instance).forEach((comp, index) => {
+      const drawnComp = this.drawnComponentOf(drawnSubtree[index]);
+      for (const pin of new Set<Pin>(comp.allPins.values())) {
+        const drawnNet = drawnComp.allPins.get(pin.name)?.net;
+        if (pin.net && drawnNet && ports.has(pin.net)) names.set(pin.net, drawnNet.name);
+      }
+    });
+    this.portNames.set(instance, names);
+
+    instance.children.forEach((child, index) => this.share(child, counterpart.children[index]));
+  }
+
+  private subtreeComponents(sheet: SheetNode): Component<any>[] {
+    return [sheet.components, ...sheet.children.map(child => this.subtreeComponents(child))].flat();
+  }
+
+  /**
+   * Structural fingerprint of a sheet subtree. Nets are numbered by first use
+   * so that instances only match when they are wired identically; power nets
+   * are global and must match by name. Everything drawn into the symbols, such
+   * as DNP, variant overrides and custom fields, must match as well.
+   */
+  private signatureOf(sheet: SheetNode): string {
+    const ports = new Set(sheet.ports);
+    const netIds = new Map<Net, string>();
+    const netId = (pin: Pin): string => {
+      if (pin.isDNC) return "dnc";
+      if (!pin.net) return "-";
+      if (pin.net.class === "Power") return `P:${pin.net.name}`;
+      if (!netIds.has(pin.net)) netIds.set(pin.net, `n${netIds.size}${ports.has(pin.net) ? "*" : ""}`);
+      return netIds.get(pin.net)!;
+    };
+
+    const shape = (node: SheetNode): string =>
+      `${node.components.length}(${node.children.map(shape).join(",")})`;
+
+    const parts = [shape(sheet)];
+    for (const comp of this.subtreeComponents(sheet)) {
+      const pins = Array.from(new Set<Pin>(comp.allPins.values()))
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+        .map(pin => `${pin.name}=${netId(pin)}`);
+      const resolved = resolveVariant(comp, this.snapshot.variant);
+      parts.push([
+        comp.symbol, comp.value ?? "", comp.footprint ?? "", comp.partNo ?? "", comp.description ?? "", comp.dnp,
+        resolved.dnp, resolved.value ?? "", resolved.partNo ?? "", comp.properties.toString(),
+        stableJson(comp.fields), stableJson(comp.variants), pins.join(","),
+      ].join("|"));
+    }
+    return parts.join(";");
+  }
+
+  /**
+   * A net becomes a port of a sheet when it has pins both inside and outside
+   * the sheet's subtree. Power nets are connected through global power
+   * symbols and never need sheet pins.
+   */
+  private resolvePorts(): void {
+    const netSheets = new Map<Net, Set<SheetNode>>();
+    for (const comp of this.snapshot.components) {
+      if (comp.symbol === "Device:DNC") continue;
+      const sheet = this.sheetOf(comp);
+      for (const pin of new Set<Pin>(comp.allPins.values())) {
+        if (!pin.net || pin.isDNC || pin.net.class === "Power") continue;
+        if (!netSheets.has(pin.net)) netSheets.set(pin.net, new Set());
+        netSheets.get(pin.net)!.add(sheet);
+      }
+    }
+
+    const isWithin = (sheet: SheetNode, ancestor: SheetNode) => {
+      for (let current: SheetNode | undefined = sheet; current; current = current.parent) {
+        if (current === ancestor) return true;
+      }
+      return false;
+    };
+
+    for (const sheet of this.sheets) {
+      if (!sheet.parent) continue;
+      for (const [net, sheets] of netSheets) {
+        const members = Array.from(sheets);
+        if (members.some(s => isWithin(s, sheet)) && members.some(s => !isWithin(s, sheet))) {
+          sheet.ports.push(net);
+        }
+      }
+      sheet.ports.sort((a, b) => a.name.localeCompare(b.name));
+    }
+  }
+}
+
+/** JSON with sorted keys, so that equal records give equal strings. */
+function stableJson(value: unknown): string {
+  if (!value || typeof value !== "object") return JSON.stringify(value) ?? "";
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableJson(record[key])}`).join(",")}}`;
+}
@@ -0,0 +1,48 @@
+import { CircuitSnapshot } from "../synth/types";
+import { Component } from "../synth/Component";
+import { Net } from "../synth/Net";
+import { formatSourceLocation } from "../synth/SourceLocation";
+import { CheckFinding } from "./ErcChecker";
+
+/**
+ * Finds where in the design code the components and nets named by a finding
+ * were created, so messages can point at `file:line` instead of only at refs
+ * and net names.
+ */
+export class SourceLocator {
+  private readonly components = new Map<string, Component<any>>();
+  private readonly nets = new Map<string, Net>();
+
+  constructor(snapshot: CircuitSnapshot) {
+    for (const comp of snapshot.components) {
+      if (!this.components.has(comp.ref)) this.components.set(comp.ref, comp);
+      for (const pin of comp.allPins.values()) {
+        if (pin.net && !this.nets.has(pin.net.name)) this.nets.set(pin.net.name, pin.net);
+      }
+    }
+    for (const net of snapshot.nets) {
+      if (!this.nets.has(net.name)) this.nets.set(net.name, net);
+    }
+  }
+
+  /** Locations of the components, or of the nets if no component is involved, as `file:line`. */
+  sources(refs: string[], nets: string[] = []): string[] {
+    const fromRefs = refs.map(ref => this.components.get(ref)?.source);
+    const located = fromRefs.some(Boolean) ? fromRefs : nets.map(name => this.nets.get(name)?.source);
+    return Array.from(new Set(located.filter(source => !!source).map(source => formatSourceLocation(source!))));
+  }
+
+  /** Set the `sources` of findings. */
+  locate(findings: CheckFinding[]): CheckFinding[] {
+    for (const finding of findings) {
+      const sources = this.sources(finding.refs, finding.nets);
+      if (sources.length > 0) finding.sources = sources;
+    }
+    return findings;
+  }
+}
+
+/** The message of a finding followed by the locations it was found at, for plain-text output. */
+export function describeFinding(finding: CheckFinding): string {
+  return finding.sources?.length ? `${finding.message} (at ${finding.sources.join(", ")})` : finding.message;
+}
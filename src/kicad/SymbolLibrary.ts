@@ -11,6 +11,8 @@ export interface SymbolDefinition {
 export class SymbolLibrary {
   private loadedLibraries = new Map<string, Map<string, SExpr>>();
   private libraryPaths: string[] = [];
+  private pinTypes = new Map<string, Map<string, string>>();
+  private pinUnits = new Map<string, Map<string, number>>();
 
   constructor(libraryPaths: string[] = []) {
     this.libraryPaths = libraryPaths;
@@ -21,6 +23,8 @@ export class SymbolLibrary {
    */
   setLibraryPaths(paths: string[]) {
     this.libraryPaths = paths;
+    this.pinTypes.clear();
+    this.pinUnits.clear();
   }
 
   /**
@@ -49,6 +53,74 @@ export class SymbolLibrary {
     };
   }
 
+  /**
+   * Electrical type of every pin of a symbol, keyed by pin number
+   * (e.g. "1" → "passive", "8" → "power_in"). Empty if the symbol is unknown.
+   */
+  getPinTypes(qualifiedName: string): Map<string, string> {
+    const cached = this.pinTypes.get(qualifiedName);
+    if (cached) return cached;
+
+    const types = new Map<string, string>();
+    const symDef = this.getSymbol(qualifiedName);
+    const visit = (expr: SExpr) => {
+      if (!Array.isArray(expr)) return;
+      // (pin <type> <shape> (at ...) (name ...) (number "X" ...))
+      if (expr[0] === "pin" && typeof expr[1] === "string" && typeof expr[2] === "string") {
+        for (const child of expr) {
+          if (Array.isArray(child) && child[0] === "number" && typeof child[1] === "string") {
+            const num = SExpressionParser.unquote(child[1]);
+            if (!types.has(num)) types.set(num, expr[1]);
+          }
+        }
+      }
+      expr.forEach(visit);
+    };
+    if (symDef) visit(symDef.definition);
+
+    this.pinTypes.set(qualifiedName, types);
+    return types;
+  }
+
+  /**
+   * Unit of every pin of a symbol, keyed by pin number (e.g. "1" → 1, "8" → 3).
+   * Pins drawn in all units have unit 0. Only the first body style is read.
+   */
+  getPinUnits(qualifiedName: string): Map<string, number> {
+    const cached = this.pinUnits.get(qualifiedName);
+    if (cached) return cached;
+
+    const units = new Map<string, number>();
+    const symDef = this.getSymbol(qualifiedName);
+    const visit = (expr: SExpr, unit: number) => {
+      if (!Array.isArray(expr)) return;
+      if (expr[0] === "symbol" && typeof expr[1] === "string") {
+        // Unit sub-symbols are named "<Symbol>_<unit>_<body style>"
+        const match = SExpressionParser.unquote(expr[1]).match(/_(\d+)_(\d+)$/);
+        if (match && Number(match[2]) > 1) return;
+        if (match) unit = Number(match[1]);
+      }
+      if (expr[0] === "pin") {
+        for (const child of expr) {
+          if (Array.isArray(child) && child[0] === "number" && typeof child[1] === "string") {
+            const num = SExpressionParser.unquote(child[1]);
+            if (!units.has(num)) units.set(num, unit);
+          }
+        }
+      }
+      expr.forEach(child => visit(child, unit));
+    };
+    if (symDef) visit(symDef.definition, 0);
+
+    this.pinUnits.set(qualifiedName, units);
+    return units;
+  }
+
+  /** Number of units of a symbol, e.g. 3 for a dual op-amp with a separate power unit. */
+  getUnitCount(qualifiedName: string): number {
+    return Math.max(1, ...this.getPinUnits(qualifiedName).values());
+  }
+
   private ensureLibraryLoaded(libName: string): boolean {
     if (this.loadedLibraries.has(libName)) return true;
 
@@ -38,6 +38,13 @@ export class UuidManager {
     return this.uuids[key];
   }
 
+  /**
+   * Get the value stored for a key without generating one.
+   */
+  get(key: string): string | undefined {
+    return this.uuids[key];
+  }
+
   /**
    * Set a specific UUID for a key (useful for root UUID if extracted from existing file).
    */
@@ -45,6 +52,20 @@ export class UuidManager {
     this.uuids[key] = uuid;
   }
 
+  /**
+   * All keys with a stored value.
+   */
+  keys(): string[] {
+    return Object.keys(this.uuids);
+  }
+
+  /**
+   * Forget the UUID of a key.
+   */
+  delete(key: string) {
+    delete this.uuids[key];
+  }
+
   /**
    * Save the UUID mapping back to the JSON file.
    */
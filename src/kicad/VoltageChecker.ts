@@ -0,0 +1,176 @@
+import { CircuitSnapshot, Pin } from "../synth/types";
+import { Component } from "../synth/Component";
+import { Net } from "../synth/Net";
+import { CheckFinding } from "./ErcChecker";
+
+/** The voltage a net carries, and the declared rail it comes from. */
+interface RailVoltage {
+  nominal: number;
+  /** Voltage within tolerance furthest from ground; negative on negative rails. */
+  max: number;
+  source: Net;
+}
+
+/** Capacitor symbols, as in the primary properties of `Properties.ts`; not `Device:Crystal`. */
+const CAPACITOR = /^Device:C(P)?(_.*)?$/;
+
+/** Two-pin parts that pass a rail's DC voltage on unchanged. */
+const PASS_THROUGH = /^(Device:(L|FerriteBead|Fuse|Polyfuse|NetTie)|Jumper:)/;
+
+/**
+ * Checks rail voltages against pin ratings and capacitor voltage ratings.
+ *
+ * Voltages are declared on nets (`new Net({ name: "VCC", voltage: 3.3 })`)
+ * and propagated to nets connected through inductors, ferrite beads, fuses,
+ * jumpers, net ties and 0 Ω resistors. Pins carry their limits via
+ * `Pin.rated()` or the `pinRatings` component option. Capacitor ratings come
+ * from the component properties, e.g. the value "10u 16V".
+ */
+export class VoltageChecker {
+  public errors: string[] = [];
+  public warnings: string[] = [];
+  public findings: CheckFinding[] = [];
+
+  constructor(private readonly snapshot: CircuitSnapshot) {}
+
+  check(): { errors: string[]; warnings: string[]; findings: CheckFinding[] } {
+    const voltages = this.propagate();
+    this.checkPins(voltages);
+    this.checkCapacitors(voltages);
+    return { errors: this.errors, warnings: this.warnings, findings: this.findings };
+  }
+
+  private report(severity: CheckFinding["severity"], rule: string, message: string, refs: string[], nets: string[]) {
+    this.findings.push({ severity, rule, message, refs: Array.from(new Set(refs)), nets: Array.from(new Set(nets)) });
+    (severity === "error" ? this.errors : this.warnings).push(message);
+  }
+
+  private get components(): Component<any>[] {
+    return this.snapshot.components.filter(c => c.symbol !== "Device:DNC");
+  }
+
+  private pinsOf(comp: Component<any>): Pin[] {
+    return Array.from(new Set<Pin>(comp.allPins.values()));
+  }
+
+  /** Assign every net reachable from a declared rail through pass-through parts that rail's voltage. */
+  private propagate(): Map<Net, RailVoltage> {
+    const links = new Map<Net, { net: Net; comp: Component<any> }[]>();
+    const link = (a: Net, b: Net, comp: Component<any>) => {
+      if (!links.has(a)) links.set(a, []);
+      links.get(a)!.push({ net: b, comp });
+    };
+    for (const comp of this.components) {
+      const nets = this.pinsOf(comp).map(pin => pin.net).filter((net): net is Net => !!net);
+      if (nets.length === 2 && nets[0] !== nets[1] && this.isPassThrough(comp)) {
+        link(nets[0], nets[1], comp);
+        link(nets[1], nets[0], comp);
+      }
+    }
+
+    const conflicting = new Set<Component<any>>();
+    const conflict = (comp: Component<any>, a: Net, aVoltage: number, b: Net, bVoltage: number) => {
+      if (conflicting.has(comp)) return;
+      conflicting.add(comp);
+      this.report("error", "rail-conflict",
+        `Rail Conflict: ${comp.ref} connects '${a.name}' (${this.volts(aVoltage)}) to '${b.name}' (${this.volts(bVoltage)}).`,
+        [comp.ref], [a.name, b.name]);
+    };
+
+    const voltages = new Map<Net, RailVoltage>();
+    const rails = this.allNets().filter(net => net.voltage !== undefined);
+    for (const rail of rails) {
+      if (voltages.has(rail)) continue;
+      const magnitude = Math.abs(rail.voltage!) * (1 + (rail.tolerance ?? 0));
+      const voltage = { nominal: rail.voltage!, max: Math.sign(rail.voltage!) * magnitude, source: rail };
+      const queue = [rail];
+      voltages.set(rail, voltage);
+
+      while (queue.length > 0) {
+        const net = queue.shift()!;
+        for (const next of links.get(net) ?? []) {
+          const existing = voltages.get(next.net);
+          if (!existing) {
+            if (next.net.voltage !== undefined && next.net.voltage !== voltage.nominal) {
+              conflict(next.comp, net, voltage.nominal, next.net, next.net.voltage);
+              continue;
+            }
+            voltages.set(next.net, voltage);
+            queue.push(next.net);
+          } else if (existing.source !== voltage.source && existing.nominal !== voltage.nominal) {
+            conflict(next.comp, net, voltage.nominal, next.net, existing.nominal);
+          }
+        }
+      }
+    }
+    return voltages;
+  }
+
+  private checkPins(voltages: Map<Net, RailVoltage>) {
+    for (const comp of this.components) {
+      for (const pin of this.pinsOf(comp)) {
+        const voltage = pin.net ? voltages.get(pin.net) : undefined;
+        if (!voltage || !pin.rating) continue;
+
+        const { absMax, logic } = pin.rating;
+        const nets = [pin.net!.name, voltage.source.name];
+        if (absMax !== undefined && voltage.max > absMax) {
+          this.report("error", "over-voltage",
+            `Over Voltage: ${comp.ref}.${pin.name} is rated ${this.volts(absMax)} absolute maximum but '${pin.net!.name}' carries ${this.describe(voltage)}.`,
+            [comp.ref], nets);
+        } else if (logic && voltage.max > logic[1]) {
+          this.report("warning", "logic-level",
+            `Logic Level: ${comp.ref}.${pin.name} operates up to ${this.volts(logic[1])} but '${pin.net!.name}' carries ${this.describe(voltage)}.`,
+            [comp.ref], nets);
+        }
+      }
+    }
+  }
+
+  private checkCapacitors(voltages: Map<Net, RailVoltage>) {
+    for (const comp of this.components) {
+      if (!CAPACITOR.test(comp.symbol)) continue;
+      const rating = comp.properties.voltage;
+      if (rating === undefined) continue;
+
+      // Without a known voltage on the other side, assume it is ground
+      const sides = this.pinsOf(comp).map(pin => pin.net ? voltages.get(pin.net) : undefined);
+      const known = sides.filter((v): v is RailVoltage => !!v);
+      if (known.length === 0) continue;
+      const across = known.length === sides.length && known.length === 2
+        ? Math.abs(known[0].max - known[1].max)
+        : Math.max(...known.map(v => Math.abs(v.max)));
+      const worst = known.reduce((a, b) => (Math.abs(b.max) > Math.abs(a.max) ? b : a));
+
+      if (across > rating) {
+        this.report("error", "capacitor-rating",
+          `Capacitor Rating: ${comp.ref} (${comp.value}) is rated ${this.volts(rating)} but sits on ${this.describe(worst)} ('${worst.source.name}').`,
+          [comp.ref], known.map(v => v.source.name));
+      }
+    }
+  }
+
+  private allNets(): Net[] {
+    const nets = new Set<Net>(this.snapshot.nets);
+    for (const comp of this.components) {
+      for (const pin of this.pinsOf(comp)) {
+        if (pin.net) nets.add(pin.net);
+      }
+    }
+    return Array.from(nets);
+  }
+
+  private isPassThrough(comp: Component<any>): boolean {
+    if (PASS_THROUGH.test(comp.symbol)) return true;
+    return /^Device:R/.test(comp.symbol) && comp.properties.resistance === 0;
+  }
+
+  private describe(voltage: RailVoltage): string {
+    const tolerance = voltage.source.tolerance ? ` ±${Number((voltage.source.tolerance * 100).toFixed(2))} %` : "";
+    return `${this.volts(voltage.nominal)}${tolerance}`;
+  }
+
+  private volts(value: number): string {
+    return `${Number(value.toFixed(3))} V`;
+  }
+}
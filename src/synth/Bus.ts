@@ -0,0 +1,151 @@
+import { Pin, NetClassName } from "@tobisk/pcbs/types";
+import { NetClass } from "@tobisk/pcbs/NetClass";
+import { Net } from "@tobisk/pcbs/Net";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+
+/** Options for Bus constructor */
+export interface BusOptions {
+  /** Bus name. Member nets are named `${name}0` … `${name}${width - 1}`. */
+  name: string;
+  /** Number of member nets. */
+  width: number;
+  /** Net class applied to every member net. */
+  class?: NetClassName | NetClass;
+}
+
+/** Net name suffixes that KiCad recognises as the positive and negative net of a pair. */
+export type DiffPairSuffixes = readonly ["+", "-"] | readonly ["P", "N"] | readonly ["_P", "_N"];
+
+const DIFF_PAIR_SUFFIXES: ReadonlyArray<DiffPairSuffixes> = [["+", "-"], ["P", "N"], ["_P", "_N"]];
+
+/** Options for DiffPair constructor */
+export interface DiffPairOptions {
+  /** Pair name. Member nets are named `${name}${suffixes[0]}` and `${name}${suffixes[1]}`. */
+  name: string;
+  /** Suffixes of the positive and negative net. Defaults to `["+", "-"]`. */
+  suffixes?: DiffPairSuffixes;
+  /** Net class applied to both nets. */
+  class?: NetClassName | NetClass;
+}
+
+/**
+ * An ordered group of nets that is connected as a unit.
+ *
+ * A bus named `DATA` with width 8 owns the nets `DATA0` … `DATA7` and is
+ * drawn in KiCad with the bus label `DATA[0..7]`.
+ *
+ * @example
+ * ```ts
+ * const data = new Bus({ name: "DATA", width: 8 });
+ * mcu.pins.assign({ "PB[0..7]": data });
+ * latch.pins.assign({ "D[0..7]": data });
+ * ```
+ */
+export class Bus {
+  readonly name: string;
+
+  private readonly _nets: Net[];
+
+  constructor(options: BusOptions) {
+    if (!Number.isInteger(options.width) || options.width < 1) {
+      throw new Error(`Bus '${options.name}' must have a positive integer width, got ${options.width}.`);
+    }
+    this.name = options.name;
+    this._nets = Array.from({ length: options.width }, (_, i) =>
+      new Net({ name: this.memberName(options, i), class: options.class })
+    );
+    CircuitContext.current.registry.registerBus(this);
+  }
+
+  /** Name of the member net at `index`. */
+  protected memberName(options: BusOptions, index: number): string {
+    return `${options.name}${index}`;
+  }
+
+  /** Number of member nets. */
+  get width(): number {
+    return this._nets.length;
+  }
+
+  /** The member nets in order. Members merged into another net resolve to that net. */
+  get nets(): ReadonlyArray<Net> {
+    return this._nets.map(net => net.canonical);
+  }
+
+  /** Label used for the bus in KiCad, e.g. `DATA[0..7]`. */
+  get label(): string {
+    return `${this.name}[0..${this.width - 1}]`;
+  }
+
+  /** The member net at `index`. */
+  at(index: number): Net {
+    if (!Number.isInteger(index) || index < 0 || index >= this.width) {
+      throw new Error(`Bus '${this.label}' has no member ${index}.`);
+    }
+    return this.nets[index];
+  }
+
+  /** Whether `net` is one of the member nets. */
+  has(net: Net): boolean {
+    return this.nets.includes(net);
+  }
+
+  /**
+   * Connect the members in order to another bus of the same width, or to a
+   * list of pins/nets with one entry per member.
+   */
+  tie(target: Bus | ReadonlyArray<Pin | Net>): this {
+    const targets = target instanceof Bus ? target.nets : target;
+    if (targets.length !== this.width) {
+      const what = target instanceof Bus ? `bus '${target.label}'` : `${targets.length} connection(s)`;
+      throw new Error(`Width mismatch: cannot tie bus '${this.label}' (width ${this.width}) to ${what}.`);
+    }
+    targets.forEach((t, i) => this.nets[i].tie(t));
+    return this;
+  }
+}
+
+/**
+ * A differential pair: a bus of width two with a positive (`p`) and a
+ * negative (`n`) net. The net names end in the configured suffixes so that
+ * KiCad's router and DRC pick the pair up.
+ *
+ * @example
+ * ```ts
+ * const usb = new DiffPair({ name: "USB_D" });  // USB_D+ / USB_D-
+ * mcu.pins.assign({ "DP,DM": usb });
+ * ```
+ */
+export class DiffPair extends Bus {
+  /** Suffixes of the positive and negative net. */
+  readonly suffixes: DiffPairSuffixes;
+
+  constructor(options: DiffPairOptions) {
+    const suffixes = options.suffixes;
+    if (suffixes && !DIFF_PAIR_SUFFIXES.some(([p, n]) => p === suffixes[0] && n === suffixes[1])) {
+      const supported = DIFF_PAIR_SUFFIXES.map(pair => `[${pair.map(suffix => JSON.stringify(suffix)).join(", ")}]`).join(", ");
+      throw new Error(`DiffPair '${options.name}' has suffixes [${suffixes.map(suffix => JSON.stringify(suffix)).join(", ")}], which KiCad does not recognise as a pair. Use one of ${supported}.`);
+    }
+    super({ ...options, width: 2 });
+    this.suffixes = suffixes ?? ["+", "-"];
+  }
+
+  protected memberName(options: BusOptions, index: number): string {
+    const suffixes = (options as DiffPairOptions).suffixes ?? ["+", "-"];
+    return `${options.name}${suffixes[index]}`;
+  }
+
+  /** The positive net. */
+  get p(): Net {
+    return this.at(0);
+  }
+
+  /** The negative net. */
+  get n(): Net {
+    return this.at(1);
+  }
+
+  get label(): string {
+    return this.name;
+  }
+}
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Registry, registry } from "@tobisk/pcbs/Registry";
+import type { Composable } from "@tobisk/pcbs/Composable";
+
+const storage = new AsyncLocalStorage<CircuitContext>();
+
+/**
+ * The state of one circuit under construction: the registry its nets,
+ * components and composables register with, and the composable, group and
+ * subschematic new items belong to.
+ *
+ * `Schematic._generateWithCapture()` runs `generate()` in a context of its
+ * own, so several schematics can be built in one process, nested or
+ * concurrently. Code running outside any context uses the global `registry`,
+ * which also receives what a schematic generated outside any context created.
+ *
+ * @example
+ * ```ts
+ * const context = new CircuitContext();
+ * context.run(() => new VoltageDivider({ ref: "DIV1" }));
+ * context.registry.getComponents();  // the divider's resistors
+ * ```
+ */
+export class CircuitContext {
+  /** The composable whose interface is being defined. */
+  activeComposable?: Composable<any>;
+  /** Layout group set by the `@group` decorator. */
+  activeGroup?: string;
+  /** Subschematic set by the `@subschematic` decorator. */
+  activeSubschematic?: string;
+
+  constructor(readonly registry: Registry = new Registry()) {}
+
+  /** The context of the running code, or the global context outside of any. */
+  static get current(): CircuitContext {
+    return storage.getStore() ?? globalContext;
+  }
+
+  /** Whether this is the global context, used by code running outside any other. */
+  get isGlobal(): boolean {
+    return this === globalContext;
+  }
+
+  /** Run `fn` in this context. The context carries over into promises and callbacks started by `fn`. */
+  run<T>(fn: () => T): T {
+    return storage.run(this, fn);
+  }
+}
+
+const globalContext = new CircuitContext(registry);
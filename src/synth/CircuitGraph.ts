@@ -0,0 +1,174 @@
+import { CircuitSnapshot, NetClassName, Pin } from "@tobisk/pcbs/types";
+import type { Component } from "@tobisk/pcbs/Component";
+import type { Net } from "@tobisk/pcbs/Net";
+import { wildcard } from "@tobisk/pcbs/Wildcard";
+
+/** Selects nets in CircuitGraph queries. All given criteria must match. */
+export interface NetFilter {
+  /** Net name, with `*` wildcards, e.g. `"GND*"`. */
+  name?: string;
+  class?: NetClassName;
+  voltage?: number;
+}
+
+/** Options of the queries that follow connections. */
+export interface TraversalOptions {
+  /** Nets not to follow, typically power nets: `{ class: "Power" }`. */
+  except?: NetFilter;
+}
+
+/**
+ * Queries over the connectivity of a synthesized circuit: which pins and
+ * components are on a net, what a component is connected to, and how two
+ * pins are connected. DNC markers and pins marked DNC are left out.
+ *
+ * @example
+ * ```ts
+ * const graph = new CircuitGraph(schematic._generateWithCapture());
+ * graph.nets({ class: "Power" });
+ * graph.componentsOn("I2C_SDA");
+ * graph.neighbors(graph.component("U1")!, { except: { class: "Power" } });
+ * graph.pinsMatching("U1.GPIO*");
+ * ```
+ */
+export class CircuitGraph {
+  /** The components of the circuit, without DNC markers. */
+  readonly components: ReadonlyArray<Component<any>>;
+  private readonly byRef = new Map<string, Component<any>>();
+  private readonly netsByName = new Map<string, Net>();
+  private readonly netPins = new Map<Net, Pin[]>();
+  private readonly componentPins = new Map<Component<any>, Pin[]>();
+
+  constructor(snapshot: CircuitSnapshot) {
+    this.components = snapshot.components.filter(comp => comp.symbol !== "Device:DNC");
+    for (const net of snapshot.nets) this.addNet(net.canonical);
+
+    for (const comp of this.components) {
+      this.byRef.set(comp.ref, comp);
+      const pins = Array.from(new Set<Pin>(comp.allPins.values()));
+      this.componentPins.set(comp, pins);
+      for (const pin of pins) {
+        if (!pin.net || pin.isDNC) continue;
+        this.addNet(pin.net);
+        this.netPins.get(pin.net)!.push(pin);
+      }
+    }
+  }
+
+  private addNet(net: Net) {
+    if (this.netPins.has(net)) return;
+    // Nets of DNC markers are not part of the circuit
+    if (net.pins.length > 0 && net.pins.every(pin => pin.isDNC || pin.component.symbol === "Device:DNC")) return;
+    this.netPins.set(net, []);
+    if (!this.netsByName.has(net.name)) this.netsByName.set(net.name, net);
+  }
+
+  /** The component with this reference. */
+  component(ref: string): Component<any> | undefined {
+    return this.byRef.get(ref);
+  }
+
+  /** The net with this name. */
+  net(name: string): Net | undefined {
+    return this.netsByName.get(name);
+  }
+
+  /** The nets matching the filter, or all nets. */
+  nets(filter: NetFilter = {}): Net[] {
+    return Array.from(this.netPins.keys()).filter(net => matches(net, filter));
+  }
+
+  /** The pins connected to a net. */
+  pinsOn(net: Net | string): Pin[] {
+    const resolved = this.resolve(net);
+    return resolved ? [...this.netPins.get(resolved)!] : [];
+  }
+
+  /** The components with a pin on a net, each once. */
+  componentsOn(net: Net | string): Component<any>[] {
+    return Array.from(new Set(this.pinsOn(net).map(pin => this.owner(pin))));
+  }
+
+  /** The nets a component is connected to, each once. */
+  netsOf(component: Component<any>): Net[] {
+    return Array.from(new Set(this.pinsOf(component).flatMap(pin => (pin.net && this.netPins.has(pin.net) ? [pin.net] : []))));
+  }
+
+  /** How many pins a net connects. */
+  fanOut(net: Net | string): number {
+    return this.pinsOn(net).length;
+  }
+
+  /** The components sharing a net with a component. */
+  neighbors(component: Component<any>, options: TraversalOptions = {}): Component<any>[] {
+    const neighbors = new Set<Component<any>>();
+    for (const net of this.netsOf(component)) {
+      if (options.except && matches(net, options.except)) continue;
+      for (const other of this.componentsOn(net)) if (other !== component) neighbors.add(other);
+    }
+    return Array.from(neighbors);
+  }
+
+  /**
+   * Pins by `REF.PIN` pattern with `*` wildcards, e.g. `"U1.GPIO*"` or
+   * `"*.VCC"`. Pin names and numbers both match; each pin is returned once.
+   */
+  pinsMatching(pattern: string): Pin[] {
+    const dot = pattern.indexOf(".");
+    if (dot < 0) throw new Error(`Invalid pin pattern '${pattern}': expected REF.PIN, e.g. "U1.GPIO*".`);
+    const ref = wildcard(pattern.slice(0, dot));
+    const name = wildcard(pattern.slice(dot + 1));
+
+    const pins = new Set<Pin>();
+    for (const comp of this.components) {
+      if (!ref.test(comp.ref)) continue;
+      for (const [key, pin] of comp.allPins) if (name.test(key)) pins.add(pin);
+    }
+    return Array.from(pins);
+  }
+
+  /**
+   * The shortest connection between two pins: the pins passed on the way,
+   * starting with `from` and ending with `to`. Consecutive pins share a net
+   * or belong to the same component. Undefined if the pins are not connected.
+   */
+  path(from: Pin, to: Pin, options: TraversalOptions = {}): Pin[] | undefined {
+    const previous = new Map<Pin, Pin | null>([[from, null]]);
+    const queue: Pin[] = [from];
+    for (let i = 0; i < queue.length; i++) {
+      const pin = queue[i];
+      if (pin === to) {
+        const path: Pin[] = [];
+        for (let step: Pin | null = to; step; step = previous.get(step)!) path.unshift(step);
+        return path;
+      }
+      const net = pin.net && !pin.isDNC && !(options.except && matches(pin.net, options.except)) ? pin.net : undefined;
+      const next = [...(net ? this.pinsOn(net) : []), ...this.pinsOf(this.owner(pin))];
+      for (const other of next) {
+        if (previous.has(other)) continue;
+        previous.set(other, pin);
+        queue.push(other);
+      }
+    }
+    return undefined;
+  }
+
+  private pinsOf(component: Component<any>): Pin[] {
+    return this.componentPins.get(component) ?? [];
+  }
+
+  private owner(pin: Pin): Component<any> {
+    return this.byRef.get(pin.component.ref) ?? (pin.component as Component<any>);
+  }
+
+  private resolve(net: Net | string): Net | undefined {
+    const resolved = typeof net === "string" ? this.netsByName.get(net) : net.canonical;
+    return resolved && this.netPins.has(resolved) ? resolved : undefined;
+  }
+}
+
+function matches(net: Net, filter: NetFilter): boolean {
+  return (filter.name === undefined || wildcard(filter.name).test(net.name))
+    && (filter.class === undefined || net.class === filter.class)
+    && (filter.voltage === undefined || net.voltage === filter.voltage);
+}
@@ -0,0 +1,445 @@
+import {
+  CircuitSnapshot, ClearanceRule, CustomRule, DesignRule, KeepoutRule, NetClassOptions, NetSelector, PcbOptions, PcbPosition,
+  Pin, PinRating, PlacementAlgorithm, SchematicConnectionStyle, SchematicPaperSize, SchematicPosition, TrackWidthRule, VariantOverride,
+} from "@tobisk/pcbs/types";
+import { Component, CplOptions } from "@tobisk/pcbs/Component";
+import { Composable } from "@tobisk/pcbs/Composable";
+import { Net } from "@tobisk/pcbs/Net";
+import { NetClass } from "@tobisk/pcbs/NetClass";
+import { Bus, DiffPair, DiffPairSuffixes } from "@tobisk/pcbs/Bus";
+import { ComponentProperties, ComponentPropertiesOptions } from "@tobisk/pcbs/Properties";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+import { SourceLocation } from "@tobisk/pcbs/SourceLocation";
+
+/** Identifies circuit IR documents. */
+export const CIRCUIT_IR_FORMAT = "pcbs-circuit";
+/** Version of the IR written by `toJSON()`. Bumped on incompatible changes; `fromJSON()` reads this and older versions. */
+export const CIRCUIT_IR_VERSION = 1;
+
+/**
+ * A circuit as plain JSON: everything a CircuitSnapshot holds, with object
+ * references replaced by names and indexes. Written by `pcbs synth --emit-ir`
+ * for tools that want to read a design without executing TypeScript.
+ */
+export interface CircuitIR {
+  format: typeof CIRCUIT_IR_FORMAT;
+  version: number;
+  name: string;
+  size?: SchematicPaperSize;
+  connectionStyle?: SchematicConnectionStyle;
+  autoPack?: boolean;
+  author?: string;
+  revision?: string;
+  company?: string;
+  description?: string;
+  placementAlgorithm?: PlacementAlgorithm;
+  pcb?: PcbOptions;
+  variants: string[];
+  variant?: string;
+  sourceLocations?: boolean;
+  netClasses: NetClassOptions[];
+  designRules: DesignRuleIR[];
+  /** Composables containing components, parents before children. */
+  composables: ComposableIR[];
+  components: ComponentIR[];
+  nets: NetIR[];
+  buses: BusIR[];
+}
+
+export interface ComposableIR {
+  ref: string;
+  /** Class name of the composable, e.g. `VoltageDivider`. */
+  type: string;
+  /** Index of the parent in `composables`. */
+  parent?: number;
+  description?: string;
+  schematicPosition?: SchematicPosition | null;
+  pcbPosition?: PcbPosition;
+  group?: string;
+  subschematic?: string;
+  /** Sheet name if the composable is drawn on a sheet of its own (`makeSubschematic()`). */
+  sheet?: string;
+  source?: SourceLocation;
+}
+
+export interface ComponentIR {
+  ref: string;
+  symbol: string;
+  footprint: string;
+  value?: string;
+  description?: string;
+  partNo?: string;
+  fields: Record<string, string>;
+  /** Electrical properties in base units (Ω, F, H, V, W; tolerance as a fraction). */
+  properties: ComponentPropertiesOptions;
+  dnp: boolean;
+  variants: Record<string, VariantOverride>;
+  /** Index of the containing composable in `composables`. */
+  parent?: number;
+  group?: string;
+  subschematic?: string;
+  /** Position relative to the parent composable. */
+  schematicPosition?: SchematicPosition | null;
+  pcbPosition?: PcbPosition;
+  cpl?: CplOptions;
+  /** Units of a multi-unit symbol, with their pin names. */
+  units?: { name: string; pins: Record<string, string> }[];
+  pins: PinIR[];
+  source?: SourceLocation;
+}
+
+export interface PinIR {
+  /** Pin number on the symbol. */
+  number: string;
+  /** Names the pin is also known by, e.g. `VCC`. */
+  names: string[];
+  /** Name of the connected net. */
+  net?: string;
+  /** Set if the pin is marked Do Not Connect, to the reason given. */
+  dnc?: string;
+  rating?: PinRating;
+}
+
+export interface NetIR {
+  name: string;
+  class: string;
+  voltage?: number;
+  tolerance?: number;
+  /** Connected pins as `REF.PIN` in natural order, for reading. Connections are defined by the component pins. */
+  nodes: string[];
+  source?: SourceLocation;
+}
+
+export interface BusIR {
+  name: string;
+  kind: "bus" | "diffPair";
+  /** Member net names in order. */
+  nets: string[];
+  /** Suffixes of the positive and negative net of a diff pair. */
+  suffixes?: DiffPairSuffixes;
+}
+
+/** A net selector of a design rule: a name pattern, or a reference to a net, bus or net class by name. */
+export type NetSelectorIR = string | { net: string } | { bus: string } | { netClass: string };
+
+export type DesignRuleIR =
+  | (Omit<ClearanceRule, "nets" | "to"> & { nets: NetSelectorIR[]; to?: NetSelectorIR[] })
+  | (Omit<TrackWidthRule, "nets"> & { nets: NetSelectorIR[] })
+  | (Omit<KeepoutRule, "around"> & { around: { kind: "component" | "composable"; ref: string }[] })
+  | CustomRule;
+
+/** Serialize a snapshot into the circuit IR. */
+export function toJSON(snapshot: CircuitSnapshot): CircuitIR {
+  const components = snapshot.components.filter(comp => comp.symbol !== "Device:DNC");
+
+  const composables: Composable<any>[] = [];
+  const addComposable = (composable: Composable<any> | undefined) => {
+    if (!composable || composables.includes(composable)) return;
+    addComposable(composable.parent);
+    composables.push(composable);
+  };
+  components.forEach(comp => addComposable(comp.parent));
+  const composableIndex = (composable?: Composable<any>) => (composable ? composables.indexOf(composable) : undefined);
+
+  // Nets of DNC markers are implied by the pins' `dnc` entries
+  const isMarker = (pin: Pin) => pin.component.symbol === "Device:DNC";
+  const nets = new Set<Net>(snapshot.nets.filter(net => !net.pins.some(isMarker)));
+  for (const comp of components) {
+    for (const pin of comp.allPins.values()) if (pin.net && !pin.isDNC) nets.add(pin.net);
+  }
+
+  return {
+    format: CIRCUIT_IR_FORMAT,
+    version: CIRCUIT_IR_VERSION,
+    name: snapshot.name,
+    size: snapshot.size,
+    connectionStyle: snapshot.connectionStyle,
+    autoPack: snapshot.autoPack,
+    author: snapshot.author,
+    revision: snapshot.revision,
+    company: snapshot.company,
+    description: snapshot.description,
+    placementAlgorithm: snapshot.placementAlgorithm,
+    pcb: snapshot.pcb,
+    variants: snapshot.variants ?? [],
+    variant: snapshot.variant,
+    sourceLocations: snapshot.sourceLocations,
+    netClasses: (snapshot.netClasses ?? []).map(netClass => ({ ...netClass })),
+    designRules: (snapshot.designRules ?? []).map(rule => ruleToJSON(rule, snapshot)),
+    composables: composables.map(composable => ({
+      ref: composable.ref,
+      type: composable.constructor.name,
+      parent: composableIndex(composable.parent),
+      description: composable.description,
+      schematicPosition: composable.schematicPosition,
+      pcbPosition: composable.pcbPosition,
+      group: composable.group,
+      subschematic: composable.subschematic,
+      sheet: composable._subschematicName,
+      source: composable.source,
+    })),
+    components: components.map(comp => ({
+      ref: comp.ref,
+      symbol: comp.symbol,
+      footprint: comp.footprint,
+      value: comp.value,
+      description: comp.description,
+      partNo: comp.partNo,
+      fields: { ...comp.fields },
+      properties: propertiesToJSON(comp.properties),
+      dnp: comp.dnp,
+      variants: { ...comp.variants },
+      parent: composableIndex(comp.parent),
+      group: comp.group,
+      subschematic: comp.subschematic,
+      schematicPosition: comp.schematicPosition,
+      pcbPosition: comp.pcbPosition,
+      cpl: comp.cpl,
+      units: comp.units.length > 0 ? comp.units.map(unit => ({ name: unit.name, pins: unit.pinNumbers })) : undefined,
+      pins: pinsToJSON(comp),
+      source: comp.source,
+    })),
+    nets: Array.from(nets).map(net => ({
+      name: net.name,
+      class: net.class,
+      voltage: net.voltage,
+      tolerance: net.tolerance,
+      nodes: net.pins.map(pin => `${pin.component.ref}.${pin.name}`).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+      source: net.source,
+    })),
+    buses: (snapshot.buses ?? []).map(bus => ({
+      name: bus.name,
+      kind: bus instanceof DiffPair ? "diffPair" : "bus",
+      nets: bus.nets.map(net => net.name),
+      suffixes: bus instanceof DiffPair ? bus.suffixes : undefined,
+    })),
+  };
+}
+
+function propertiesToJSON(properties: ComponentProperties): ComponentPropertiesOptions {
+  const { resistance, capacitance, inductance, tolerance, voltage, power, dielectric } = properties;
+  return { resistance, capacitance, inductance, tolerance, voltage, power, dielectric };
+}
+
+function pinsToJSON(comp: Component<any>): PinIR[] {
+  const pins = new Map<string, PinIR>();
+  for (const [name, pin] of comp.allPins) {
+    if (!pins.has(pin.name)) {
+      const marker = pin.isDNC ? pin.net?.pins.find(other => other.component.symbol === "Device:DNC") : undefined;
+      pins.set(pin.name, {
+        number: pin.name,
+        names: [],
+        net: pin.isDNC ? undefined : pin.net?.name,
+        dnc: pin.isDNC ? (marker?.component as Component<any> | undefined)?.description ?? "" : undefined,
+        rating: pin.rating,
+      });
+    }
+    if (name !== pin.name) pins.get(pin.name)!.names.push(name);
+  }
+  return Array.from(pins.values());
+}
+
+function selectorToJSON(selector: NetSelector): NetSelectorIR[] {
+  const entries = (Array.isArray(selector) ? selector : [selector]) as ReadonlyArray<Net | Bus | NetClass | string>;
+  return entries.map(entry => {
+    if (entry instanceof Net) return { net: entry.canonical.name };
+    if (entry instanceof Bus) return { bus: entry.name };
+    if (entry instanceof NetClass) return { netClass: entry.name };
+    return entry;
+  });
+}
+
+function ruleToJSON(rule: DesignRule, snapshot: CircuitSnapshot): DesignRuleIR {
+  switch (rule.type) {
+    case "clearance":
+      return { ...rule, nets: selectorToJSON(rule.nets), to: rule.to === undefined ? undefined : selectorToJSON(rule.to) };
+    case "trackWidth":
+      return { ...rule, nets: selectorToJSON(rule.nets) };
+    case "keepout": {
+      const around = (Array.isArray(rule.around) ? rule.around : [rule.around]) as ReadonlyArray<{ readonly ref: string }>;
+      return {
+        ...rule,
+        around: around.map(item => ({ kind: item instanceof Composable ? "composable" : "component", ref: item.ref })),
+      };
+    }
+    default:
+      return rule;
+  }
+}
+
+/**
+ * Rebuild a snapshot from the circuit IR, e.g. to synthesize a design that
+ * was generated or edited by another tool. The objects are created in a
+ * CircuitContext of their own.
+ */
+export function fromJSON(ir: CircuitIR): CircuitSnapshot {
+  if (ir.format !== CIRCUIT_IR_FORMAT) {
+    throw new Error(`Not a circuit IR document: expected format '${CIRCUIT_IR_FORMAT}', got '${ir.format}'.`);
+  }
+  if (ir.version > CIRCUIT_IR_VERSION) {
+    throw new Error(`Circuit IR version ${ir.version} is newer than the supported version ${CIRCUIT_IR_VERSION}. Update @tobisk/pcbs.`);
+  }
+
+  const context = new CircuitContext();
+  context.registry.start();
+  try {
+    return context.run(() => restore(ir, context));
+  } finally {
+    context.registry.stop();
+  }
+}
+
+function restore(ir: CircuitIR, context: CircuitContext): CircuitSnapshot {
+  const netClasses = ir.netClasses.map(options => new NetClass(options));
+  const nets = new Map<string, Net>();
+  for (const net of ir.nets) {
+    if (nets.has(net.name)) continue;
+    const netClass = netClasses.find(c => c.name === net.class);
+    nets.set(net.name, new Net({ name: net.name, class: netClass ?? net.class, voltage: net.voltage, tolerance: net.tolerance }));
+  }
+  const netNamed = (name: string): Net => {
+    if (!nets.has(name)) nets.set(name, new Net({ name }));
+    return nets.get(name)!;
+  };
+
+  const composables: Composable<any>[] = [];
+  for (const item of ir.composables) {
+    context.activeComposable = item.parent === undefined ? undefined : composables[item.parent];
+    context.activeGroup = item.group;
+    context.activeSubschematic = item.subschematic;
+    const composable = new (restoredComposable(item.type))({
+      ref: item.ref,
+      description: item.description,
+      schematicPosition: item.schematicPosition,
+      pcbPosition: item.pcbPosition,
+    });
+    if (item.sheet) composable.makeSubschematic({ name: item.sheet });
+    composables.push(composable);
+  }
+  context.activeComposable = undefined;
+  context.activeGroup = undefined;
+  context.activeSubschematic = undefined;
+
+  const components: Component<any>[] = [];
+  for (const item of ir.components) {
+    const comp = new Component<any>({
+      symbol: item.symbol as Component["symbol"],
+      ref: item.ref,
+      footprint: item.footprint as Component["footprint"],
+      value: item.value,
+      description: item.description,
+      partNo: item.partNo,
+      fields: item.fields,
+      properties: explicitProperties(item),
+      dnp: item.dnp,
+      variants: item.variants,
+      parent: item.parent === undefined ? undefined : composables[item.parent],
+      group: item.group,
+      subschematic: item.subschematic,
+      schematicPosition: item.schematicPosition,
+      pcbPosition: item.pcbPosition,
+      cpl: item.cpl,
+      pins: pin => Object.fromEntries(item.pins.flatMap(p => p.names.map(name => [name, pin(p.number)]))),
+      units: Object.fromEntries((item.units ?? []).map(unit => [
+        unit.name,
+        (pin: (number: string) => Pin) => Object.fromEntries(Object.entries(unit.pins).map(([name, number]) => [name, pin(number)])),
+      ])),
+    });
+    for (const p of item.pins) {
+      const pin = comp.pins[p.number];
+      if (p.rating) pin.rated(p.rating);
+      if (p.net) netNamed(p.net).tie(pin);
+      if (p.dnc !== undefined) pin.dnc(p.dnc || undefined);
+    }
+    components.push(comp);
+  }
+
+  const buses = ir.buses.map(item => {
+    const bus = item.kind === "diffPair" ? new DiffPair({ name: item.name, suffixes: item.suffixes }) : new Bus({ name: item.name, width: item.nets.length });
+    // The IR's nets keep their names, the bus' own members merge into them
+    bus.nets.forEach((member, i) => netNamed(item.nets[i]).tie(member));
+    return bus;
+  });
+
+  const selector = (entries: NetSelectorIR[]): Array<Net | Bus | NetClass | string> => entries.map(entry => {
+    if (typeof entry === "string") return entry;
+    if ("net" in entry) return netNamed(entry.net);
+    if ("bus" in entry) {
+      const bus = buses.find(b => b.name === entry.bus);
+      if (!bus) throw new Error(`Design rule refers to unknown bus '${entry.bus}'.`);
+      return bus;
+    }
+    const netClass = netClasses.find(c => c.name === entry.netClass);
+    if (!netClass) throw new Error(`Design rule refers to unknown net class '${entry.netClass}'.`);
+    return netClass;
+  });
+  const designRules = ir.designRules.map((rule): DesignRule => {
+    switch (rule.type) {
+      case "clearance":
+        return { ...rule, nets: selector(rule.nets), to: rule.to === undefined ? undefined : selector(rule.to) };
+      case "trackWidth":
+        return { ...rule, nets: selector(rule.nets) };
+      case "keepout":
+        return {
+          ...rule,
+          around: rule.around.map(item => {
+            const found = item.kind === "composable" ? composables.find(c => c.ref === item.ref) : components.find(c => c.ref === item.ref);
+            if (!found) throw new Error(`Keepout rule refers to unknown ${item.kind} '${item.ref}'.`);
+            return found;
+          }),
+        };
+      default:
+        return rule;
+    }
+  });
+  if (ir.pcb?.placements) {
+    for (const comp of components) comp._usePlacements(ir.pcb.placements);
+  }
+
+  return {
+    name: ir.name,
+    size: ir.size,
+    connectionStyle: ir.connectionStyle,
+    autoPack: ir.autoPack,
+    author: ir.author,
+    revision: ir.revision,
+    company: ir.company,
+    description: ir.description,
+    components: context.registry.getComponents(),
+    nets: context.registry.getNets(),
+    buses,
+    placementAlgorithm: ir.placementAlgorithm,
+    pcb: ir.pcb,
+    netClasses,
+    designRules,
+    variants: ir.variants,
+    variant: ir.variant,
+    sourceLocations: ir.sourceLocations,
+  };
+}
+
+/** The properties the value does not already state, so the component ends up with the recorded ones. */
+function explicitProperties(item: ComponentIR): ComponentPropertiesOptions {
+  const parsed = ComponentProperties.of(item.symbol, item.value);
+  const explicit: ComponentPropertiesOptions = {};
+  for (const [key, value] of Object.entries(item.properties) as [keyof ComponentPropertiesOptions, number | string | undefined][]) {
+    if (value !== undefined && parsed[key] !== value) (explicit as Record<string, unknown>)[key] = value;
+  }
+  return explicit;
+}
+
+const restoredTypes = new Map<string, new (options: { ref: string; description?: string; schematicPosition?: SchematicPosition | null; pcbPosition?: PcbPosition }) => Composable<any>>();
+
+/** A composable class standing in for the original class of that name. */
+function restoredComposable(type: string) {
+  if (!restoredTypes.has(type)) {
+    const restored = class extends Composable<string> {
+      protected defineInterface() {
+        return {};
+      }
+    };
+    Object.defineProperty(restored, "name", { value: type });
+    restoredTypes.set(type, restored);
+  }
+  return restoredTypes.get(type)!;
+}
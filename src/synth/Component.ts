@@ -1,8 +1,26 @@
-import { Pin, SymbolName, FootprintName, PinProxy, PinAssignable, ComponentOptions, PinMapFn, SchematicPosition, PcbPosition } from "@tobisk/pcbs/types";
+import { Pin, SymbolName, FootprintName, PinProxy, PinAssignable, ComponentOptions, PinMapFn, SchematicPosition, PcbPosition, PcbPlacements, VariantOverride } from "@tobisk/pcbs/types";
 import { Composable } from "@tobisk/pcbs/Composable";
 import { KicadLibrarySymbol, KicadLibraryFootprint } from "@tobisk/pcbs/kicad-types";
 import { Net } from "@tobisk/pcbs/Net";
-import { registry } from "@tobisk/pcbs/Registry";
+import { Bus } from "@tobisk/pcbs/Bus";
+import { ComponentProperties } from "@tobisk/pcbs/Properties";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+import { SourceTrace, SourceLocation, createdAt } from "@tobisk/pcbs/SourceLocation";
+
+/**
+ * Expand a pin group key: `"D[0..3]"` → D0, D1, D2, D3 (descending ranges
+ * allowed) and `"DP,DM"` → DP, DM. Any other key is a single pin.
+ */
+function expandPinGroup(key: string): string[] {
+  const range = /^(.*)\[(\d+)\.\.(\d+)\]$/.exec(key);
+  if (range) {
+    const from = Number(range[2]);
+    const to = Number(range[3]);
+    const step = to >= from ? 1 : -1;
+    return Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => `${range[1]}${from + i * step}`);
+  }
+  return key.split(",").map(name => name.trim());
+}
 
 /**
  * Creates a Proxy that provides typed pin access on a component or composable.
@@ -37,10 +55,16 @@ export function createPinProxy<T extends string | number>(
       if (key === "assign") {
         return (map: Record<string, PinAssignable>) => {
           for (const [k, v] of Object.entries(map)) {
-            if (!pinStore.has(k)) {
-              pinStore.set(k, new Pin(owner, k));
+            const names = v instanceof Bus ? expandPinGroup(k) : [k];
+            if (v instanceof Bus && names.length !== v.width) {
+              throw new Error(`Width mismatch: pin group '${k}' of ${owner.ref} has ${names.length} pin(s) but bus '${v.label}' has width ${v.width}.`);
             }
-            pinStore.get(k)!.tie(v);
+            names.forEach((name, i) => {
+              if (!pinStore.has(name)) {
+                pinStore.set(name, new Pin(owner, name));
+              }
+              pinStore.get(name)!.tie(v instanceof Bus ? v.at(i) : v);
+            });
           }
         };
       }
@@ -55,6 +79,81 @@ export function createPinProxy<T extends string | number>(
   });
 }
 
+/** Fields derived from component options that `fields` must not override. */
+const RESERVED_FIELDS: Record<string, string> = { Reference: "ref", Value: "value", Footprint: "footprint", LCSC_Part: "partNo" };
+
+/** A component as populated in one assembly variant. */
+export interface ResolvedVariant {
+  dnp: boolean;
+  value?: string;
+  partNo?: string;
+  properties?: ComponentProperties;
+}
+
+/**
+ * Resolve how a component is populated in `variant`: its `dnp` option and
+ * value/partNo, overridden by the variant's entry. Without a variant, only
+ * the component's own options apply.
+ */
+export function resolveVariant(
+  component: Pick<Component<any>, "symbol" | "value" | "partNo"> & { dnp?: boolean; variants?: Readonly<Record<string, VariantOverride>>; properties?: ComponentProperties },
+  variant?: string
+): ResolvedVariant {
+  const override = (variant !== undefined ? component.variants?.[variant] : undefined) ?? {};
+  const value = override.value ?? component.value;
+  return {
+    dnp: override.dnp ?? component.dnp ?? false,
+    value,
+    partNo: override.partNo ?? component.partNo,
+    properties: override.value !== undefined ? component.properties?.withValue(component.symbol, value) : component.properties,
+  };
+}
+
+/** Pins of a unit: its named pins in front of the pins of the whole component. */
+class UnitPinStore extends Map<string, Pin> {
+  constructor(private readonly names: ReadonlyMap<string, Pin>, private readonly component: Map<string, Pin>) {
+    super();
+  }
+
+  get(key: string): Pin | undefined {
+    return this.names.get(key) ?? this.component.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.names.has(key) || this.component.has(key);
+  }
+
+  set(key: string, pin: Pin): this {
+    this.component.set(key, pin);
+    return this;
+  }
+}
+
+/**
+ * One unit of a multi-unit symbol, e.g. amplifier A of a dual op-amp or one
+ * gate of a 74HC00. Its pins are pins of the component, so all units share
+ * the reference and end up in one netlist component; the unit's pin map only
+ * gives them names, which may repeat across units.
+ */
+export class ComponentUnit<PinNames extends string | number = string> {
+  /** Unit number as used by KiCad: A = 1, B = 2, … */
+  readonly number: number;
+  readonly pins: PinProxy<PinNames>;
+
+  constructor(readonly component: Component<any, any>, readonly name: string, private readonly names: ReadonlyMap<string, Pin>, store: Map<string, Pin>) {
+    if (!/^[A-Z]$/.test(name)) {
+      throw new Error(`Unit '${name}' of ${component.ref} must be a unit letter (A, B, …).`);
+    }
+    this.number = name.charCodeAt(0) - 64;
+    this.pins = createPinProxy<PinNames>(component, new UnitPinStore(names, store));
+  }
+
+  /** Pin numbers by the names given in the `units` option. */
+  get pinNumbers(): Record<string, string> {
+    return Object.fromEntries(Array.from(this.names, ([name, pin]) => [name, pin.name]));
+  }
+}
+
 export interface CplOptions {
   x?: number;
   y?: number;
@@ -92,9 +191,22 @@ export interface CplOptions {
  * esp.pins.VCC = vcc3v3;
  * ```
  */
-export class Component<PinNames extends string | number = number> {
-  static activeGroup?: string = undefined;
-  static activeSubschematic?: string = undefined;
+export class Component<PinNames extends string | number = number, UnitPinNames extends string = string> {
+  /** Layout group of new components, set by the `@group` decorator. Scoped to the current CircuitContext. */
+  static get activeGroup(): string | undefined {
+    return CircuitContext.current.activeGroup;
+  }
+  static set activeGroup(group: string | undefined) {
+    CircuitContext.current.activeGroup = group;
+  }
+
+  /** Subschematic of new components, set by the `@subschematic` decorator. Scoped to the current CircuitContext. */
+  static get activeSubschematic(): string | undefined {
+    return CircuitContext.current.activeSubschematic;
+  }
+  static set activeSubschematic(subschematic: string | undefined) {
+    CircuitContext.current.activeSubschematic = subschematic;
+  }
 
   readonly symbol: SymbolName;
   readonly ref: string;
@@ -102,6 +214,14 @@ export class Component<PinNames extends string | number = number> {
   readonly description?: string;
   readonly partNo?: string;
   readonly value?: string;
+  /** Additional symbol fields such as `MPN` or `Manufacturer`. */
+  readonly fields: Readonly<Record<string, string>>;
+  /** Electrical properties parsed from `value` and the `properties` option. */
+  readonly properties: ComponentProperties;
+  /** Not populated unless a variant says otherwise. */
+  readonly dnp: boolean;
+  /** Overrides per assembly variant. Use `resolveVariant()` to apply them. */
+  readonly variants: Readonly<Record<string, VariantOverride>>;
   readonly schematicPosition?: SchematicPosition | null;
   readonly pcbPosition?: PcbPosition;
   readonly parent?: Composable<any>;
@@ -109,22 +229,43 @@ export class Component<PinNames extends string | number = number> {
   readonly subschematic?: string;
   readonly cpl?: CplOptions;
 
+  /** Footprint positions pulled from the board, see `PcbOptions.placements`. */
+  private _placements?: PcbPlacements;
+
   /** Pin storage */
   private _pinStore = new Map<string, Pin>();
 
+  /** Call site of the constructor */
+  private readonly _sourceTrace: SourceTrace;
+
+  /** Units addressed by letter, see `unit()`. */
+  private _units = new Map<string, ComponentUnit<UnitPinNames>>();
+
   /** Proxy-based pin access: get returns Pin, set accepts Pin | Net */
   readonly pins: PinProxy<PinNames>;
 
   constructor(options: ComponentOptions & {
     pins?: PinMapFn<PinNames & string>;
+    /** Pin names per unit of a multi-unit symbol, keyed by unit letter. */
+    units?: Record<string, PinMapFn<UnitPinNames>>;
     cpl?: CplOptions;
   }) {
+    this._sourceTrace = new SourceTrace(new.target);
     this.symbol = options.symbol;
     this.ref = options.ref;
     this.footprint = options.footprint;
     this.description = options.description;
     this.partNo = options.partNo;
     this.value = options.value;
+    for (const name of Object.keys(options.fields ?? {})) {
+      if (RESERVED_FIELDS[name]) {
+        throw new Error(`Field '${name}' of ${options.ref} is set by the '${RESERVED_FIELDS[name]}' option, not by fields.`);
+      }
+    }
+    this.fields = { ...options.fields };
+    this.properties = ComponentProperties.of(options.symbol, options.value, options.properties);
+    this.dnp = options.dnp ?? false;
+    this.variants = { ...options.variants };
 
     if (options.pos?.r !== undefined) {
       this.schematicPosition = { x: options.pos.x, y: options.pos.y, rotation: options.pos.r };
@@ -140,16 +281,16 @@ export class Component<PinNames extends string | number = number> {
     this.subschematic = options.subschematic || Component.activeSubschematic;
     this.cpl = options.cpl;
 
+    const pinGetter = (n: string | number): Pin => {
+      const key = String(n);
+      if (!this._pinStore.has(key)) {
+        this._pinStore.set(key, new Pin(this, key));
+      }
+      return this._pinStore.get(key)!;
+    };
+
     // If a pin mapping function is provided, call it to create named aliases
     if (options.pins) {
-      const pinGetter = (n: string | number): Pin => {
-        const key = String(n);
-        if (!this._pinStore.has(key)) {
-          this._pinStore.set(key, new Pin({ ref: this.ref, symbol: this.symbol }, key));
-        }
-        return this._pinStore.get(key)!;
-      };
-
       const mapping = options.pins(pinGetter);
 
       // Register named aliases pointing to the same Pin objects
@@ -158,12 +299,26 @@ export class Component<PinNames extends string | number = number> {
       }
     }
 
-    this.pins = createPinProxy<PinNames>(
-      { ref: this.ref, symbol: this.symbol },
-      this._pinStore
-    );
+    // Unit pin names stay with their unit, as units usually share them
+    for (const [name, mapFn] of Object.entries(options.units ?? {})) {
+      const names = new Map(Object.entries<Pin>(mapFn(pinGetter)));
+      this._units.set(name, new ComponentUnit<UnitPinNames>(this, name, names, this._pinStore));
+    }
 
-    registry.registerComponent(this);
+    // Pins reference the component itself so that annotated refs are visible through them
+    this.pins = createPinProxy<PinNames>(this, this._pinStore);
+
+    // Pins are numbers, or names of the pin map; without a map, any name the symbol uses
+    const mapped = !!options.pins || !!options.units;
+    for (const [name, rating] of Object.entries(options.pinRatings ?? {})) {
+      const pin = this._pinStore.get(name) ?? (!mapped || /^\d+$/.test(name) ? pinGetter(name) : undefined);
+      if (!pin) {
+        throw new Error(`pinRatings of ${options.ref}${createdAt(this)} names unknown pin '${name}'. Pins: ${Array.from(this._pinStore.keys()).join(", ")}.`);
+      }
+      pin.rated(rating);
+    }
+
+    CircuitContext.current.registry.registerComponent(this);
   }
 
   /**
@@ -176,6 +331,63 @@ export class Component<PinNames extends string | number = number> {
     return this;
   }
 
+  /**
+   * A unit of a multi-unit symbol by letter. Units declared with the `units`
+   * option have named pins; others give access to the pins by number.
+   *
+   * @example
+   * ```ts
+   * const opamp = new Component({
+   *   symbol: "Amplifier_Operational:LM358", ref: "U1", footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm",
+   *   units: {
+   *     A: (pin) => ({ OUT: pin(1), "-": pin(2), "+": pin(3) }),
+   *     B: (pin) => ({ OUT: pin(7), "-": pin(6), "+": pin(5) }),
+   *   },
+   * });
+   * opamp.unit("A").pins.OUT.tie(opamp.unit("A").pins["-"]);
+   * ```
+   */
+  unit(name: string): ComponentUnit<UnitPinNames> {
+    if (!this._units.has(name)) {
+      this._units.set(name, new ComponentUnit<UnitPinNames>(this, name, new Map(), this._pinStore));
+    }
+    return this._units.get(name)!;
+  }
+
+  /** Units declared with the `units` option or addressed with `unit()`. */
+  get units(): ReadonlyArray<ComponentUnit<UnitPinNames>> {
+    return Array.from(this._units.values());
+  }
+
+  /** Where in the design code this component was created. */
+  get source(): SourceLocation | undefined {
+    return this._sourceTrace.location;
+  }
+
+  /** Whether the reference still needs a number, e.g. "R" or "R?". */
+  get isUnannotated(): boolean {
+    return !/\d$/.test(this.ref);
+  }
+
+  /** @internal Assign the reference chosen by the annotator. */
+  _annotate(ref: string): void {
+    (this as { ref: string }).ref = ref;
+  }
+
+  /** @internal Use the footprint positions pulled from the board. */
+  _usePlacements(placements: PcbPlacements): void {
+    this._placements = placements;
+  }
+
+  /**
+   * Position pulled from the board for the component's reference, relative
+   * to its parent composable. Looked up by the current reference, so it
+   * applies to references numbered by the annotator as well.
+   */
+  get placement(): PcbPosition | undefined {
+    return this._placements?.[this.ref];
+  }
+
   /** Get all defined pins */
   get allPins(): ReadonlyMap<string, Pin> {
     return this._pinStore;
@@ -206,7 +418,7 @@ export class Component<PinNames extends string | number = number> {
 
   /** Get absolute PCB position (recursive) */
   get absolutePcbPosition(): PcbPosition {
-    const local = this.pcbPosition || { x: 0, y: 0, rotation: 0 };
+    const local = this.pcbPosition || this.placement || { x: 0, y: 0, rotation: 0 };
     const side = local.side || this.parent?.absolutePcbPosition.side || "front";
 
     if (!this.parent) return { ...local, side };
@@ -1,7 +1,8 @@
 import { Pin, ComposableOptions, PinProxy, PinAssignable, SchematicPosition, PcbPosition } from "@tobisk/pcbs/types";
 import { Net } from "@tobisk/pcbs/Net";
 import { Component, createPinProxy } from "@tobisk/pcbs/Component";
-import { registry } from "@tobisk/pcbs/Registry";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+import { SourceTrace, SourceLocation } from "@tobisk/pcbs/SourceLocation";
 
 export type ExtendedComposableOptions<T extends Record<string, any>> = ComposableOptions & T
 
@@ -50,16 +51,26 @@ export abstract class Composable<InterfaceNets extends string = string> {
   /** @internal Name for the subschematic if this composable is to be rendered separately */
   _subschematicName?: string;
 
-  /** @internal The current composable being initialized — used for parent assignment */
-  static activeComposable: Composable<any> | undefined = undefined;
+  /** @internal The current composable being initialized — used for parent assignment. Scoped to the current CircuitContext. */
+  static get activeComposable(): Composable<any> | undefined {
+    return CircuitContext.current.activeComposable;
+  }
+  static set activeComposable(composable: Composable<any> | undefined) {
+    CircuitContext.current.activeComposable = composable;
+  }
 
   /** Pin storage — populated by defineInterface() on first access */
   private _pinStore = new Map<string, Pin>();
   private _interfaceInitialized = false;
   private _pinProxy: PinProxy<InterfaceNets>;
   private _layout?: import("./types").ILayout;
+  /** Call site of the constructor */
+  private readonly _sourceTrace: SourceTrace;
+  /** The circuit this composable belongs to; its interface is defined in it, even when first accessed elsewhere. */
+  private readonly _context = CircuitContext.current;
 
   constructor(options: ComposableOptions) {
+    this._sourceTrace = new SourceTrace(new.target);
     this.ref = options.ref;
     this.description = options.description;
     if (options.pos) {
@@ -79,7 +90,12 @@ export abstract class Composable<InterfaceNets extends string = string> {
       this._pinStore
     );
 
-    registry.registerComposable(this);
+    this._context.registry.registerComposable(this);
+  }
+
+  /** Where in the design code this composable was created. */
+  get source(): SourceLocation | undefined {
+    return this._sourceTrace.location;
   }
 
   /**
@@ -109,6 +125,13 @@ export abstract class Composable<InterfaceNets extends string = string> {
   private _ensureInterface(): void {
     if (this._interfaceInitialized) return;
     this._interfaceInitialized = true;
+    if (CircuitContext.current !== this._context) {
+      return this._context.run(() => this._defineInterface());
+    }
+    this._defineInterface();
+  }
+
+  private _defineInterface(): void {
 
     const prevActive = Composable.activeComposable;
     Composable.activeComposable = this;
@@ -118,7 +141,7 @@ export abstract class Composable<InterfaceNets extends string = string> {
       iface = this.defineInterface();
     } finally {
       // Get all items from registry and filter for direct children to maintain order
-      const children = registry.getItems().filter((c: any) => c.parent === this);
+      const children = this._context.registry.getItems().filter((c: any) => c.parent === this);
 
       Composable.activeComposable = prevActive;
 
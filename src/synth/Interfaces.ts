@@ -0,0 +1,241 @@
+import { Pin, PinProxy } from "@tobisk/pcbs/types";
+
+/**
+ * Signal direction of an interface member, seen from the port's owner.
+ * Tri-state outputs may share a line with each other, but not with an output.
+ */
+export type PortDirection = "in" | "out" | "tristate" | "bidirectional";
+
+/** Anything exposing pins by name: a Component, Module or Composable. */
+export interface PortOwner<P extends string = string> {
+  readonly ref: string;
+  readonly pins: PinProxy<P>;
+}
+
+/** Options for InterfaceType constructor */
+export interface InterfaceTypeOptions<M extends string, R extends string> {
+  /** Members every port must provide. */
+  members: readonly M[];
+  /** Members a port may provide. They are only connected when both ends map them. */
+  optional?: readonly M[];
+  /** Direction of every member for each role. The first role is the default. */
+  roles: Record<R, Record<NoInfer<M>, PortDirection>>;
+  /** Members connected crosswise, e.g. UART `{ TX: "RX", RX: "TX" }`. Others connect to the same member. */
+  crossed?: Partial<Record<NoInfer<M>, NoInfer<M>>>;
+  /** Members selecting a single peer, e.g. SPI chip select. They are only connected between two ports. */
+  dedicated?: readonly NoInfer<M>[];
+  /** Roles that may occur at most once per connection, e.g. a USB host. */
+  exclusive?: readonly NoInfer<R>[];
+  /** Only two ports may be connected. */
+  pointToPoint?: boolean;
+}
+
+/** Options for InterfaceType.port() */
+export interface PortOptions<M extends string, R extends string, P extends string = string> {
+  /** Role of the owner on this interface. Defaults to the interface's first role. */
+  role?: R;
+  /** Owner pins per member. Required members default to the pin of the same name. */
+  pins?: Partial<Record<M, P>>;
+  /** Port name used in messages. Defaults to the lower-case interface name. */
+  name?: string;
+}
+
+/**
+ * A kind of multi-signal interface such as I2C or SPI: its members, the
+ * direction of every member per role and how members pair up between ports.
+ */
+export class InterfaceType<M extends string = string, R extends string = string> {
+  constructor(readonly name: string, private readonly options: InterfaceTypeOptions<M, R>) {}
+
+  /** All members, required first. */
+  get members(): M[] {
+    return [...this.options.members, ...(this.options.optional ?? [])];
+  }
+
+  get roles(): R[] {
+    return Object.keys(this.options.roles) as R[];
+  }
+
+  get pointToPoint(): boolean {
+    return this.options.pointToPoint ?? false;
+  }
+
+  get exclusive(): readonly R[] {
+    return this.options.exclusive ?? [];
+  }
+
+  get dedicated(): readonly M[] {
+    return this.options.dedicated ?? [];
+  }
+
+  /** The member of the other port that `member` connects to. */
+  peer(member: M): M {
+    return this.options.crossed?.[member] ?? member;
+  }
+
+  direction(role: R, member: M): PortDirection {
+    return this.options.roles[role][member];
+  }
+
+  /**
+   * Declare a port of this interface on a component or composable. Pins are
+   * resolved on first use, so a Composable's interface stays lazy.
+   *
+   * @example
+   * ```ts
+   * class Sensor extends Composable<"VCC" | "GND" | "SDA" | "SCL"> {
+   *   readonly i2c = I2C.port(this);
+   * }
+   * ```
+   */
+  port<P extends string>(owner: PortOwner<P>, options: PortOptions<M, R, P> = {}): InterfacePort<M, R, P> {
+    const role = options.role ?? this.roles[0];
+    if (!this.roles.includes(role)) {
+      throw new Error(`${this.name} has no role '${role}'. Expected one of: ${this.roles.join(", ")}.`);
+    }
+    const pinNames: Partial<Record<M, string>> = {};
+    for (const member of this.options.members) pinNames[member] = member;
+    Object.assign(pinNames, options.pins);
+    return new InterfacePort(this, owner, role, pinNames, options.name ?? this.name.toLowerCase());
+  }
+}
+
+/** A typed interface port on a component or composable. Connect ports with `connect()`. */
+export class InterfacePort<M extends string = string, R extends string = string, P extends string = string> {
+  constructor(
+    readonly type: InterfaceType<M, R>,
+    readonly owner: PortOwner<P>,
+    readonly role: R,
+    private readonly pinNames: Partial<Record<M, string>>,
+    readonly name: string,
+  ) {}
+
+  /** Whether the port provides `member`. */
+  has(member: M): boolean {
+    return this.pinNames[member] !== undefined;
+  }
+
+  /** The owner pin of `member`. */
+  pin(member: M): Pin {
+    const name = this.pinNames[member];
+    if (name === undefined) {
+      throw new Error(`${this} has no ${this.type.name} member '${member}'.`);
+    }
+    return this.owner.pins[name as P];
+  }
+
+  direction(member: M): PortDirection {
+    return this.type.direction(this.role, member);
+  }
+
+  toString(): string {
+    return `${this.owner.ref}.${this.name}`;
+  }
+}
+
+/**
+ * Connect interface ports of the same type member by member. Members pair up
+ * as defined by the interface (MOSI to MOSI, TX to RX), and every resulting
+ * connection is checked before anything is tied: it may have at most one
+ * output (or any number of tri-state outputs) and must not consist of inputs
+ * only. Dedicated members such as SPI chip select are left unconnected when
+ * more than two ports are connected; wire them per peer.
+ *
+ * @example
+ * ```ts
+ * connect(mcu.i2c, sensor.i2c, eeprom.i2c);
+ * connect(mcu.uart, gps.uart);  // TX → RX, RX ← TX
+ * connect(mcu.spi, sensor.spi, flash.spi);
+ * mcu.pins.CS0.tie(sensor.pins.CS);
+ * mcu.pins.CS1.tie(flash.pins.CS);
+ * ```
+ */
+export function connect(...ports: InterfacePort<any, any, any>[]): void {
+  if (ports.length < 2) {
+    throw new Error(`connect() needs at least two interface ports, got ${ports.length}.`);
+  }
+
+  const [first, ...others] = ports;
+  const type = first.type as InterfaceType;
+  for (const port of others) {
+    if (port.type !== type) {
+      throw new Error(`Cannot connect ${first} (${type.name}) to ${port} (${port.type.name}).`);
+    }
+  }
+  if (type.pointToPoint && ports.length > 2) {
+    throw new Error(`${type.name} is point-to-point, cannot connect ${ports.length} ports: ${ports.join(", ")}.`);
+  }
+  for (const role of type.exclusive) {
+    const holders = ports.filter(port => port.role === role);
+    if (holders.length > 1) {
+      throw new Error(`${type.name} allows only one ${role} per connection, got ${holders.join(", ")}.`);
+    }
+  }
+
+  const connections = type.members
+    .filter(member => ports.length === 2 || !type.dedicated.includes(member))
+    .map(member => [
+      { port: first, member },
+      ...others.map(port => ({ port, member: type.peer(member) })),
+    ].filter(end => end.port.has(end.member)))
+    .filter(ends => ends.length > 1 && ends[0].port === first);
+
+  for (const ends of connections) {
+    const describe = (list: typeof ends) => list.map(end => `${end.port}.${end.member} (${end.port.direction(end.member)})`).join(", ");
+    const drivers = ends.filter(end => ["out", "tristate"].includes(end.port.direction(end.member)));
+    if (drivers.length > 1 && drivers.some(end => end.port.direction(end.member) === "out")) {
+      throw new Error(`Direction conflict: ${type.name} ${ends[0].member} is driven by multiple outputs: ${describe(drivers)}.`);
+    }
+    if (ends.every(end => end.port.direction(end.member) === "in")) {
+      throw new Error(`Direction conflict: ${type.name} ${ends[0].member} connects inputs only: ${describe(ends)}.`);
+    }
+  }
+
+  for (const [head, ...rest] of connections) {
+    const pin = head.port.pin(head.member);
+    for (const end of rest) pin.tie(end.port.pin(end.member));
+  }
+}
+
+/** I²C: SDA and SCL are open-drain and connect straight through. */
+export const I2C = new InterfaceType("I2C", {
+  members: ["SDA", "SCL"],
+  roles: {
+    controller: { SDA: "bidirectional", SCL: "bidirectional" },
+    target: { SDA: "bidirectional", SCL: "bidirectional" },
+  },
+});
+
+/** SPI: one controller drives SCK, MOSI and CS; peripherals share MISO. Each peripheral has a CS line of its own. */
+export const SPI = new InterfaceType("SPI", {
+  members: ["SCK", "MOSI", "MISO"],
+  optional: ["CS"],
+  roles: {
+    controller: { SCK: "out", MOSI: "out", MISO: "in", CS: "out" },
+    peripheral: { SCK: "in", MOSI: "in", MISO: "tristate", CS: "in" },
+  },
+  exclusive: ["controller"],
+  dedicated: ["CS"],
+});
+
+/** UART: point-to-point, TX connects to RX and RTS to CTS. */
+export const UART = new InterfaceType("UART", {
+  members: ["TX", "RX"],
+  optional: ["RTS", "CTS"],
+  roles: {
+    device: { TX: "out", RX: "in", RTS: "out", CTS: "in" },
+  },
+  crossed: { TX: "RX", RX: "TX", RTS: "CTS", CTS: "RTS" },
+  pointToPoint: true,
+});
+
+/** USB 2.0 data lines: D+ and D- connect straight through between one host and one device. */
+export const USB = new InterfaceType("USB", {
+  members: ["DP", "DM"],
+  roles: {
+    device: { DP: "bidirectional", DM: "bidirectional" },
+    host: { DP: "bidirectional", DM: "bidirectional" },
+  },
+  exclusive: ["host", "device"],
+  pointToPoint: true,
+});
@@ -1,5 +1,7 @@
-import { Pin, NetOptions, NetClass, PinAssignable } from "@tobisk/pcbs/types";
-import { registry } from "@tobisk/pcbs/Registry";
+import { Pin, NetOptions, NetClassName, PinAssignable } from "@tobisk/pcbs/types";
+import { NetClass } from "@tobisk/pcbs/NetClass";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+import { SourceTrace, SourceLocation, createdAt } from "@tobisk/pcbs/SourceLocation";
 
 /**
  * Represents an electrical net (connection) in a circuit.
@@ -14,27 +16,77 @@ import { registry } from "@tobisk/pcbs/Registry";
  */
 export class Net {
   readonly name: string;
-  readonly class: NetClass;
-
-  /** All pins connected to this net */
+  readonly class: NetClassName;
+  /** Design rules of the net's class, when given as a NetClass. */
+  readonly netClass?: NetClass;
+  /** Nominal rail voltage in volts. */
+  readonly voltage?: number;
+  /** Relative voltage tolerance, e.g. 0.05 for ±5 %. */
+  readonly tolerance?: number;
+
+  /**
+   * Nets form a disjoint-set forest: a net tied into another points to it,
+   * and only the root of each tree (the canonical net) holds the pins.
+   * Merging is near-constant time, and pins resolve their net on access.
+   */
+  private _parent: Net = this;
+  /** Pins of the set, held by the canonical net only. */
   private _pins: Pin[] = [];
+  /** How many of `_pins` belong to DNC markers. */
+  private _dncPins = 0;
+  /** Call site of the constructor */
+  private readonly _sourceTrace: SourceTrace;
 
   constructor(options: NetOptions) {
+    this._sourceTrace = new SourceTrace(new.target);
     this.name = options.name;
-    this.class = options.class ?? "Signal";
-    registry.registerNet(this);
+    if (options.class instanceof NetClass) {
+      this.class = options.class.name;
+      this.netClass = options.class;
+    } else {
+      this.class = options.class ?? "Signal";
+    }
+    this.voltage = options.voltage;
+    this.tolerance = options.tolerance;
+    CircuitContext.current.registry.registerNet(this);
+  }
+
+  /** Where in the design code this net was created. */
+  get source(): SourceLocation | undefined {
+    return this._sourceTrace.location;
+  }
+
+  /**
+   * The net this one resolves to after merges: itself, or the net it was
+   * (directly or indirectly) tied into.
+   */
+  get canonical(): Net {
+    let root: Net = this;
+    while (root._parent !== root) root = root._parent;
+    // Path compression, so later lookups take one step
+    let net: Net = this;
+    while (net._parent !== root) {
+      const next = net._parent;
+      net._parent = root;
+      net = next;
+    }
+    return root;
   }
 
   /** Connect a pin (or another net's pin reference) to this net */
   tie(pinOrNet: PinAssignable): void {
     if (pinOrNet === null || pinOrNet === undefined) return;
 
+    // A net that was merged away acts for the net it was merged into
+    const self = this.canonical;
+    if (self !== this) return self.tie(pinOrNet);
+
     let otherNet: Net | null = null;
     let pin: Pin | null = null;
 
     if (pinOrNet instanceof Net) {
-      if (pinOrNet === this) return;
-      otherNet = pinOrNet;
+      otherNet = pinOrNet.canonical;
+      if (otherNet === this) return;
     } else {
       pin = pinOrNet as Pin;
       if (pin.net === this) return;
@@ -45,29 +97,36 @@ export class Net {
 
     if (otherNet) {
       // Check if merging these nets would violate DNC rules
-      const thisIsDnc = this._pins.some(p => p.component.symbol === "Device:DNC");
-      const otherIsDnc = otherNet.pins.some(p => p.component.symbol === "Device:DNC");
+      const thisIsDnc = this._dncPins > 0;
+      const otherIsDnc = otherNet._dncPins > 0;
 
       if (thisIsDnc || otherIsDnc) {
-        const thisHasFunctional = this._pins.some(p => p.component.symbol !== "Device:DNC");
-        const otherHasFunctional = otherNet.pins.some(p => p.component.symbol !== "Device:DNC");
+        const thisHasFunctional = this._pins.length > this._dncPins;
+        const otherHasFunctional = otherNet._pins.length > otherNet._dncPins;
 
         if ((thisIsDnc && otherHasFunctional) || (otherIsDnc && thisHasFunctional)) {
-          throw new Error(`Cannot merge nets: one is a DNC (Do Not Connect) net and the other has functional connections.`);
+          throw new Error(`Cannot merge nets "${this.name}"${createdAt(this)} and "${otherNet.name}"${createdAt(otherNet)}: one is a DNC (Do Not Connect) net and the other has functional connections.`);
         }
       }
 
-      // Merge: transfer all pins from otherNet to this net
-      const otherPins = [...otherNet.pins];
-      for (const p of otherPins) {
-        p._setNet(this);
-        if (!this._pins.includes(p)) {
-          this._pins.push(p);
-        }
+      // Two rails of different voltage must not be shorted
+      if (this.voltage !== undefined && otherNet.voltage !== undefined && this.voltage !== otherNet.voltage) {
+        throw new Error(`Cannot merge nets "${this.name}" (${this.voltage} V)${createdAt(this)} and "${otherNet.name}" (${otherNet.voltage} V)${createdAt(otherNet)}: they are different rails.`);
+      }
+      if (this.voltage === undefined && otherNet.voltage !== undefined) {
+        (this as { voltage?: number }).voltage = otherNet.voltage;
+        (this as { tolerance?: number }).tolerance = otherNet.tolerance;
       }
 
-      // Remove the old net from registry
-      registry.unregisterNet(otherNet);
+      // Merge: the other net now resolves to this one. Append the shorter pin list to the longer one.
+      if (otherNet._pins.length > this._pins.length) {
+        [this._pins, otherNet._pins] = [otherNet._pins, this._pins];
+      }
+      for (const p of otherNet._pins) this._pins.push(p);
+      this._dncPins += otherNet._dncPins;
+      otherNet._pins = [];
+      otherNet._dncPins = 0;
+      otherNet._parent = this;
       return;
     }
 
@@ -76,28 +135,26 @@ export class Net {
 
     // Check DNC rule for single pin connection
     const isDncPin = pin.component.symbol === "Device:DNC";
-    const dncPins = this._pins.filter(p => p.component.symbol === "Device:DNC");
-    const functionalPins = this._pins.filter(p => p.component.symbol !== "Device:DNC");
+    const functionalPins = this._pins.length - this._dncPins;
 
     if (isDncPin) {
-      if (functionalPins.length > 1) {
-        throw new Error(`Cannot connect DNC pin to net "${this.name}" because it has multiple functional connections.`);
+      if (functionalPins > 1) {
+        throw new Error(`Cannot connect DNC pin to net "${this.name}"${createdAt(this)} because it has multiple functional connections.`);
       }
     } else {
-      if (dncPins.length > 0 && functionalPins.length > 0) {
-        throw new Error(`Cannot connect pin "${pin.component.ref}.${pin.name}" to net "${this.name}" because it already has a functional connection and is marked as DNC.`);
+      if (this._dncPins > 0 && functionalPins > 0) {
+        throw new Error(`Cannot connect pin "${pin.component.ref}.${pin.name}"${createdAt(pin.component)} to net "${this.name}"${createdAt(this)} because it already has a functional connection and is marked as DNC.`);
       }
     }
 
     // Update the pin and add it to our list.
     pin._setNet(this);
-    if (!this._pins.includes(pin)) {
-      this._pins.push(pin);
-    }
+    this._pins.push(pin);
+    if (isDncPin) this._dncPins++;
   }
 
-  /** Get all pins connected to this net (read-only) */
+  /** Get all pins connected to this net, including those of nets merged into it (read-only) */
   get pins(): ReadonlyArray<Pin> {
-    return this._pins;
+    return this.canonical._pins;
   }
 }
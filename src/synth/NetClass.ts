@@ -0,0 +1,36 @@
+import { NetClassOptions } from "@tobisk/pcbs/types";
+
+/**
+ * A named set of PCB design rules shared by a group of nets. Net classes are
+ * written to the `net_settings` of the generated `.kicad_pro`, and every net
+ * using one is assigned to it in the netlist. All dimensions are in
+ * millimetres; rules left out fall back to KiCad's `Default` class.
+ *
+ * @example
+ * ```ts
+ * const power = new NetClass({ name: "Power", trackWidth: 0.5, viaDiameter: 0.8, viaDrill: 0.4 });
+ * const vcc = new Net({ name: "VCC", class: power });
+ * ```
+ */
+export class NetClass {
+  readonly name: string;
+  readonly trackWidth?: number;
+  readonly clearance?: number;
+  readonly viaDiameter?: number;
+  readonly viaDrill?: number;
+  readonly diffPairWidth?: number;
+  readonly diffPairGap?: number;
+
+  constructor(options: NetClassOptions) {
+    if (options.name === "Default") {
+      throw new Error(`Net class 'Default' is reserved for KiCad's default rules.`);
+    }
+    this.name = options.name;
+    this.trackWidth = options.trackWidth;
+    this.clearance = options.clearance;
+    this.viaDiameter = options.viaDiameter;
+    this.viaDrill = options.viaDrill;
+    this.diffPairWidth = options.diffPairWidth;
+    this.diffPairGap = options.diffPairGap;
+  }
+}
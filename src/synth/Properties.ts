@@ -0,0 +1,217 @@
+/** A physical quantity: a number in base units, or engineering notation such as "4k7", "100nF" or "1/4W". */
+export type Quantity = number | string;
+
+/** Options for ComponentProperties constructor */
+export interface ComponentPropertiesOptions {
+  /** Resistance in Ω, e.g. `"10k"`, `"4R7"`, `4700`. */
+  resistance?: Quantity;
+  /** Capacitance in F, e.g. `"100n"`, `"4.7uF"`. */
+  capacitance?: Quantity;
+  /** Inductance in H, e.g. `"10uH"`. */
+  inductance?: Quantity;
+  /** Tolerance as a fraction (`0.01`) or percentage (`"1%"`). */
+  tolerance?: Quantity;
+  /** Voltage rating in V, e.g. `"16V"`, `"6V3"`. */
+  voltage?: Quantity;
+  /** Power rating in W, e.g. `"1/4W"`, `"100mW"`. */
+  power?: Quantity;
+  /** Capacitor dielectric, e.g. `"X7R"` or `"C0G"`. */
+  dielectric?: string;
+}
+
+type NumericProperty = Exclude<keyof ComponentPropertiesOptions, "dielectric">;
+
+/** Field name and unit of every numeric property, in output order. */
+const QUANTITIES: [NumericProperty, string, string][] = [
+  ["resistance", "Resistance", "Ω"],
+  ["capacitance", "Capacitance", "F"],
+  ["inductance", "Inductance", "H"],
+  ["tolerance", "Tolerance", "%"],
+  ["voltage", "Voltage", "V"],
+  ["power", "Power", "W"],
+];
+
+const PREFIXES: Record<string, number> = {
+  p: 1e-12, n: 1e-9, u: 1e-6, U: 1e-6, "µ": 1e-6, "μ": 1e-6, m: 1e-3,
+  "": 1, R: 1, r: 1, k: 1e3, K: 1e3, M: 1e6, G: 1e9,
+};
+
+/** Accepted spellings of each unit. Resistances may also use `R` as the unit ("100R"). */
+const UNITS: Record<string, RegExp> = {
+  "Ω": /(Ω|ohms?)$/i,
+  F: /F$/i,
+  H: /H$/i,
+  V: /V$/i,
+  W: /W$/i,
+};
+
+/** Properties a value may state next to its primary quantity. */
+const RATINGS: [NumericProperty, string][] = [["tolerance", "%"], ["voltage", "V"], ["power", "W"]];
+
+const DIELECTRIC = /^(C0G|NP0|X[5-8][RSPT]|Y5V|Z5U)$/i;
+
+/** Symbols whose value is parsed for properties, and the quantity the value primarily states. */
+const PRIMARY: [RegExp, NumericProperty, string][] = [
+  [/^Device:R(_.*)?$/, "resistance", "Ω"],
+  [/^Device:C(P)?(_.*)?$/, "capacitance", "F"],
+  [/^Device:L(_.*)?$/, "inductance", "H"],
+];
+
+/**
+ * Parse a quantity in engineering notation into base units: `"10k"`,
+ * `"10K"` and `"10000"` all give 10000, `"4k7"` gives 4700, `"6V3"` gives
+ * 6.3. Returns undefined if the text is not a quantity of `unit`.
+ */
+export function parseQuantity(text: string, unit: string): number | undefined {
+  let rest = text.trim().replace(/^±/, "").replace(/\s+/g, "");
+  if (unit === "%") {
+    const percent = /^(\d+(?:[.,]\d+)?)%$/.exec(rest);
+    return percent ? Number(percent[1].replace(",", ".")) / 100 : undefined;
+  }
+
+  const pattern = UNITS[unit];
+  if (pattern) rest = rest.replace(pattern, "");
+  else if (unit && rest.endsWith(unit)) rest = rest.slice(0, -unit.length);
+
+  const plain = /^(\d*[.,]?\d+)([pnuUµμmkKMGRr]?)$/.exec(rest);
+  if (plain && (plain[2].toUpperCase() !== "R" || unit === "Ω")) {
+    return round(Number(plain[1].replace(",", ".")) * PREFIXES[plain[2]]);
+  }
+
+  // The prefix (or unit letter) as decimal point: 4k7, 0R1, 6V3
+  const infix = /^(\d+)([pnuUµμmkKMGRrVvFfHhWw])(\d+)$/.exec(rest);
+  if (infix) {
+    const marker = infix[2];
+    const factor = PREFIXES[marker] ?? (marker.toUpperCase() === unit.replace("Ω", "R").toUpperCase() ? 1 : undefined);
+    if (factor === undefined || (marker.toUpperCase() === "R" && unit !== "Ω")) return undefined;
+    return round(Number(`${infix[1]}.${infix[3]}`) * factor);
+  }
+
+  const fraction = /^(\d+)\/(\d+)$/.exec(rest);
+  if (fraction && Number(fraction[2]) !== 0) return round(Number(fraction[1]) / Number(fraction[2]));
+  return undefined;
+}
+
+/** Format a quantity with an engineering prefix, e.g. `formatQuantity(4700, "Ω")` → `"4.7kΩ"`. */
+export function formatQuantity(value: number, unit: string): string {
+  if (unit === "%") return `±${round(value * 100)}%`;
+  if (value === 0) return `0${unit}`;
+  const prefixes = ["p", "n", "u", "m", "", "k", "M", "G"];
+  const exponent = Math.min(3, Math.max(-4, Math.floor(Math.log10(Math.abs(value)) / 3)));
+  return `${round(value / 1000 ** exponent)}${prefixes[exponent + 4]}${unit}`;
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+/**
+ * The electrical properties of a component in base units (Ω, F, H, V, W;
+ * tolerance as a fraction). Resistors, capacitors and inductors from the
+ * `Device` library take their properties from the value, e.g. `"10u 16V X5R"`,
+ * and the `properties` component option adds or overrides individual ones.
+ *
+ * @example
+ * ```ts
+ * const r1 = new Component({
+ *   symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric",
+ *   value: "4k7", properties: { tolerance: "1%", power: "1/10W" },
+ * });
+ * r1.properties.resistance;  // 4700
+ * ```
+ */
+export class ComponentProperties {
+  readonly resistance?: number;
+  readonly capacitance?: number;
+  readonly inductance?: number;
+  readonly tolerance?: number;
+  readonly voltage?: number;
+  readonly power?: number;
+  readonly dielectric?: string;
+  /** Whether the component value was parsed completely, so the normalized properties can stand in for it. */
+  readonly describesValue: boolean;
+  /** Properties given explicitly rather than parsed from the value. */
+  private explicit: ComponentPropertiesOptions = {};
+
+  constructor(options: ComponentPropertiesOptions = {}, describesValue = false) {
+    for (const [key, , unit] of QUANTITIES) {
+      const quantity = options[key];
+      if (quantity === undefined) continue;
+      const value = typeof quantity === "number" ? quantity : parseQuantity(quantity, unit);
+      if (value === undefined) {
+        throw new Error(`Invalid ${key} '${quantity}': expected a number or engineering notation such as ${key === "tolerance" ? "'1%'" : `'4k7' or '10${unit}'`}.`);
+      }
+      (this as { [K in NumericProperty]?: number })[key] = value;
+    }
+    if (options.dielectric !== undefined) this.dielectric = options.dielectric.toUpperCase();
+    this.describesValue = describesValue;
+  }
+
+  /**
+   * Properties of a component: those stated by its value, overridden by the
+   * explicit `options`.
+   */
+  static of(symbol: string, value: string | undefined, options: ComponentPropertiesOptions = {}): ComponentProperties {
+    const parsed = ComponentProperties.parseValue(symbol, value);
+    const properties = new ComponentProperties({ ...parsed?.options, ...options }, parsed?.complete ?? false);
+    properties.explicit = options;
+    return properties;
+  }
+
+  /** The properties of the same component with another value, e.g. in an assembly variant. */
+  withValue(symbol: string, value: string | undefined): ComponentProperties {
+    return ComponentProperties.of(symbol, value, this.explicit);
+  }
+
+  /**
+   * Read the properties stated in a resistor, capacitor or inductor value
+   * such as `"100n/50V"` or `"10k 1% 1/4W"`. `complete` tells whether every
+   * part of the value was understood.
+   */
+  static parseValue(symbol: string, value?: string): { options: ComponentPropertiesOptions; complete: boolean } | undefined {
+    const primary = PRIMARY.find(([pattern]) => pattern.test(symbol));
+    if (!primary || !value?.trim()) return undefined;
+
+    const options: ComponentPropertiesOptions = {};
+    let complete = true;
+    // "/" separates "100n/10V" but is part of a power fraction like "1/4W"
+    for (const token of value.trim().split(/,?\s+|\/(?!\d+\s*W\b)/).filter(Boolean)) {
+      const [key, parsed] = ComponentProperties.classify(token, primary[1], primary[2]);
+      if (key && options[key] === undefined) (options as Record<string, unknown>)[key] = parsed;
+      else complete = false;
+    }
+    return { options, complete };
+  }
+
+  private static classify(token: string, primary: NumericProperty, unit: string): [keyof ComponentPropertiesOptions | undefined, unknown] {
+    if (DIELECTRIC.test(token)) return ["dielectric", token];
+    // Ratings must carry their unit, a bare "16" is the primary quantity
+    for (const [key, ratingUnit] of RATINGS) {
+      const parsed = parseQuantity(token, ratingUnit);
+      if (parsed !== undefined && /[%VvWw]/.test(token)) return [key, parsed];
+    }
+    const parsed = parseQuantity(token, unit);
+    return parsed !== undefined ? [primary, parsed] : [undefined, undefined];
+  }
+
+  /** Whether no property is set. */
+  get isEmpty(): boolean {
+    return this.fields().length === 0;
+  }
+
+  /** The properties as KiCad field name and formatted value, e.g. `["Resistance", "4.7kΩ"]`. */
+  fields(): [string, string][] {
+    const fields: [string, string][] = [];
+    for (const [key, name, unit] of QUANTITIES) {
+      const value = this[key];
+      if (value !== undefined) fields.push([name, formatQuantity(value, unit)]);
+    }
+    if (this.dielectric) fields.push(["Dielectric", this.dielectric]);
+    return fields;
+  }
+
+  /** Normalized description, e.g. `"100nF 50V X7R"`. Equal properties give equal strings. */
+  toString(): string {
+    return this.fields().map(([, value]) => value).join(" ");
+  }
+}
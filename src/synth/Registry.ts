@@ -6,11 +6,13 @@
 
 import type { Component } from "@tobisk/pcbs/Component";
 import type { Net } from "@tobisk/pcbs/Net";
+import type { Bus } from "@tobisk/pcbs/Bus";
 
 export class Registry {
     private components: Component<any>[] = [];
     private composables: any[] = [];
     private nets: Net[] = [];
+    private buses: Bus[] = [];
     private items: any[] = [];
     private active = false;
 
@@ -19,6 +21,7 @@ export class Registry {
         this.components = [];
         this.composables = [];
         this.nets = [];
+        this.buses = [];
         this.items = [];
         this.active = true;
     }
@@ -28,6 +31,15 @@ export class Registry {
         this.active = false;
     }
 
+    /** Replace the tracked state with what another registry tracked. */
+    copyFrom(other: Registry) {
+        this.components = [...other.components];
+        this.composables = [...other.composables];
+        this.nets = [...other.nets];
+        this.buses = [...other.buses];
+        this.items = [...other.items];
+    }
+
     /** Register a component. */
     registerComponent(comp: Component<any>) {
         if (this.active) {
@@ -51,10 +63,10 @@ export class Registry {
         }
     }
 
-    /** Unregister a net (e.g. during merging). */
-    unregisterNet(net: Net) {
+    /** Register a bus or differential pair. */
+    registerBus(bus: Bus) {
         if (this.active) {
-            this.nets = this.nets.filter(n => n !== net);
+            this.buses.push(bus);
         }
     }
 
@@ -73,9 +85,14 @@ export class Registry {
         return this.items;
     }
 
-    /** Get all registered nets. */
+    /** Get all registered nets, leaving out those merged into another net. */
     getNets() {
-        return this.nets;
+        return this.nets.filter(net => net.canonical === net);
+    }
+
+    /** Get all registered buses and differential pairs. */
+    getBuses() {
+        return this.buses;
     }
 }
 
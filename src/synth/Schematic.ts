@@ -1,7 +1,9 @@
-import { SchematicOptions, PlacementAlgorithm, CircuitSnapshot, SchematicConnectionStyle, SchematicPaperSize, PcbOptions } from "@tobisk/pcbs/types";
-import { registry } from "@tobisk/pcbs/Registry";
+import { SchematicOptions, PlacementAlgorithm, CircuitSnapshot, DesignRule, SchematicConnectionStyle, SchematicPaperSize, PcbOptions } from "@tobisk/pcbs/types";
+import type { Registry } from "@tobisk/pcbs/Registry";
+import { CircuitContext } from "@tobisk/pcbs/CircuitContext";
 import { Component } from "@tobisk/pcbs/Component";
 import { Net } from "@tobisk/pcbs/Net";
+import { NetClass } from "@tobisk/pcbs/NetClass";
 import { GravityLayout } from "./Layout";
 
 /**
@@ -32,8 +34,14 @@ export abstract class Schematic {
   readonly revision: string;
   readonly description?: string;
   readonly pcb?: PcbOptions;
+  readonly netClasses: NetClass[];
+  readonly designRules: DesignRule[];
+  readonly variants: string[];
+  readonly sourceLocations: boolean;
+  private _generatedRules: DesignRule[] = [];
   private _layout?: import("./Layout").Layout;
   private _placementAlgorithm?: PlacementAlgorithm;
+  private _context?: CircuitContext;
 
   constructor(options: SchematicOptions) {
     this.name = options.name;
@@ -45,6 +53,10 @@ export abstract class Schematic {
     this.company = options.company ?? "Generated by @tobisk/pcbs";
     this.description = options.description;
     this.pcb = options.pcb;
+    this.netClasses = options.netClasses ?? [];
+    this.designRules = options.designRules ?? [];
+    this.variants = options.variants ?? [];
+    this.sourceLocations = options.sourceLocations ?? false;
     this._layout = options.layout;
     this._placementAlgorithm = options.placementAlgorithm;
   }
@@ -52,9 +64,33 @@ export abstract class Schematic {
   /** Generate the circuit — define all nets, components, and connections. */
   abstract generate(): void;
 
-  /** @internal Generate and capture registered objects */
+  /**
+   * Add a custom design rule from within `generate()`, where the nets and
+   * composables it refers to exist. Rules that only use net names or net
+   * classes can also be passed as the `designRules` option.
+   */
+  protected designRule(rule: DesignRule): void {
+    this._generatedRules.push(rule);
+  }
+
+  /** @internal The context of the last generation, holding everything `generate()` created. */
+  get context(): CircuitContext | undefined {
+    return this._context;
+  }
+
+  /** @internal Generate and capture registered objects, in a CircuitContext of their own */
   _generateWithCapture(): CircuitSnapshot {
+    const outer = CircuitContext.current;
+    this._context = new CircuitContext();
+    const snapshot = this._context.run(() => this._capture(this._context!.registry));
+    // Callers outside any context read what was generated from the global registry
+    if (outer.isGlobal) outer.registry.copyFrom(this._context.registry);
+    return snapshot;
+  }
+
+  private _capture(registry: Registry): CircuitSnapshot {
     registry.start();
+    this._generatedRules = [];
     try {
       this.generate();
 
@@ -72,6 +108,10 @@ export abstract class Schematic {
     } finally {
       registry.stop();
     }
+    // After layout, which defines the interfaces of composables and thereby creates their components
+    if (this.pcb?.placements) {
+      for (const comp of registry.getComponents()) comp._usePlacements(this.pcb.placements);
+    }
     return {
       name: this.name,
       size: this.size,
@@ -83,8 +123,40 @@ export abstract class Schematic {
       description: this.description,
       components: registry.getComponents(),
       nets: registry.getNets(),
+      buses: registry.getBuses(),
       placementAlgorithm: this._placementAlgorithm,
       pcb: this.pcb,
+      netClasses: this.collectNetClasses(registry.getNets()),
+      designRules: [...this.designRules, ...this._generatedRules],
+      variants: this.checkVariants(registry.getComponents()),
+      sourceLocations: this.sourceLocations,
     };
   }
+
+  /** The declared variants, after checking that components only override those. */
+  private checkVariants(components: Component<any>[]): string[] {
+    for (const comp of components) {
+      for (const variant of Object.keys(comp.variants)) {
+        if (!this.variants.includes(variant)) {
+          const declared = this.variants.length > 0 ? `Declared variants: ${this.variants.join(", ")}.` : "The schematic declares no variants.";
+          throw new Error(`${comp.ref} overrides unknown variant '${variant}'. ${declared}`);
+        }
+      }
+    }
+    return this.variants;
+  }
+
+  /** Net classes declared on the schematic or passed to nets, one per name. */
+  private collectNetClasses(nets: Net[]): NetClass[] {
+    const byName = new Map<string, NetClass>();
+    const candidates = [...this.netClasses, ...nets.map(net => net.netClass).filter((c): c is NetClass => !!c)];
+    for (const netClass of candidates) {
+      const existing = byName.get(netClass.name);
+      if (existing && existing !== netClass && JSON.stringify(existing) !== JSON.stringify(netClass)) {
+        throw new Error(`Net class '${netClass.name}' is defined more than once with different rules.`);
+      }
+      if (!existing) byName.set(netClass.name, netClass);
+    }
+    return Array.from(byName.values());
+  }
 }
@@ -0,0 +1,67 @@
+import * as path from "path";
+
+/** A position in the design code, e.g. where a component was created. */
+export interface SourceLocation {
+  /** Absolute path of the source file. */
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** Frames from this directory are framework code and never the location of interest. */
+const FRAMEWORK_DIR = __dirname + path.sep;
+
+/** Deep enough to get past nested composables and decorators. */
+const STACK_DEPTH = 50;
+
+/** A frame of a V8 stack trace: `at fn (/path/file.ts:12:5)` or `at /path/file.ts:12:5`. */
+const FRAME = /\(?((?:file:\/\/)?[^\s()]+):(\d+):(\d+)\)?\s*$/;
+
+/**
+ * The call site of a constructor, taken from the stack trace. The trace is
+ * captured cheaply when created and only resolved (through source maps, when
+ * running under ts-node) if the location is read, e.g. for an error message.
+ *
+ * Pass `new.target` as `constructor` so that the constructors of subclasses,
+ * such as a composable's, are skipped along with the framework's own frames.
+ */
+export class SourceTrace {
+  private readonly error: Error;
+  private resolved?: SourceLocation | null;
+
+  constructor(constructor?: Function) {
+    const limit = Error.stackTraceLimit;
+    Error.stackTraceLimit = STACK_DEPTH;
+    this.error = new Error();
+    if (constructor) Error.captureStackTrace(this.error, constructor);
+    Error.stackTraceLimit = limit;
+  }
+
+  /** The first frame outside the framework, if any. */
+  get location(): SourceLocation | undefined {
+    if (this.resolved === undefined) {
+      this.resolved = null;
+      for (const frame of (this.error.stack ?? "").split("\n").slice(1)) {
+        const match = FRAME.exec(frame);
+        if (!match) continue;
+        const file = match[1].replace(/^file:\/\//, "");
+        if (!path.isAbsolute(file) || file.startsWith(FRAMEWORK_DIR)) continue;
+        this.resolved = { file, line: Number(match[2]), column: Number(match[3]) };
+        break;
+      }
+    }
+    return this.resolved ?? undefined;
+  }
+}
+
+/** `file:line`, with the file relative to the working directory if it lies within it. */
+export function formatSourceLocation(location: SourceLocation): string {
+  const relative = path.relative(process.cwd(), location.file);
+  const file = relative.startsWith("..") || path.isAbsolute(relative) ? location.file : relative;
+  return `${file}:${location.line}`;
+}
+
+/** `" (created at boards/main.ts:12)"` for use in messages, or nothing if the location is unknown. */
+export function createdAt(item: { source?: SourceLocation }): string {
+  return item.source ? ` (created at ${formatSourceLocation(item.source)})` : "";
+}
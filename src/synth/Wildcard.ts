@@ -0,0 +1,5 @@
+/** A RegExp matching the whole of `pattern`, where `*` stands for any text, e.g. `"TP*"` or `"U1.GPIO*"`. */
+export function wildcard(pattern: string): RegExp {
+  const expression = pattern.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${expression}$`);
+}
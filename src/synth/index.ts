@@ -5,13 +5,21 @@
  */
 
 // Core types
-export { Pin, NetClass, NetOptions, ComponentOptions, ComposableOptions, ModuleOptions, SchematicOptions, PinProxy, PinAssignable, PinMapFn, SymbolName, FootprintName, SchematicPosition, PcbPosition, PcbPoint, PcbOptions, CircuitSnapshot } from "@tobisk/pcbs/types";
+export { Pin, PinRating, NetClassName, NetClassOptions, NetOptions, ComponentOptions, ComposableOptions, ModuleOptions, SchematicOptions, PinProxy, PinGroup, PinAssignable, PinMapFn, SymbolName, FootprintName, SchematicPosition, PcbPosition, PcbPoint, PcbOptions, PcbPlacements, CircuitSnapshot, DesignRule, ClearanceRule, TrackWidthRule, KeepoutRule, KeepoutItem, CustomRule, NetSelector, VariantOverride } from "@tobisk/pcbs/types";
 export { Registry } from "@tobisk/pcbs/Registry";
+export { CircuitContext } from "@tobisk/pcbs/CircuitContext";
+export { SourceLocation } from "@tobisk/pcbs/SourceLocation";
+export { toJSON, fromJSON, CIRCUIT_IR_FORMAT, CIRCUIT_IR_VERSION, CircuitIR, ComposableIR, ComponentIR, PinIR, NetIR, BusIR, DesignRuleIR, NetSelectorIR } from "@tobisk/pcbs/CircuitIR";
+export { CircuitGraph, NetFilter, TraversalOptions } from "@tobisk/pcbs/CircuitGraph";
 
 // Classes
 export { Schematic } from "@tobisk/pcbs/Schematic";
 export { Net } from "@tobisk/pcbs/Net";
-export { Component } from "@tobisk/pcbs/Component";
+export { NetClass } from "@tobisk/pcbs/NetClass";
+export { ComponentProperties, ComponentPropertiesOptions, Quantity, parseQuantity, formatQuantity } from "@tobisk/pcbs/Properties";
+export { Bus, DiffPair, BusOptions, DiffPairOptions, DiffPairSuffixes } from "@tobisk/pcbs/Bus";
+export { InterfaceType, InterfacePort, InterfaceTypeOptions, PortOptions, PortOwner, PortDirection, connect, I2C, SPI, UART, USB } from "@tobisk/pcbs/Interfaces";
+export { Component, ComponentUnit, resolveVariant, ResolvedVariant } from "@tobisk/pcbs/Component";
 export { Composable } from "@tobisk/pcbs/Composable";
 export { Module } from "@tobisk/pcbs/Module";
 export { DNC, TP } from "@tobisk/pcbs/Markers";
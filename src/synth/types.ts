@@ -1,5 +1,9 @@
 import { Component } from "./Component";
 import { Net } from "./Net";
+import { Bus } from "./Bus";
+import { NetClass } from "./NetClass";
+import type { ComponentPropertiesOptions } from "./Properties";
+import { SourceLocation, createdAt } from "./SourceLocation";
 import { KicadLibrarySymbol, KicadLibraryFootprint } from "@tobisk/pcbs/kicad-types";
 
 export type SymbolName = KicadLibrarySymbol | `Composable:${string}` | `Project_Symbols:${string}`;
@@ -8,31 +12,45 @@ export type FootprintName = KicadLibraryFootprint | `MountingHole:${string}` | `
 /** Represents a reference to a physical component pin */
 export class Pin {
   /** The component this pin belongs to */
-  readonly component: { ref: string; symbol: SymbolName };
+  readonly component: { ref: string; symbol: SymbolName; source?: SourceLocation };
   /** The pin name (number or string) */
   readonly name: string;
   /** The net this pin is connected to, if any */
   private _net: import("./Net").Net | null = null;
   /** Whether this pin has been explicitly marked as Do Not Connect */
   private _isDNC: boolean = false;
+  /** Voltage ratings from the datasheet */
+  private _rating?: PinRating;
 
-  constructor(component: { ref: string; symbol: SymbolName }, name: string) {
+  constructor(component: { ref: string; symbol: SymbolName; source?: SourceLocation }, name: string) {
     this.component = component;
     this.name = name;
   }
 
   get net(): import("./Net").Net | null {
-    return this._net;
+    return this._net?.canonical ?? null;
   }
 
   get isDNC(): boolean {
     return this._isDNC;
   }
 
+  get rating(): PinRating | undefined {
+    return this._rating;
+  }
+
+  /**
+   * Declare the voltage ratings of this pin, e.g. in a Module's pin map:
+   * `VDD: pin(1).rated({ absMax: 3.6 })`. Repeated calls are merged.
+   */
+  rated(rating: PinRating): this {
+    this._rating = { ...this._rating, ...rating };
+    return this;
+  }
+
   /** @internal */
   _setNet(net: import("./Net").Net): void {
-    // If already connected to a different net, we'll allow the override.
-    // The Net class is responsible for ensuring consistency during merges.
+    // Merges don't update pins: the net they were tied to resolves to the merged net.
     this._net = net;
   }
 
@@ -59,7 +77,7 @@ export class Pin {
    */
   tie(...targets: PinAssignable[]): this {
     if (this._isDNC && targets.length > 0) {
-      throw new Error(`Cannot connect to Pin ${this.component.ref}.${this.name} because it is marked as Do Not Connect (DNC)`);
+      throw new Error(`Cannot connect to Pin ${this.component.ref}.${this.name}${createdAt(this.component)} because it is marked as Do Not Connect (DNC)`);
     }
 
     for (let target of targets) {
@@ -79,6 +97,14 @@ export class Pin {
         continue;
       }
 
+      if (target instanceof Bus) {
+        if (target.width !== 1) {
+          throw new Error(`Width mismatch: cannot tie pin ${this.component.ref}.${this.name} to bus '${target.label}' of width ${target.width}. Assign a pin group instead, e.g. pins.assign({ "D[0..${target.width - 1}]": bus }).`);
+        }
+        this.tie(target.at(0));
+        continue;
+      }
+
       if (target instanceof Net || (target && target.constructor && target.constructor.name === "Net")) {
         (target as any).tie(this);
       } else if (target instanceof Pin || (target && target.constructor && target.constructor.name === "Pin")) {
@@ -100,8 +126,22 @@ export class Pin {
   }
 }
 
-/** Net class categories */
-export type NetClass = "Power" | "Signal" | "Data" | string;
+/** Net class categories. Nets of class "Power" are drawn with power symbols. */
+export type NetClassName = "Power" | "Signal" | "Data" | string;
+
+/** Options for NetClass constructor. All dimensions are in millimetres. */
+export interface NetClassOptions {
+  /** Class name. Naming a class "Power" keeps power symbol rendering for its nets. */
+  name: NetClassName;
+  trackWidth?: number;
+  clearance?: number;
+  viaDiameter?: number;
+  viaDrill?: number;
+  /** Track width of differential pairs. */
+  diffPairWidth?: number;
+  /** Gap between the two tracks of a differential pair. */
+  diffPairGap?: number;
+}
 
 /** Schematic position info */
 export interface SchematicPosition {
@@ -124,6 +164,13 @@ export interface PcbPoint {
   y: number;
 }
 
+/**
+ * Footprint positions by reference, as pulled from the board with
+ * `pcbs pull-placement`. Positions of components inside a composable are
+ * relative to it, like `pcbPosition`.
+ */
+export type PcbPlacements = Record<string, PcbPosition>;
+
 /** PCB generation options. Only explicitly positioned footprints are emitted. */
 export interface PcbOptions {
   /** Closed polygon described by its vertices. The closing edge is generated automatically. */
@@ -134,6 +181,12 @@ export interface PcbOptions {
   outlineLineWidth?: number;
   /** Optional reference globs limiting which positioned components are emitted (for example, ["SW*", "J1"]). */
   place?: string[];
+  /**
+   * Positions of footprints placed in pcbnew, usually imported from the
+   * generated `placements.ts`. Components without a `pcbPosition` are placed
+   * there; a `pcbPosition` declared in code takes precedence.
+   */
+  placements?: PcbPlacements;
 }
 
 /** Common interface for items that can be positioned in a layout */
@@ -156,10 +209,23 @@ export type SchematicConnectionStyle = "stub-labels" | "direct-labels";
 /** Paper sizes supported by KiCad's schematic file format. */
 export type SchematicPaperSize = "A0" | "A1" | "A2" | "A3" | "A4" | "A5" | "A" | "B" | "C" | "D" | "E";
 
+/** Voltage ratings of a pin, in volts. */
+export interface PinRating {
+  /** Absolute maximum voltage. Exceeding it is an error. */
+  absMax?: number;
+  /** Operating range of a logic pin as [min, max], e.g. [0, 3.3]. Exceeding the maximum is a warning. */
+  logic?: [number, number];
+}
+
 /** Options for Net constructor */
 export interface NetOptions {
   name: string;
-  class?: NetClass;
+  /** Nominal voltage of a rail in volts, e.g. 3.3. Used by the voltage check. */
+  voltage?: number;
+  /** Relative tolerance of the voltage, e.g. 0.05 for ±5 %. */
+  tolerance?: number;
+  /** Class name, or a NetClass carrying PCB design rules. Defaults to "Signal". */
+  class?: NetClassName | NetClass;
 }
 
 /** Options for Component constructor (without pin mapping) */
@@ -173,6 +239,19 @@ export interface ComponentOptions {
   pos?: { x: number; y: number; r?: number };
   schematicPosition?: SchematicPosition | null;
   pcbPosition?: PcbPosition;
+  /**
+   * Additional symbol fields, e.g. `{ Manufacturer: "Yageo", MPN: "RC0603FR-0710KL" }`.
+   * `Datasheet` and `Description` fill KiCad's built-in fields.
+   */
+  fields?: Record<string, string>;
+  /** Electrical properties adding to or overriding those stated by `value`. */
+  properties?: ComponentPropertiesOptions;
+  /** Do not populate the component, unless a variant says otherwise. */
+  dnp?: boolean;
+  /** Overrides per assembly variant, see `SchematicOptions.variants`. */
+  variants?: Record<string, VariantOverride>;
+  /** Voltage ratings per pin name or number, see `Pin.rated()`. */
+  pinRatings?: Record<string, PinRating>;
   /** Group assignment for layout clustering */
   group?: string;
   /** Subschematic page assignment */
@@ -181,6 +260,14 @@ export interface ComponentOptions {
   parent?: any;
 }
 
+/** How a component differs in one assembly variant. */
+export interface VariantOverride {
+  /** Whether the component is left unpopulated in this variant. */
+  dnp?: boolean;
+  value?: string;
+  partNo?: string;
+}
+
 /** Options for Composable constructor */
 export interface ComposableOptions {
   ref: string;
@@ -223,8 +310,71 @@ export interface SchematicOptions {
   company?: string;
   /** Optional PCB outline and partial footprint-placement definition. */
   pcb?: PcbOptions;
+  /** Net class rules for nets that reference a class by name. */
+  netClasses?: NetClass[];
+  /** Custom design rules, written to the project's `.kicad_dru` file. */
+  designRules?: DesignRule[];
+  /** Assembly variants declared on the schematic. */
+  variants?: string[];
+  /** Write where each component was created in the design code into a hidden `Source` symbol field. */
+  sourceLocations?: boolean;
+}
+
+/**
+ * Nets a design rule applies to: nets, buses, net classes or net name
+ * patterns with `*` wildcards, alone or as a list.
+ */
+export type NetSelector = Net | Bus | NetClass | string | ReadonlyArray<Net | Bus | NetClass | string>;
+
+/** Minimum copper clearance between two groups of nets. */
+export interface ClearanceRule {
+  type: "clearance";
+  name?: string;
+  nets: NetSelector;
+  /** The other group. Defaults to all nets not selected by `nets`. */
+  to?: NetSelector;
+  /** Minimum clearance in millimetres. */
+  min: number;
+}
+
+/** Track width limits for some nets, in millimetres. */
+export interface TrackWidthRule {
+  type: "trackWidth";
+  name?: string;
+  nets: NetSelector;
+  min?: number;
+  opt?: number;
+  max?: number;
+}
+
+/** Items that a keepout rule can disallow. */
+export type KeepoutItem = "track" | "via" | "zone" | "pad" | "footprint" | "text" | "graphic" | "hole";
+
+/** Keep items out of the courtyards of a component or of all components of a composable. */
+export interface KeepoutRule {
+  type: "keepout";
+  name?: string;
+  /** Components and/or composables, e.g. an antenna block. */
+  around: { readonly ref: string } | ReadonlyArray<{ readonly ref: string }>;
+  /** Items to keep out. Defaults to tracks, vias and zones. */
+  disallow?: KeepoutItem[];
+}
+
+/** A rule written verbatim, for constraints not covered by the other rule types. */
+export interface CustomRule {
+  type: "custom";
+  name: string;
+  /** One or more constraint expressions, e.g. `(constraint hole_size (min 0.3mm))`. */
+  constraint: string | string[];
+  /** KiCad condition expression, e.g. `A.NetClass == 'HV'`. */
+  condition?: string;
+  /** Layer the rule is limited to, e.g. `outer`. */
+  layer?: string;
 }
 
+/** A custom KiCad design rule. */
+export type DesignRule = ClearanceRule | TrackWidthRule | KeepoutRule | CustomRule;
+
 /**
  * A function that maps numbered pins to named pins.
  * Receives a `pin(n)` helper that returns the Pin for pin number `n`.
@@ -239,15 +389,22 @@ export type PinMapFn<P extends string> = (pin: (n: string | number) => Pin) => R
  * - setter: Intentionally restricted. Use `.tie(target)` to connect pins.
  *   This avoids confusing overwrites.
  */
-export type PinAssignable = Pin | Net
+export type PinAssignable = Pin | Net | Bus
   | import("./Markers").DNC
   | import("./Markers").TP
   | null;
 
+/**
+ * Key selecting several pins at once in `pins.assign()`, used to connect a
+ * Bus or DiffPair member by member: a range such as `"D[0..7]"` (pins `D0` …
+ * `D7`) or a comma separated list such as `"DP,DM"`.
+ */
+export type PinGroup<T extends string | number> = `${string}[${number}..${number}]` | `${T},${string}`;
+
 export type PinProxy<T extends string | number> = {
   readonly [K in T]: Pin;
 } & {
-  assign(map: Partial<Record<T, PinAssignable>>): void;
+  assign(map: Partial<Record<T, PinAssignable>> & { [K in PinGroup<T>]?: Bus }): void;
 };
 
 /** A snapshot of the circuit state needed for codegen/synthesis. */
@@ -262,6 +419,17 @@ export interface CircuitSnapshot {
   company?: string;
   components: Component<any>[];
   nets: Net[];
+  /** Buses and differential pairs grouping some of the nets. */
+  buses?: Bus[];
   placementAlgorithm?: PlacementAlgorithm;
   pcb?: PcbOptions;
+  /** Net classes used by the nets, from the nets themselves and SchematicOptions.netClasses. */
+  netClasses?: NetClass[];
+  designRules?: DesignRule[];
+  /** Assembly variants declared on the schematic. */
+  variants?: string[];
+  /** The variant to generate. Without one, components are populated unless their `dnp` option is set. */
+  variant?: string;
+  /** Write where each component was created in the design code into a hidden `Source` symbol field. */
+  sourceLocations?: boolean;
 }
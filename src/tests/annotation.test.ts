@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { Component, Composable, Net, Schematic } from "../synth";
+import { Annotator } from "../kicad/Annotator";
+import { UuidManager } from "../kicad/UuidManager";
+
+class Filter extends Composable<"IN" | "OUT"> {
+  protected defineInterface() {
+    const r = new Component({ symbol: "Device:R", ref: "R?", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    const c = new Component({ symbol: "Device:C", ref: "C", footprint: "Capacitor_SMD:C_0603_1608Metric" });
+    r.pins[2].tie(c.pins[1]);
+    return { IN: r.pins[1], OUT: r.pins[2] };
+  }
+}
+
+function capture(extraFirst: boolean) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Annotation" });
+    }
+    generate() {
+      if (extraFirst) new Component({ symbol: "Device:R", ref: "R", footprint: "Resistor_SMD:R_0603_1608Metric" });
+      new Component({ symbol: "Device:R", ref: "R2", footprint: "Resistor_SMD:R_0603_1608Metric" });
+      const f1 = new Filter({ ref: "F1" });
+      const f2 = new Filter({ ref: "F2" });
+      f1.pins.OUT.tie(f2.pins.IN);
+      f1.pins.IN.tie(new Net({ name: "IN" }));
+    }
+  }
+  return new Board()._generateWithCapture();
+}
+
+const refs = (snapshot: ReturnType<typeof capture>) => snapshot.components.map(c => c.ref);
+
+/** Resistors "R?" between numbered nets, in the given order. */
+function resistors(nets: number[], values: Record<number, string> = {}) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Resistors" });
+    }
+    generate() {
+      for (const n of nets) {
+        const r = new Component({ symbol: "Device:R", ref: "R?", footprint: "Resistor_SMD:R_0603_1608Metric", value: values[n] ?? "10k" });
+        r.pins[1].tie(new Net({ name: `N${n}` }));
+        r.pins[2].tie(new Net({ name: "GND" }));
+      }
+    }
+  }
+  return new Board()._generateWithCapture();
+}
+
+/** The designator of the resistor on net `N${n}`. */
+const on = (snapshot: ReturnType<typeof capture>, n: number) =>
+  snapshot.components.find(c => c.pins[1].net?.name === `N${n}`)!.ref;
+
+describe("Annotator", () => {
+  it("numbers unannotated refs by prefix around explicit refs", () => {
+    const snapshot = capture(false);
+    new Annotator(snapshot, new UuidManager()).annotate();
+
+    expect(refs(snapshot)).toEqual(["R2", "R1", "C1", "R3", "C2"]);
+    const r1 = snapshot.components[1];
+    expect(Array.from(r1.allPins.values()).every(pin => pin.component.ref === "R1")).toBe(true);
+  });
+
+  it("keeps persisted designators when components are added", () => {
+    const uuids = new UuidManager();
+    new Annotator(capture(false), uuids).annotate();
+    expect(uuids.get("ref:/F2/R?|Device:R||Resistor_SMD:R_0603_1608Metric|1=C_1__R?_2,2=C_1__R?_2#0")).toBe("R3");
+
+    const snapshot = capture(true);
+    new Annotator(snapshot, uuids).annotate();
+
+    expect(refs(snapshot)).toEqual(["R4", "R2", "R1", "C1", "R3", "C2"]);
+    expect(uuids.get("ref:/R|Device:R||Resistor_SMD:R_0603_1608Metric|#0")).toBe("R4");
+  });
+
+  it("keeps persisted designators when components are inserted before others with the same ref", () => {
+    const uuids = new UuidManager();
+    const before = resistors([1, 2, 3]);
+    new Annotator(before, uuids).annotate();
+    expect(refs(before)).toEqual(["R1", "R2", "R3"]);
+
+    const after = resistors([4, 1, 2, 3]);
+    new Annotator(after, uuids).annotate();
+
+    expect([1, 2, 3, 4].map(n => on(after, n))).toEqual(["R1", "R2", "R3", "R4"]);
+  });
+
+  it("keeps the designator of a component whose value changed", () => {
+    const uuids = new UuidManager();
+    new Annotator(resistors([1, 2]), uuids).annotate();
+
+    const snapshot = resistors([3, 1, 2], { 2: "4k7" });
+    new Annotator(snapshot, uuids).annotate();
+
+    expect([1, 2, 3].map(n => on(snapshot, n))).toEqual(["R1", "R2", "R3"]);
+    expect(uuids.keys().filter(key => key.startsWith("ref:/R?"))).toHaveLength(3);
+  });
+
+  it("takes over designators persisted by position", () => {
+    const uuids = new UuidManager();
+    uuids.set("ref:/R?#0", "R7");
+
+    const snapshot = resistors([1]);
+    new Annotator(snapshot, uuids).annotate();
+
+    expect(refs(snapshot)).toEqual(["R7"]);
+    expect(uuids.get("ref:/R?#0")).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Net } from "../synth";
+import { BoardVerifier } from "../kicad/BoardVerifier";
+import { SheetHierarchy } from "../kicad/SheetHierarchy";
+import { UuidManager } from "../kicad/UuidManager";
+import type { CircuitSnapshot } from "../synth/types";
+
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Verify" });
+  }
+
+  generate() {
+    const vcc = new Net({ name: "VCC", class: "Power" });
+    const gnd = new Net({ name: "GND", class: "Power" });
+    const sda = new Net({ name: "SDA" });
+
+    const u1 = new Component({
+      symbol: "Device:R", ref: "U1", footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm",
+      pins: pin => ({ VCC: pin(1), GND: pin(2), SDA: pin(3), LED: pin(4), NC: pin(5) }),
+    });
+    u1.pins.VCC.tie(vcc);
+    u1.pins.GND.tie(gnd);
+    u1.pins.SDA.tie(sda);
+    u1.pins.NC.dnc();
+
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint, value: "4k7" });
+    r1.pins[1].tie(sda);
+    r1.pins[2].tie(vcc);
+
+    const r2 = new Component({ symbol: "Device:R", ref: "R2", footprint, value: "330" });
+    r2.pins[1].tie(u1.pins.LED);
+    r2.pins[2].tie(gnd);
+  }
+}
+
+interface PlacedFootprint {
+  ref: string;
+  footprint: string;
+  path?: string;
+  attr?: string;
+  pads: Record<string, string>;
+}
+
+/** The board KiCad creates when updating the PCB from the generated schematic. */
+function placedFootprints(snapshot: CircuitSnapshot, uuids: UuidManager): PlacedFootprint[] {
+  const hierarchy = new SheetHierarchy(snapshot);
+  const path = (ref: string) => {
+    const comp = snapshot.components.find(c => c.ref === ref)!;
+    return `${hierarchy.tstampsPath(hierarchy.sheetOf(comp), uuids)}${hierarchy.symbolUuid(comp, uuids)}`;
+  };
+  return [
+    { ref: "U1", footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm", path: path("U1"), pads: { 1: "VCC", 2: "GND", 3: "/SDA", 4: "Net-(R2-Pad1)", 5: "unconnected-(U1-NC-Pad5)", 6: "" } },
+    { ref: "R1", footprint, path: path("R1"), pads: { 1: "/SDA", 2: "VCC" } },
+    { ref: "R2", footprint, path: path("R2"), pads: { 1: "Net-(R2-Pad1)", 2: "GND" } },
+    { ref: "H1", footprint: "MountingHole:MountingHole_3.2mm_M3", attr: "board_only", pads: { 1: "" } },
+  ];
+}
+
+function boardFile(footprints: PlacedFootprint[]): string {
+  const nets = Array.from(new Set(footprints.flatMap(fp => Object.values(fp.pads)).filter(Boolean)));
+  const code = (name: string) => (name ? nets.indexOf(name) + 1 : 0);
+  return `(kicad_pcb
+\t(version 20241229)
+\t(generator "pcbnew")
+\t(net 0 "")
+${nets.map(name => `\t(net ${code(name)} "${name}")`).join("\n")}
+${footprints.map(fp => `\t(footprint "${fp.footprint}"
+\t\t(layer "F.Cu")
+\t\t(at 10 10)
+\t\t(property "Reference" "${fp.ref}" (at 0 0 0) (layer "F.SilkS"))
+${fp.path ? `\t\t(path "${fp.path}")\n` : ""}\t\t(attr smd${fp.attr ? ` ${fp.attr}` : ""})
+${Object.entries(fp.pads).map(([number, net]) => `\t\t(pad "${number}" smd rect (at 0 0) (size 1 1) (layers "F.Cu")${net ? ` (net ${code(net)} "${net}")` : ""})`).join("\n")}
+\t)`).join("\n")}
+)
+`;
+}
+
+describe("BoardVerifier", () => {
+  const snapshot = new Board()._generateWithCapture();
+  const uuids = new UuidManager();
+  const verify = (footprints: PlacedFootprint[]) => new BoardVerifier(snapshot, boardFile(footprints), uuids).verify();
+  const rules = (result: { findings: { rule: string; message: string }[] }) => result.findings.map(finding => `${finding.rule}: ${finding.message}`);
+
+  it("accepts a board updated from the schematic", () => {
+    const result = verify(placedFootprints(snapshot, uuids));
+    expect(rules(result)).toEqual([]);
+    expect(result.errors).toBe(0);
+  });
+
+  it("reports missing, extra and changed footprints", () => {
+    const footprints = placedFootprints(snapshot, uuids).filter(fp => fp.ref !== "R2");
+    footprints[0].footprint = "Package_SO:SOIC-8_5.3x5.3mm_P1.27mm";
+    footprints[1].ref = "R5";
+    footprints.push({ ref: "C9", footprint, path: "/00000000-0000-0000-0000-000000000009", pads: { 1: "VCC", 2: "GND" } });
+    footprints.push({ ref: "LOGO1", footprint: "Symbol:Logo", pads: {} });
+
+    const result = verify(footprints);
+    expect(result.findings.map(f => [f.rule, f.severity, f.refs[0]])).toEqual([
+      ["missing-footprint", "error", "R2"],
+      ["extra-footprint", "error", "C9"],
+      ["extra-footprint", "warning", "LOGO1"],
+      ["footprint-changed", "error", "U1"],
+      ["ref-changed", "error", "R1"],
+    ]);
+    expect(result.findings.find(f => f.rule === "footprint-changed")!.message).toContain("'Package_SO:SOIC-8_5.3x5.3mm_P1.27mm' on the board");
+  });
+
+  it("reports pads connected differently", () => {
+    const footprints = placedFootprints(snapshot, uuids);
+    // R1 moved from SDA to the LED net, and U1.NC was wired to GND in pcbnew
+    footprints[1].pads[1] = "Net-(R2-Pad1)";
+    footprints[0].pads[5] = "GND";
+
+    const result = verify(footprints);
+    expect(rules(result)).toEqual([
+      "pad-net: Changed Connection: U1.5 is connected to nothing in the circuit, but to 'GND' on the board.",
+      "pad-net: Changed Connection: R1.1 is connected to 'SDA' in the circuit, but to 'Net-(R2-Pad1)' on the board.",
+    ]);
+    expect(result.findings[1].nets).toEqual(["SDA"]);
+    // U1.3, the only pin left on SDA, connects nothing on either side and is not reported
+  });
+
+  it("matches unlinked footprints by reference and reports renamed nets", () => {
+    const footprints = placedFootprints(snapshot, uuids);
+    delete footprints[2].path;
+    footprints[0].pads[3] = "/I2C_SDA";
+    footprints[1].pads[1] = "/I2C_SDA";
+
+    const result = verify(footprints);
+    expect(rules(result)).toEqual([
+      "unlinked-footprint: Unlinked Footprint: R2 on the board is not linked to its schematic symbol; update the PCB from the schematic.",
+      "net-renamed: Renamed Net: 'SDA' is called '/I2C_SDA' on the board.",
+    ]);
+    expect(result.errors).toBe(0);
+  });
+});
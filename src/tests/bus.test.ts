@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Net, Bus, DiffPair } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+const header = (ref: string) =>
+  new Component<"1" | "2" | "3">({ symbol: "Connector_Generic:Conn_01x03", ref, footprint: "Connector_PinHeader_2.54mm:PinHeader_1x03_P2.54mm_Vertical" });
+
+function capture(build: () => void) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Buses" });
+    }
+    generate() {
+      build();
+    }
+  }
+  return new Board()._generateWithCapture();
+}
+
+describe("Bus", () => {
+  it("names its members and connects pin groups in order", () => {
+    const snapshot = capture(() => {
+      const data = new Bus({ name: "DATA", width: 3 });
+      header("J1").pins.assign({ "[1..3]": data });
+      header("J2").pins.assign({ "[3..1]": data });
+    });
+
+    const [data] = snapshot.buses!;
+    expect(data.label).toBe("DATA[0..2]");
+    expect(data.nets.map(n => n.name)).toEqual(["DATA0", "DATA1", "DATA2"]);
+    expect(data.at(0).pins.map(p => `${p.component.ref}.${p.name}`)).toEqual(["J1.1", "J2.3"]);
+    expect(data.at(2).pins.map(p => `${p.component.ref}.${p.name}`)).toEqual(["J1.3", "J2.1"]);
+  });
+
+  it("rejects connections of the wrong width", () => {
+    capture(() => {
+      const data = new Bus({ name: "DATA", width: 3 });
+      const j1 = header("J1");
+
+      expect(() => j1.pins.assign({ "[1..2]": data })).toThrow(/Width mismatch: pin group '\[1\.\.2\]' of J1 has 2 pin\(s\) but bus 'DATA\[0\.\.2\]' has width 3/);
+      expect(() => j1.pins[1].tie(data)).toThrow(/Width mismatch/);
+      expect(() => data.tie(new Bus({ name: "ADDR", width: 2 }))).toThrow(/Width mismatch: cannot tie bus 'DATA\[0\.\.2\]' \(width 3\) to bus 'ADDR\[0\.\.1\]'/);
+      expect(() => data.tie([j1.pins[1], j1.pins[2], j1.pins[3]])).not.toThrow();
+      expect(j1.pins[2].net).toBe(data.at(1));
+    });
+  });
+
+  it("keeps differential pair nets named as a pair", () => {
+    const snapshot = capture(() => {
+      const usb = new DiffPair({ name: "USB_D" });
+      const j1 = header("J1");
+      j1.pins.assign({ "1,2": usb });
+      j1.pins[3].tie(new Net({ name: "VBUS" }));
+      header("J2").pins.assign({ "1,2": usb });
+    });
+
+    const [usb] = snapshot.buses as DiffPair[];
+    expect(usb.p.name).toBe("USB_D+");
+    expect(usb.n.name).toBe("USB_D-");
+    expect(new DiffPair({ name: "LVDS", suffixes: ["_P", "_N"] }).nets.map(n => n.name)).toEqual(["LVDS_P", "LVDS_N"]);
+    expect(() => new DiffPair({ name: "CLK", suffixes: ["_A", "_B"] as any })).toThrow(/KiCad does not recognise as a pair/);
+
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+    expect(netlist).toMatch(/\(name "USB_D\+"\)[\s\S]*\(node \(ref "J1"\) \(pin "1"\)/);
+    expect(netlist).toContain('(name "USB_D-")');
+  });
+
+  it("draws bus entries, a bus line and the bus label", () => {
+    const snapshot = capture(() => {
+      const data = new Bus({ name: "DATA", width: 3 });
+      header("J1").pins.assign({ "[1..3]": data });
+      header("J2").pins.assign({ "[1..3]": data });
+      const usb = new DiffPair({ name: "USB_D" });
+      const j3 = header("J3");
+      j3.pins.assign({ "1,2": usb });
+      j3.pins[3].dnc();
+    });
+
+    const content = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+
+    expect(content.match(/\(bus_entry\s/g)).toHaveLength(6);
+    expect(content.match(/\(bus\s+\(pts/g)).toHaveLength(2);
+    expect(content.match(/\(global_label "DATA\[0\.\.2\]"/g)).toHaveLength(2);
+    expect(content).toMatch(/\(global_label "DATA0"/);
+    // Differential pairs are routed as plain nets
+    expect(content).toMatch(/\(global_label "USB_D\+"/);
+    expect(content).not.toContain('"USB_D"');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Composable, Net, CircuitContext } from "../synth";
+import { registry } from "../synth/Registry";
+
+const resistor = (ref: string) => new Component({ symbol: "Device:R", ref, footprint: "Resistor_SMD:R_0603_1608Metric" });
+
+class Divider extends Composable<"IN" | "OUT"> {
+  protected defineInterface() {
+    const top = resistor(`${this.ref}_R1`);
+    const bottom = resistor(`${this.ref}_R2`);
+    top.pins[2].tie(bottom.pins[1]);
+    return { IN: top.pins[1], OUT: top.pins[2] };
+  }
+}
+
+class Board extends Schematic {
+  constructor(name: string, private readonly build: () => void) {
+    super({ name });
+  }
+  generate() {
+    this.build();
+  }
+}
+
+describe("CircuitContext", () => {
+  it("builds a schematic while another one is being generated", () => {
+    let inner: ReturnType<Schematic["_generateWithCapture"]> | undefined;
+    const outer = new Board("Outer", () => {
+      resistor("R1");
+      inner = new Board("Inner", () => resistor("R100"))._generateWithCapture();
+      resistor("R2");
+    })._generateWithCapture();
+
+    expect(outer.components.map(c => c.ref)).toEqual(["R1", "R2"]);
+    expect(inner!.components.map(c => c.ref)).toEqual(["R100"]);
+  });
+
+  it("keeps concurrent builds apart", async () => {
+    const build = (context: CircuitContext, name: string) => context.run(async () => {
+      context.registry.start();
+      new Net({ name: `${name}_A` });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      new Net({ name: `${name}_B` });
+      context.registry.stop();
+    });
+    const first = new CircuitContext();
+    const second = new CircuitContext();
+    await Promise.all([build(first, "FIRST"), build(second, "SECOND")]);
+
+    expect(first.registry.getNets().map(n => n.name)).toEqual(["FIRST_A", "FIRST_B"]);
+    expect(second.registry.getNets().map(n => n.name)).toEqual(["SECOND_A", "SECOND_B"]);
+  });
+
+  it("does not leak the active composable into other contexts", () => {
+    let standalone: Component<any> | undefined;
+    class Probe extends Composable<"IN"> {
+      protected defineInterface() {
+        // e.g. a test helper that builds a part of its own while this interface is defined
+        new CircuitContext().run(() => { standalone = resistor("R9"); });
+        return { IN: resistor("R1").pins[1] };
+      }
+    }
+
+    const snapshot = new Board("Board", () => {
+      new Probe({ ref: "P1" }).pins.IN.tie(new Net({ name: "IN" }));
+    })._generateWithCapture();
+
+    expect(standalone!.parent).toBeUndefined();
+    expect(snapshot.components.map(c => c.ref)).toEqual(["R1"]);
+  });
+
+  it("defines a composable's interface in the context it was created in", () => {
+    const context = new CircuitContext();
+    context.registry.start();
+    const div = context.run(() => new Divider({ ref: "DIV2" }));
+    // First access outside the context
+    expect(div.pins.OUT).toBeDefined();
+    expect(context.registry.getComponents().map(c => c.ref)).toEqual(["DIV2_R1", "DIV2_R2"]);
+    expect(context.registry.getComponents().map(c => c.parent?.ref)).toEqual(["DIV2", "DIV2"]);
+  });
+
+  it("falls back to the global registry outside of any context", () => {
+    registry.start();
+    const net = new Net({ name: "GLOBAL" });
+    registry.stop();
+    expect(CircuitContext.current.registry).toBe(registry);
+    expect(registry.getNets()).toEqual([net]);
+  });
+
+  it("leaves the generated circuit in the global registry for callers outside of any context", () => {
+    const snapshot = new Board("Global", () => new Divider({ ref: "DIV1" }).pins.OUT)._generateWithCapture();
+    expect(registry.getComponents()).toEqual(snapshot.components);
+    expect(registry.getComposables().map(c => c.ref)).toEqual(["DIV1"]);
+
+    let inner: ReturnType<Schematic["_generateWithCapture"]> | undefined;
+    new Board("Outer", () => {
+      inner = new Board("Inner", () => resistor("R100"))._generateWithCapture();
+    })._generateWithCapture();
+    // Only the outermost generation is mirrored
+    expect(inner!.components.map(c => c.ref)).toEqual(["R100"]);
+    expect(registry.getComponents()).toEqual([]);
+  });
+});
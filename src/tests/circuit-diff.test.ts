@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Net, toJSON } from "../synth";
+import { diffCircuits, formatEco } from "../cli/utils/diff";
+
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Board extends Schematic {
+  constructor(private readonly version: 1 | 2) {
+    super({ name: "Diff" });
+  }
+
+  generate() {
+    const v2 = this.version === 2;
+    const vcc = new Net({ name: "VCC" });
+    const gnd = new Net({ name: "GND" });
+    const sda = new Net({ name: v2 ? "I2C_SDA" : "SDA" });
+
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint, value: v2 ? "10K" : "10k" });
+    const r2 = new Component({ symbol: "Device:R", ref: "R2", footprint: v2 ? "Resistor_SMD:R_0402_1005Metric" : footprint, value: v2 ? "4k7" : "10k" });
+    const r3 = new Component({ symbol: "Device:R", ref: "R3", footprint, value: "1k", fields: v2 ? { MPN: "RC0603" } : {} });
+    r1.pins[1].tie(vcc);
+    r1.pins[2].tie(sda);
+    r2.pins[1].tie(vcc);
+    r2.pins[2].tie(sda);
+    r3.pins[1].tie(sda);
+    r3.pins[2].tie(v2 ? vcc : gnd);
+
+    if (v2) {
+      const r4 = new Component({ symbol: "Device:R", ref: "R4", footprint, value: "100k" });
+      r4.pins[1].tie(vcc);
+    } else {
+      const r5 = new Component({ symbol: "Device:R", ref: "R5", footprint, value: "0R" });
+      r5.pins[1].tie(gnd);
+      r5.pins[2].tie(new Net({ name: "SHIELD" }));
+    }
+  }
+}
+
+describe("Circuit diff", () => {
+  const before = toJSON(new Board(1)._generateWithCapture());
+  const after = toJSON(new Board(2)._generateWithCapture());
+
+  it("finds component changes", () => {
+    const { components } = diffCircuits(before, after);
+    expect(components.added).toEqual([{ ref: "R4", value: "100k", footprint }]);
+    expect(components.removed).toEqual([{ ref: "R5", value: "0R", footprint }]);
+    expect(components.changed).toEqual([
+      { ref: "R2", changes: [
+        { property: "value", before: "10k", after: "4k7" },
+        { property: "footprint", before: footprint, after: "Resistor_SMD:R_0402_1005Metric" },
+      ] },
+      { ref: "R3", changes: [{ property: "MPN", before: undefined, after: "RC0603" }] },
+    ]);
+  });
+
+  it("detects renamed nets and moved pins", () => {
+    const { nets, pins } = diffCircuits(before, after);
+    expect(nets.renamed).toEqual([{ from: "SDA", to: "I2C_SDA", similarity: 1 }]);
+    expect(nets.removed).toEqual(["SHIELD"]);
+    expect(nets.added).toEqual([]);
+    expect(pins).toEqual([{ pin: "R3.2", from: "GND", to: "VCC" }]);
+  });
+
+  it("reports identical circuits as unchanged", () => {
+    expect(formatEco(diffCircuits(before, before), "HEAD", "HEAD")).toBe("# ECO: Diff\n\nChanges from `HEAD` to `HEAD`.\n\nNo changes.\n");
+  });
+
+  it("writes a Markdown ECO report", () => {
+    const report = formatEco(diffCircuits(before, after), "main", "working tree");
+    expect(report).toContain("### Added\n\n- **R4** 100k, Resistor_SMD:R_0603_1608Metric\n");
+    expect(report).toContain("- **R2**: value 10k → 4k7; footprint Resistor_SMD:R_0603_1608Metric → Resistor_SMD:R_0402_1005Metric\n");
+    expect(report).toContain("### Renamed\n\n- `SDA` → `I2C_SDA` (100% of pins)\n");
+    expect(report).toContain("## Connections\n\n- `R3.2`: `GND` → `VCC`\n");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Composable, Net, CircuitGraph } from "../synth";
+
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Pullup extends Composable<"LINE" | "VCC"> {
+  protected defineInterface() {
+    const r = new Component({ symbol: "Device:R", ref: `${this.ref}_R1`, footprint, value: "4k7" });
+    return { LINE: r.pins[1], VCC: r.pins[2] };
+  }
+}
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Graph" });
+  }
+
+  generate() {
+    const vcc = new Net({ name: "VCC", class: "Power", voltage: 3.3 });
+    const gnd = new Net({ name: "GND", class: "Power" });
+    const sda = new Net({ name: "SDA" });
+    const led = new Net({ name: "LED_K" });
+
+    const mcu = new Component({
+      symbol: "Device:R", ref: "U1", footprint,
+      pins: pin => ({ VCC: pin(1), GND: pin(2), GPIO1: pin(3), GPIO2: pin(4), GPIO3: pin(5) }),
+    });
+    mcu.pins.VCC.tie(vcc);
+    mcu.pins.GND.tie(gnd);
+    mcu.pins.GPIO1.tie(sda);
+    mcu.pins.GPIO3.dnc();
+
+    const pullup = new Pullup({ ref: "PU" });
+    pullup.pins.LINE.tie(sda);
+    pullup.pins.VCC.tie(vcc);
+
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint, value: "330" });
+    const d1 = new Component({ symbol: "Device:R", ref: "D1", footprint });
+    r1.pins[1].tie(mcu.pins.GPIO2);
+    r1.pins[2].tie(led);
+    d1.pins[1].tie(led);
+    d1.pins[2].tie(gnd);
+  }
+}
+
+describe("CircuitGraph", () => {
+  const graph = new CircuitGraph(new Board()._generateWithCapture());
+  const refs = (components: { ref: string }[]) => components.map(comp => comp.ref).sort();
+  const names = (pins: { component: { ref: string }; name: string }[]) => pins.map(pin => `${pin.component.ref}.${pin.name}`);
+
+  it("selects nets", () => {
+    expect(graph.nets({ class: "Power" }).map(net => net.name)).toEqual(["VCC", "GND"]);
+    expect(graph.nets({ voltage: 3.3 }).map(net => net.name)).toEqual(["VCC"]);
+    expect(graph.nets({ name: "LED*" }).map(net => net.name)).toEqual(["LED_K"]);
+    expect(graph.nets().some(net => net.pins.some(pin => pin.component.symbol === "Device:DNC"))).toBe(false);
+  });
+
+  it("finds what is connected to a net", () => {
+    expect(refs(graph.componentsOn("SDA"))).toEqual(["PU_R1", "U1"]);
+    expect(refs(graph.componentsOn(graph.net("GND")!))).toEqual(["D1", "U1"]);
+    expect(graph.fanOut("VCC")).toBe(2);
+    expect(graph.pinsOn("NOPE")).toEqual([]);
+  });
+
+  it("finds the neighbors of a component", () => {
+    const u1 = graph.component("U1")!;
+    expect(refs(graph.neighbors(u1))).toEqual(["D1", "PU_R1", "R1"]);
+    expect(refs(graph.neighbors(u1, { except: { class: "Power" } }))).toEqual(["PU_R1", "R1"]);
+    expect(graph.netsOf(u1).map(net => net.name)).toEqual(["VCC", "GND", "SDA", expect.stringMatching(/R1/)]);
+  });
+
+  it("matches pins by pattern", () => {
+    expect(names(graph.pinsMatching("U1.GPIO*"))).toEqual(["U1.3", "U1.4", "U1.5"]);
+    expect(names(graph.pinsMatching("*.VCC"))).toEqual(["U1.1"]);
+    expect(() => graph.pinsMatching("U1")).toThrow("Invalid pin pattern 'U1'");
+  });
+
+  it("finds the shortest path between pins", () => {
+    const [gpio2] = graph.pinsMatching("U1.GPIO2");
+    const [cathode] = graph.pinsMatching("D1.2");
+    expect(names(graph.path(gpio2, cathode)!)).toEqual(["U1.4", "U1.2", "D1.2"]);
+    expect(names(graph.path(gpio2, cathode, { except: { name: "GND" } })!)).toEqual(["U1.4", "R1.1", "R1.2", "D1.1", "D1.2"]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Composable, Net, NetClass, Bus, DiffPair, toJSON, fromJSON, CircuitIR } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { DesignRuleGenerator } from "../kicad/DesignRuleGenerator";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+const power = new NetClass({ name: "Power", trackWidth: 0.5 });
+
+class Divider extends Composable<"IN" | "OUT" | "GND"> {
+  constructor(ref: string) {
+    super({ ref, schematicPosition: { x: 40, y: 20 } });
+    this.makeSubschematic({ name: "Divider" });
+  }
+
+  protected defineInterface() {
+    const top = new Component({ symbol: "Device:R", ref: `${this.ref}_R1`, footprint, value: "10k 1%" });
+    const bottom = new Component({ symbol: "Device:R", ref: `${this.ref}_R2`, footprint, value: "4k7", properties: { power: "1/4W" } });
+    top.pins[2].tie(bottom.pins[1]);
+    return { IN: top.pins[1], OUT: top.pins[2], GND: bottom.pins[2] };
+  }
+}
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "IR", variants: ["lite"], designRules: [{ type: "clearance", nets: power, min: 0.4 }] });
+  }
+
+  generate() {
+    const vcc = new Net({ name: "VCC", class: power, voltage: 5 });
+    const gnd = new Net({ name: "GND", class: power });
+    const divider = new Divider("DIV");
+    divider.pins.IN.tie(vcc);
+    divider.pins.GND.tie(gnd);
+
+    const data = new Bus({ name: "D", width: 2 });
+    const load = new Component({
+      symbol: "Device:R", ref: "R1", footprint, value: "1k",
+      fields: { MPN: "RC0603" }, variants: { lite: { dnp: true } },
+      pcbPosition: { x: 10, y: 5, rotation: 90 },
+    });
+    load.pins[1].tie(divider.pins.OUT);
+    load.pins[2].dnc("unused");
+    const pull = new Component({ symbol: "Device:R", ref: "R2", footprint, value: "10k" });
+    pull.pins[1].tie(data.nets[0]);
+    pull.pins[2].tie(data.nets[1]);
+
+    this.designRule({ type: "trackWidth", nets: [data, "GND"], min: 0.2 });
+    this.designRule({ type: "keepout", around: divider });
+  }
+}
+
+const roundTrip = (ir: CircuitIR) => fromJSON(JSON.parse(JSON.stringify(ir)));
+
+describe("Circuit IR", () => {
+  const snapshot = new Board()._generateWithCapture();
+  const ir = toJSON(snapshot);
+
+  it("describes components, pins, nets and the hierarchy", () => {
+    expect(ir).toMatchObject({ format: "pcbs-circuit", version: 1, name: "IR", variants: ["lite"] });
+    expect(ir.composables).toEqual([expect.objectContaining({ ref: "DIV", type: "Divider", sheet: "Divider", schematicPosition: { x: 40, y: 20 } })]);
+
+    const r1 = ir.components.find(c => c.ref === "R1")!;
+    expect(r1).toMatchObject({ fields: { MPN: "RC0603" }, variants: { lite: { dnp: true } }, pcbPosition: { x: 10, y: 5, rotation: 90 } });
+    expect(r1.pins).toEqual([{ number: "1", names: [], net: expect.any(String) }, { number: "2", names: [], dnc: "unused" }]);
+    expect(ir.components.find(c => c.ref === "DIV_R2")).toMatchObject({ parent: 0, properties: { resistance: 4700, power: 0.25 } });
+    expect(ir.components.some(c => c.symbol === "Device:DNC")).toBe(false);
+
+    expect(ir.nets.find(n => n.name === "VCC")).toMatchObject({ class: "Power", voltage: 5, nodes: ["DIV_R1.1"] });
+    expect(ir.buses).toEqual([{ name: "D", kind: "bus", nets: ["D0", "D1"] }]);
+    expect(ir.designRules).toEqual([
+      { type: "clearance", nets: [{ netClass: "Power" }], min: 0.4 },
+      { type: "trackWidth", nets: [{ bus: "D" }, "GND"], min: 0.2 },
+      { type: "keepout", around: [{ kind: "composable", ref: "DIV" }] },
+    ]);
+  });
+
+  it("rebuilds an equivalent circuit", () => {
+    const restored = roundTrip(ir);
+    const uuids = new UuidManager();
+    const netlist = (s: typeof snapshot) => new NetlistGenerator(s, lib, uuids, "").generate().replace(/\(date "[^"]*"\)/, "");
+
+    expect(netlist(restored)).toEqual(netlist(snapshot));
+    expect(new DesignRuleGenerator(restored).generate().content).toEqual(new DesignRuleGenerator(snapshot).generate().content);
+
+    const withoutSources = (value: CircuitIR) => JSON.parse(JSON.stringify(value, (key, v) => (key === "source" ? undefined : v)));
+    expect(withoutSources(toJSON(restored))).toEqual(withoutSources(ir));
+  });
+
+  it("keeps the suffixes of differential pairs", () => {
+    class Pairs extends Schematic {
+      constructor() {
+        super({ name: "Pairs" });
+      }
+      generate() {
+        const usb = new DiffPair({ name: "USB_D", suffixes: ["_P", "_N"] });
+        const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint });
+        r1.pins.assign({ "1,2": usb });
+        this.designRule({ type: "clearance", nets: usb, min: 0.2 });
+      }
+    }
+    const pairs = new Pairs()._generateWithCapture();
+    const pairsIR = toJSON(pairs);
+    expect(pairsIR.buses).toEqual([{ name: "USB_D", kind: "diffPair", nets: ["USB_D_P", "USB_D_N"], suffixes: ["_P", "_N"] }]);
+
+    const restored = roundTrip(pairsIR);
+    expect((restored.buses![0] as DiffPair).suffixes).toEqual(["_P", "_N"]);
+    expect(new DesignRuleGenerator(restored).generate().content).toEqual(new DesignRuleGenerator(pairs).generate().content);
+  });
+
+  it("keeps explicit properties apart from those stated by the value", () => {
+    const r2 = roundTrip(ir).components.find(c => c.ref === "DIV_R2")!;
+    expect(r2.properties.withValue("Device:R", "1k")).toMatchObject({ resistance: 1000, power: 0.25 });
+  });
+
+  it("rejects other documents and newer versions", () => {
+    expect(() => fromJSON({ ...ir, format: "other" as "pcbs-circuit" })).toThrow("Not a circuit IR document");
+    expect(() => fromJSON({ ...ir, version: 2 })).toThrow("Circuit IR version 2 is newer than the supported version 1.");
+  });
+});
@@ -0,0 +1,88 @@
+import { afterAll, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Component, Net, Schematic } from "../synth";
+import { DesignChecker, DesignCheckOptions } from "../kicad/DesignChecker";
+import { FootprintLibrary } from "../kicad/FootprintLibrary";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+
+const symbols = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+const footprintRoot = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-check-"));
+fs.mkdirSync(path.join(footprintRoot, "Test.pretty"));
+fs.writeFileSync(path.join(footprintRoot, "Test.pretty", "R_0603.kicad_mod"), `(footprint "R_0603" (layer "F.Cu"))\n`);
+const footprints = new FootprintLibrary([], [footprintRoot]);
+
+afterAll(() => {
+  fs.rmSync(footprintRoot, { recursive: true, force: true });
+});
+
+function check(build: () => void, options?: DesignCheckOptions) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Check" });
+    }
+    generate() {
+      build();
+    }
+  }
+  return new DesignChecker(new Board()._generateWithCapture(), symbols, footprints).check(options);
+}
+
+const resistor = (ref: string, footprint = "Test:R_0603") => new Component({ symbol: "Device:R", ref, footprint });
+
+describe("DesignChecker", () => {
+  it("passes a complete design", () => {
+    const result = check(() => {
+      const vcc = new Net({ name: "VCC", class: "Power" });
+      const gnd = new Net({ name: "GND", class: "Power" });
+      const r1 = resistor("R1");
+      r1.pins[1].tie(vcc);
+      r1.pins[2].tie(gnd);
+    });
+
+    expect(result).toEqual({ findings: [], suppressed: 0, errors: 0, warnings: 0 });
+  });
+
+  it("reports duplicate refs, unresolved libraries and unknown pins", () => {
+    const result = check(() => {
+      const sig = new Net({ name: "SIG" });
+      const r1 = resistor("R1");
+      const r1b = resistor("R1", "Test:Missing");
+      r1.pins[1].tie(sig);
+      r1.pins[2].tie(r1b.pins[1]);
+      r1b.pins[3].tie(sig);
+      r1b.pins[2].dnc();
+      new Component({ symbol: "Device:Missing", ref: "U1", footprint: "Test:R_0603" });
+    });
+
+    const rules = result.findings.filter(f => f.severity === "error").map(f => f.rule);
+    expect(rules).toEqual(["duplicate-ref", "unknown-pin", "unresolved-footprint", "unresolved-symbol"]);
+    expect(result.errors).toBe(4);
+    expect(result.findings.find(f => f.rule === "unknown-pin")).toMatchObject({
+      message: "Unknown Pin: R1 (Device:R) has no pin '3'.",
+      refs: ["R1"],
+      nets: ["SIG"],
+    });
+  });
+
+  it("reports ERC findings and suppresses them per ref and net", () => {
+    const build = () => {
+      const r1 = resistor("R1");
+      const tp1 = resistor("TP1");
+      r1.pins[1].tie(new Net({ name: "FLOATING" }));
+      tp1.pins[1].tie(new Net({ name: "PROBE" }));
+      r1.pins[2].tie(tp1.pins[2]);
+    };
+
+    const result = check(build);
+    expect(result.findings.map(f => `${f.rule}:${f.nets.join(",") || f.refs.join(",")}`).sort()).toEqual([
+      "single-pin-net:FLOATING",
+      "single-pin-net:PROBE",
+    ]);
+
+    const suppressed = check(build, { ignoreRefs: ["TP*"], ignoreNets: ["FLOATING"] });
+    expect(suppressed.findings).toEqual([]);
+    expect(suppressed.suppressed).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Composable, Net, NetClass, DesignRule } from "../synth";
+import { DesignRuleGenerator } from "../kicad/DesignRuleGenerator";
+
+const hv = new NetClass({ name: "HV", clearance: 1 });
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Antenna extends Composable<"FEED"> {
+  protected defineInterface() {
+    const ant = new Component({ symbol: "Device:R", ref: `${this.ref}_AE1`, footprint });
+    const match = new Component({ symbol: "Device:R", ref: `${this.ref}_L1`, footprint });
+    match.pins[2].tie(ant.pins[1]);
+    ant.pins[2].dnc();
+    return { FEED: match.pins[1] };
+  }
+}
+
+class Board extends Schematic {
+  constructor(rules: DesignRule[] = []) {
+    super({
+      name: "Rules",
+      designRules: [
+        { type: "clearance", nets: hv, min: 6 },
+        ...rules,
+      ],
+    });
+  }
+
+  generate() {
+    const vbus = new Net({ name: "VBUS" });
+    const line = new Net({ name: "MAINS_L", class: hv });
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint });
+    r1.pins[1].tie(vbus);
+    r1.pins[2].tie(line);
+    const antenna = new Antenna({ ref: "ANT" });
+    antenna.pins.FEED.tie(new Net({ name: "RF" }));
+
+    this.designRule({ type: "trackWidth", nets: [vbus, "GND*"], min: 0.5, opt: 0.8 });
+    this.designRule({ type: "keepout", name: "Antenna keepout", around: antenna });
+  }
+}
+
+describe("DesignRuleGenerator", () => {
+  it("writes clearance, width and keepout rules", () => {
+    const { content, warnings } = new DesignRuleGenerator(new Board()._generateWithCapture()).generate();
+
+    expect(warnings).toEqual([]);
+    expect(content.startsWith("(version 1)\n")).toBe(true);
+    expect(content).toContain(`(rule "Clearance HV to other nets"
+	(constraint clearance (min 6mm))
+	(condition "(A.NetClass == 'HV' && !(B.NetClass == 'HV')) || (!(A.NetClass == 'HV') && B.NetClass == 'HV')"))`);
+    expect(content).toContain(`(rule "Track width VBUS, GND*"
+	(constraint track_width (min 0.5mm) (opt 0.8mm))
+	(condition "(A.NetName == 'VBUS' || A.NetName == 'GND*')"))`);
+    expect(content).toContain(`(rule "Antenna keepout"
+	(constraint disallow track via zone)
+	(condition "(A.intersectsCourtyard('ANT_AE1') || A.intersectsCourtyard('ANT_L1')) && !(A.memberOfFootprint('ANT_AE1') || A.memberOfFootprint('ANT_L1'))"))`);
+  });
+
+  it("passes custom rules through and skips empty ones", () => {
+    const snapshot = new Board([
+      { type: "clearance", name: "Mains to USB", nets: "MAINS_*", to: ["VBUS", hv], min: 3.2 },
+      { type: "custom", name: "Outer holes", layer: "outer", constraint: "(constraint hole_size (min 0.3mm))", condition: "A.Type == 'Via'" },
+      { type: "trackWidth", nets: "RF" },
+    ])._generateWithCapture();
+    const { content, warnings } = new DesignRuleGenerator(snapshot).generate();
+
+    expect(content).toContain(`(condition "(A.NetName == 'MAINS_*' && (B.NetName == 'VBUS' || B.NetClass == 'HV')) || ((A.NetName == 'VBUS' || A.NetClass == 'HV') && B.NetName == 'MAINS_*')")`);
+    expect(content).toContain(`(rule "Outer holes"
+	(layer outer)
+	(constraint hole_size (min 0.3mm))
+	(condition "A.Type == 'Via'"))`);
+    expect(warnings).toEqual(["Design rule 'RF' sets no track width limit and was skipped."]);
+  });
+});
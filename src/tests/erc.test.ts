@@ -0,0 +1,105 @@
+import { afterAll, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Component, Net, Schematic } from "../synth";
+import { ErcChecker } from "../kicad/ErcChecker";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+
+const libDir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-erc-"));
+const pin = (type: string, number: string) =>
+  `(pin ${type} line (at 0 ${-2.54 * Number(number)} 0) (length 2.54) (name "P${number}" (effects (font (size 1.27 1.27)))) (number "${number}" (effects (font (size 1.27 1.27)))))`;
+
+fs.writeFileSync(path.join(libDir, "Erc.kicad_sym"), `(kicad_symbol_lib (version 20211014) (generator test)
+  (symbol "Buffer" (in_bom yes) (on_board yes)
+    (property "Reference" "U" (at 0 0 0) (effects (font (size 1.27 1.27))))
+    (symbol "Buffer_1_1" ${pin("input", "1")} ${pin("output", "2")} ${pin("power_in", "3")} ${pin("no_connect", "4")})
+  )
+  (symbol "Regulator" (in_bom yes) (on_board yes)
+    (property "Reference" "U" (at 0 0 0) (effects (font (size 1.27 1.27))))
+    (symbol "Regulator_1_1" ${pin("power_out", "1")})
+  )
+)`);
+
+const lib = new SymbolLibrary([libDir]);
+
+afterAll(() => {
+  fs.rmSync(libDir, { recursive: true, force: true });
+});
+
+function check(build: () => void) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Erc" });
+    }
+    generate() {
+      build();
+    }
+  }
+  return new ErcChecker(new Board()._generateWithCapture(), lib).check();
+}
+
+const buffer = (ref: string) => new Component({ symbol: "Erc:Buffer", ref, footprint: "Package_SO:SOIC-8" });
+
+describe("ErcChecker", () => {
+  it("reports conflicting outputs as errors", () => {
+    const result = check(() => {
+      const vcc = new Net({ name: "VCC", class: "Power" });
+      const out = new Net({ name: "OUT" });
+      const u1 = buffer("U1");
+      const u2 = buffer("U2");
+      u1.pins[2].tie(out);
+      u2.pins[2].tie(out);
+      u1.pins[1].tie(u2.pins[1]);
+      u1.pins[3].tie(vcc);
+      u2.pins[3].tie(vcc);
+    });
+
+    expect(result.errors).toEqual([
+      "Output Conflict: Net 'OUT' is driven by multiple outputs: U1.2 (output), U2.2 (output).",
+    ]);
+  });
+
+  it("warns about undriven inputs, unpowered power inputs and single pin nets", () => {
+    const result = check(() => {
+      const u1 = buffer("U1");
+      u1.pins[1].tie(new Net({ name: "EN" }));
+      u1.pins[2].tie(new Net({ name: "SPARE" }));
+      u1.pins[3].tie(new Net({ name: "VCC", class: "Power" }));
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toContain("Undriven Input: Net 'EN' has input pins but no driver: U1.1 (input).");
+    expect(result.warnings).toContain("Single Pin Net: Net 'SPARE' only connects U1.2 (output).");
+    expect(result.warnings).toContain("Unpowered Net: Net 'VCC' has power input pins but no power output pin: U1.3 (power_in).");
+  });
+
+  it("accepts a power output as source and ignores no_connect pins", () => {
+    const result = check(() => {
+      const vcc = new Net({ name: "VCC", class: "Power" });
+      const reg = new Component({ symbol: "Erc:Regulator", ref: "U1", footprint: "Package_TO_SOT_SMD:SOT-23" });
+      const u2 = buffer("U2");
+      reg.pins[1].tie(vcc);
+      u2.pins[3].tie(vcc);
+      u2.pins[1].tie(u2.pins[2]);
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("warns about pins that are neither connected nor marked DNC", () => {
+    const result = check(() => {
+      const u1 = buffer("U1");
+      u1.pins[1].tie(u1.pins[2]);
+      u1.pins[3].dnc();
+    });
+
+    expect(result.warnings).toEqual([]);
+
+    const unconnected = check(() => {
+      buffer("U1").pins[1].tie(new Net({ name: "EN" }));
+    });
+    expect(unconnected.warnings).toContain("Unconnected Pin: U1 (Erc:Buffer) pin 2 is not connected to any net and not marked as Do Not Connect (DNC).");
+  });
+});
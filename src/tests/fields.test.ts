@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Schematic, Component } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { generateBom } from "../cli/utils/bom";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+const resistor = (ref: string, fields?: Record<string, string>) =>
+  new Component({ symbol: "Device:R", ref, value: "10k", footprint: "Resistor_SMD:R_0603_1608Metric", fields });
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Fields" });
+  }
+  generate() {
+    const yageo = { Manufacturer: "Yageo", MPN: "RC0603FR-0710KL", Datasheet: "https://example.com/rc.pdf" };
+    resistor("R1", yageo);
+    resistor("R2", yageo);
+    resistor("R3", { Manufacturer: "Vishay", "Supplier 2": "Mouser, 71-CRCW060310K0FKEA" });
+  }
+}
+
+describe("Component fields", () => {
+  it("writes fields to schematic symbols and netlist components", () => {
+    const snapshot = new Board()._generateWithCapture();
+
+    const schematic = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+    expect(schematic).toMatch(/\(property\s+"Datasheet"\s+"https:\/\/example\.com\/rc\.pdf"/);
+    expect(schematic).toMatch(/\(property\s+"MPN"\s+"RC0603FR-0710KL"/);
+    expect(schematic).toMatch(/\(property\s+"Supplier 2"\s+"Mouser, 71-CRCW060310K0FKEA"/);
+
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+    expect(netlist).toMatch(/\(ref "R1"\)[\s\S]*?\(field "https:\/\/example\.com\/rc\.pdf"\s*\(name "Datasheet"\)\)/);
+    expect(netlist).toMatch(/\(ref "R1"\)[\s\S]*?\(field "Yageo"\s*\(name "Manufacturer"\)\)\s*\(field "RC0603FR-0710KL"\s*\(name "MPN"\)\)/);
+  });
+
+  it("writes the description to the schematic and the netlist, unless a field overrides it", () => {
+    class Described extends Schematic {
+      constructor() {
+        super({ name: "Described" });
+      }
+      generate() {
+        new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric", description: "Pull-up" });
+        new Component({ symbol: "Device:R", ref: "R2", footprint: "Resistor_SMD:R_0603_1608Metric", description: "Pull-up", fields: { Description: "Bias" } });
+      }
+    }
+    const snapshot = new Described()._generateWithCapture();
+
+    const schematic = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+    expect(schematic).toMatch(/\(property\s+"Reference"\s+"R1"[\s\S]*?\(property\s+"Description"\s+"Pull-up"/);
+    expect(schematic).toMatch(/\(property\s+"Reference"\s+"R2"[\s\S]*?\(property\s+"Description"\s+"Bias"/);
+
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+    expect(netlist).toMatch(/\(ref "R1"\)[\s\S]*?\(description "Pull-up"\)/);
+  });
+
+  it("adds a BOM column per field and groups by it", () => {
+    const snapshot = new Board()._generateWithCapture();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-bom-"));
+    try {
+      const bom = fs.readFileSync(generateBom("Fields", dir, snapshot.components)!, "utf-8").split("\n");
+      expect(bom).toEqual([
+        "Comment,Designator,Footprint,LCSC Part #,Manufacturer,MPN,Datasheet,Supplier 2",
+        "10kΩ,\"R1,R2\",R_0603_1608Metric,,Yageo,RC0603FR-0710KL,https://example.com/rc.pdf,",
+        "10kΩ,R3,R_0603_1608Metric,,Vishay,,,\"Mouser, 71-CRCW060310K0FKEA\"",
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects fields that other options set", () => {
+    expect(() => resistor("R9", { Value: "22k" })).toThrow("Field 'Value' of R9 is set by the 'value' option, not by fields.");
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Composable, Net, ComponentOptions } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { SheetHierarchy } from "../kicad/SheetHierarchy";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+class Divider extends Composable<"IN" | "OUT" | "GND"> {
+  constructor(ref: string, private readonly value = "10k", private readonly bottomOptions: Partial<ComponentOptions> = {}) {
+    super({ ref });
+    this.makeSubschematic();
+  }
+
+  protected defineInterface() {
+    const top = new Component({ symbol: "Device:R", ref: `${this.ref}_R1`, footprint: "Resistor_SMD:R_0603_1608Metric", value: this.value });
+    const bottom = new Component({ symbol: "Device:R", ref: `${this.ref}_R2`, footprint: "Resistor_SMD:R_0603_1608Metric", value: this.value, ...this.bottomOptions });
+    top.pins[2].tie(bottom.pins[1]);
+    return { IN: top.pins[1], OUT: top.pins[2], GND: bottom.pins[2] };
+  }
+}
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Hierarchy" });
+  }
+
+  generate() {
+    const gnd = new Net({ name: "GND", class: "Power" });
+    const vin = new Net({ name: "VIN" });
+    const sense = new Net({ name: "SENSE" });
+
+    const divider = new Divider("DIV1");
+    divider.pins.IN.tie(vin);
+    divider.pins.OUT.tie(sense);
+    divider.pins.GND.tie(gnd);
+
+    const load = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric", value: "1k" });
+    load.pins[1].tie(sense);
+    load.pins[2].tie(vin);
+  }
+}
+
+class Channels extends Schematic {
+  constructor(private readonly values: string[], private readonly bottomOptions: Partial<ComponentOptions>[] = []) {
+    super({ name: "Channels", variants: ["lite"] });
+  }
+
+  generate() {
+    const gnd = new Net({ name: "GND", class: "Power" });
+    const vin = new Net({ name: "VIN" });
+    this.values.forEach((value, index) => {
+      const divider = new Divider(`CH${index + 1}`, value, this.bottomOptions[index]);
+      divider.pins.IN.tie(vin);
+      const sense = new Net({ name: `SENSE${index + 1}` });
+      divider.pins.OUT.tie(sense);
+      divider.pins.GND.tie(gnd);
+
+      const load = new Component({ symbol: "Device:R", ref: `R${index + 1}`, footprint: "Resistor_SMD:R_0603_1608Metric", value: "1k" });
+      load.pins[1].tie(sense);
+      load.pins[2].tie(gnd);
+    });
+  }
+}
+
+describe("Hierarchical sheets", () => {
+  it("resolves one sheet per subschematic with boundary nets as ports", () => {
+    const hierarchy = new SheetHierarchy(new Board()._generateWithCapture());
+
+    expect(hierarchy.isHierarchical).toBe(true);
+    expect(hierarchy.sheets.map(s => s.path)).toEqual(["/", "/Divider/"]);
+
+    const [root, child] = hierarchy.sheets;
+    expect(root.components.map(c => c.ref)).toEqual(["R1"]);
+    expect(child.fileName).toBe("Divider.kicad_sch");
+    expect(child.components.map(c => c.ref)).toEqual(["DIV1_R1", "DIV1_R2"]);
+    // GND is a power net and connects through power symbols instead of a sheet pin
+    expect(child.ports.map(n => n.name)).toEqual(["SENSE", "VIN"]);
+  });
+
+  it("emits a child file with hierarchical labels and a sheet symbol on the parent", () => {
+    const snapshot = new Board()._generateWithCapture();
+    const uuids = new UuidManager();
+    uuids.set("ROOT", "root-uuid");
+    uuids.set("sheet:/Divider/", "sheet-uuid");
+    const hierarchy = new SheetHierarchy(snapshot);
+
+    const [root, child] = new SchematicGenerator(snapshot, lib, uuids, {}, hierarchy).generateSheets();
+
+    expect(root.fileName).toBe("Hierarchy.kicad_sch");
+    expect(root.content).toContain('(property "Sheetfile" "Divider.kicad_sch"');
+    expect(root.content).toContain('(pin "VIN" bidirectional');
+    expect(root.content).toContain('(sheet_instances');
+    expect(root.content).toMatch(/\(global_label "SENSE"/);
+
+    expect(child.fileName).toBe("Divider.kicad_sch");
+    expect(child.content).toMatch(/\(hierarchical_label "SENSE"/);
+    expect(child.content).toContain('(property "Reference" "DIV1_R1"');
+    expect(child.content).not.toContain('(property "Reference" "R1"');
+    expect(child.content).toContain('(path "/root-uuid/sheet-uuid"');
+
+    const netlist = new NetlistGenerator(snapshot, lib, uuids, "", hierarchy).generate();
+    expect(netlist).toContain('(name "/Divider/")');
+    expect(netlist).toMatch(/\(sheetpath\s+\(names "\/Divider\/"\)\s+\(tstamps "\/sheet-uuid\/"\)/);
+  });
+
+  it("shares one child file between identical composable instances", () => {
+    const snapshot = new Channels(["10k", "10k"])._generateWithCapture();
+    const uuids = new UuidManager();
+    uuids.set("ROOT", "root-uuid");
+    uuids.set("sheet:/Divider_CH1/", "sheet-1");
+    uuids.set("sheet:/Divider_CH2/", "sheet-2");
+    const hierarchy = new SheetHierarchy(snapshot);
+
+    const [ch1, ch2] = hierarchy.sheets.slice(1);
+    expect(ch2.shared).toBe(ch1);
+    expect(ch1.fileName).toBe("Divider.kicad_sch");
+    expect(ch2.fileName).toBe("Divider.kicad_sch");
+
+    const generated = new SchematicGenerator(snapshot, lib, uuids, {}, hierarchy).generateSheets();
+    expect(generated.map(g => g.fileName)).toEqual(["Channels.kicad_sch", "Divider.kicad_sch"]);
+
+    const [root, child] = generated;
+    expect(root.content.match(/\(property "Sheetfile" "Divider.kicad_sch"/g)).toHaveLength(2);
+    // Both sheet symbols expose the pin under the label name used inside the shared file
+    expect(root.content.match(/\(pin "SENSE1" bidirectional/g)).toHaveLength(2);
+    expect(root.content).toMatch(/\(global_label "SENSE2"/);
+
+    expect(child.content).not.toContain('(property "Reference" "CH2_R1"');
+    expect(child.content).toMatch(/\(path "\/root-uuid\/sheet-1"\s+\(reference "CH1_R1"\)/);
+    expect(child.content).toMatch(/\(path "\/root-uuid\/sheet-2"\s+\(reference "CH2_R1"\)/);
+
+    const [r1, r2] = snapshot.components.filter(c => c.ref.endsWith("_R1"));
+    expect(hierarchy.symbolUuid(r2, uuids)).toBe(hierarchy.symbolUuid(r1, uuids));
+
+    const netlist = new NetlistGenerator(snapshot, lib, uuids, "", hierarchy).generate();
+    expect(netlist).toMatch(/\(sheetpath\s+\(names "\/Divider_CH2\/"\)\s+\(tstamps "\/sheet-2\/"\)/);
+  });
+
+  it("keeps separate files when instances differ", () => {
+    const hierarchy = new SheetHierarchy(new Channels(["10k", "4k7"])._generateWithCapture());
+    const [ch1, ch2] = hierarchy.sheets.slice(1);
+
+    expect(ch2.shared).toBeUndefined();
+    expect(ch1.fileName).toBe("Divider_CH1.kicad_sch");
+    expect(ch2.fileName).toBe("Divider_CH2.kicad_sch");
+  });
+
+  it("keeps separate files when instances differ in DNP, variants or fields", () => {
+    const differences: Partial<ComponentOptions>[][] = [
+      [{}, { dnp: true }],
+      [{}, { variants: { lite: { dnp: true } } }],
+      [{ fields: { MPN: "A" } }, { fields: { MPN: "B" } }],
+    ];
+    for (const bottomOptions of differences) {
+      const [ch1, ch2] = new SheetHierarchy(new Channels(["10k", "10k"], bottomOptions)._generateWithCapture()).sheets.slice(1);
+      expect(ch2.shared).toBeUndefined();
+      expect(ch1.fileName).not.toBe(ch2.fileName);
+    }
+
+    const same = new SheetHierarchy(new Channels(["10k", "10k"], [{ fields: { MPN: "A", Manufacturer: "X" } }, { fields: { Manufacturer: "X", MPN: "A" } }])._generateWithCapture());
+    expect(same.sheets[2].shared).toBe(same.sheets[1]);
+  });
+});
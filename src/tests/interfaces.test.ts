@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Composable, Net, I2C, SPI, UART, USB, connect } from "../synth";
+
+const part = (ref: string) => new Component({ symbol: "Device:R", ref, footprint: "Resistor_SMD:R_0603_1608Metric" });
+
+class Mcu extends Composable<"SDA" | "SCL" | "SCK" | "MOSI" | "MISO" | "CS0" | "TX" | "RX" | "RTS" | "CTS"> {
+  readonly i2c = I2C.port(this);
+  readonly spi = SPI.port(this, { role: "controller", pins: { CS: "CS0" } });
+  readonly uart = UART.port(this, { pins: { RTS: "RTS", CTS: "CTS" } });
+
+  protected defineInterface() {
+    const names = ["SDA", "SCL", "SCK", "MOSI", "MISO", "CS0", "TX", "RX", "RTS", "CTS"] as const;
+    return Object.fromEntries(names.map((name, i) => [name, part(`${this.ref}_P${i + 1}`).pins[1]])) as Record<typeof names[number], any>;
+  }
+}
+
+class Peripheral extends Composable<"SDA" | "SCL" | "SCK" | "MOSI" | "MISO" | "CS" | "TX" | "RX"> {
+  readonly i2c = I2C.port(this, { role: "target" });
+  readonly spi = SPI.port(this, { role: "peripheral", pins: { CS: "CS" } });
+  readonly uart = UART.port(this);
+
+  protected defineInterface() {
+    const names = ["SDA", "SCL", "SCK", "MOSI", "MISO", "CS", "TX", "RX"] as const;
+    return Object.fromEntries(names.map((name, i) => [name, part(`${this.ref}_P${i + 1}`).pins[1]])) as Record<typeof names[number], any>;
+  }
+}
+
+function build(body: () => void) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Interfaces" });
+    }
+    generate() {
+      body();
+    }
+  }
+  return new Board()._generateWithCapture();
+}
+
+describe("Interface ports", () => {
+  it("connects members straight through or crosswise", () => {
+    build(() => {
+      const mcu = new Mcu({ ref: "U1" });
+      const sensor = new Peripheral({ ref: "U2" });
+      const flash = new Peripheral({ ref: "U3" });
+
+      connect(mcu.i2c, sensor.i2c, flash.i2c);
+      connect(mcu.spi, sensor.spi, flash.spi);
+      connect(mcu.uart, sensor.uart);
+
+      expect(mcu.pins.SDA.net).toBe(sensor.pins.SDA.net);
+      expect(flash.pins.SCL.net).toBe(mcu.pins.SCL.net);
+      expect(flash.pins.MOSI.net).toBe(mcu.pins.MOSI.net);
+      expect(sensor.pins.MISO.net).toBe(flash.pins.MISO.net);
+      // Chip selects are per peripheral, not shared
+      expect(mcu.pins.CS0.net).toBeNull();
+      expect(flash.pins.CS.net).toBeNull();
+      expect(sensor.pins.RX.net).toBe(mcu.pins.TX.net);
+      expect(sensor.pins.TX.net).toBe(mcu.pins.RX.net);
+      // Optional members are only connected when both ports provide them
+      expect(mcu.pins.RTS.net).toBeNull();
+    });
+  });
+
+  it("connects SPI chip select between a controller and a single peripheral", () => {
+    build(() => {
+      const mcu = new Mcu({ ref: "U1" });
+      const flash = new Peripheral({ ref: "U2" });
+      connect(mcu.spi, flash.spi);
+
+      expect(flash.pins.CS.net).toBe(mcu.pins.CS0.net);
+    });
+  });
+
+  it("rejects mismatched types, roles and directions before tying anything", () => {
+    build(() => {
+      const mcu = new Mcu({ ref: "U1" });
+      const other = new Mcu({ ref: "U2" });
+      const sensor = new Peripheral({ ref: "U3" });
+      const flash = new Peripheral({ ref: "U4" });
+
+      expect(() => connect(mcu.i2c, sensor.spi)).toThrow("Cannot connect U1.i2c (I2C) to U3.spi (SPI).");
+      expect(() => connect(mcu.spi, other.spi)).toThrow("SPI allows only one controller per connection, got U1.spi, U2.spi.");
+      expect(() => connect(sensor.spi, flash.spi)).toThrow("Direction conflict: SPI SCK connects inputs only: U3.spi.SCK (in), U4.spi.SCK (in).");
+      expect(() => connect(mcu.uart, sensor.uart, flash.uart)).toThrow(/UART is point-to-point/);
+      expect(() => SPI.port(mcu, { role: "host" as any })).toThrow("SPI has no role 'host'. Expected one of: controller, peripheral.");
+
+      expect(mcu.pins.SCK.net).toBeNull();
+      expect(sensor.pins.SCK.net).toBeNull();
+    });
+  });
+
+  it("works on plain components", () => {
+    build(() => {
+      const usbConn = new Component<"DP" | "DM">({ symbol: "Device:R", ref: "J1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+      const phy = new Component<"D+" | "D-">({ symbol: "Device:R", ref: "U1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+      const host = USB.port(usbConn, { role: "host" });
+      connect(host, USB.port(phy, { pins: { DP: "D+", DM: "D-" } }));
+
+      expect(phy.pins["D+"].net).toBe(usbConn.pins.DP.net);
+      expect(() => connect(host, USB.port(phy, { role: "host", pins: { DP: "D+", DM: "D-" } }))).toThrow(/only one host/);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Net } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+const opamp = (ref: string) => new Component({
+  symbol: "Amplifier_Operational:LM358", ref, footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm",
+  units: {
+    A: (pin) => ({ OUT: pin(1), "-": pin(2), "+": pin(3) }),
+    B: (pin) => ({ OUT: pin(7), "-": pin(6), "+": pin(5) }),
+  },
+});
+
+class Buffer extends Schematic {
+  constructor() {
+    super({ name: "Buffer" });
+  }
+  generate() {
+    const u1 = opamp("U1");
+    const a = u1.unit("A").pins;
+    const b = u1.unit("B").pins;
+    a["+"].tie(new Net({ name: "IN" }));
+    a.OUT.tie(a["-"], b["+"], new Net({ name: "MID" }));
+    b.OUT.tie(b["-"], new Net({ name: "OUT" }));
+    u1.pins[8].tie(new Net({ name: "VCC" }));
+    u1.pins[4].tie(new Net({ name: "GND" }));
+  }
+}
+
+describe("Multi-unit symbols", () => {
+  it("maps unit pin names to the pins of the component", () => {
+    const u1 = opamp("U1");
+    expect(u1.unit("A").number).toBe(1);
+    expect(u1.unit("B").pins.OUT).toBe(u1.pins[7]);
+    expect(u1.unit("A").pins.OUT).not.toBe(u1.unit("B").pins.OUT);
+    expect(u1.units.map(unit => unit.name)).toEqual(["A", "B"]);
+    expect(() => u1.unit("a")).toThrow("Unit 'a' of U1 must be a unit letter (A, B, …).");
+  });
+
+  it("places each unit as a symbol sharing the reference", () => {
+    const snapshot = new Buffer()._generateWithCapture();
+    const schematic = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+
+    const instances = Array.from(schematic.matchAll(/\(lib_id "Amplifier_Operational:LM358"\)[\s\S]*?\(unit (\d+)\)[\s\S]*?\(property\s+"Reference"\s+"(\w+)"/g));
+    expect(instances.map(m => [m[1], m[2]])).toEqual([["1", "U1"], ["2", "U1"], ["3", "U1"]]);
+    expect(lib.getUnitCount("Amplifier_Operational:LM358")).toBe(3);
+
+    // Units are drawn next to each other, not on top of each other
+    const at = Array.from(schematic.matchAll(/\(lib_id "Amplifier_Operational:LM358"\)\s*\(at ([\d.-]+) ([\d.-]+)/g)).map(m => Number(m[1]));
+    expect(new Set(at).size).toBe(3);
+  });
+
+  it("adds power units of used symbols automatically", () => {
+    class Single extends Schematic {
+      constructor() {
+        super({ name: "Single" });
+      }
+      generate() {
+        const u1 = new Component({ symbol: "Amplifier_Operational:LM358", ref: "U1", footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm" });
+        u1.unit("A").pins[1].tie(u1.unit("A").pins[2]);
+      }
+    }
+    const snapshot = new Single()._generateWithCapture();
+    const schematic = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+    expect(Array.from(schematic.matchAll(/\(lib_id "Amplifier_Operational:LM358"\)[\s\S]*?\(unit (\d+)\)/g)).map(m => m[1])).toEqual(["1", "3"]);
+  });
+
+  it("rejects units the symbol does not have", () => {
+    class Missing extends Schematic {
+      constructor() {
+        super({ name: "Missing" });
+      }
+      generate() {
+        const u1 = new Component({ symbol: "Amplifier_Operational:LM358", ref: "U1", footprint: "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm" });
+        u1.unit("D").pins[1].tie(new Net({ name: "OUT" }));
+      }
+    }
+    const snapshot = new Missing()._generateWithCapture();
+    const generator = new SchematicGenerator(snapshot, lib, new UuidManager(), {});
+    expect(() => generator.generate()).toThrow(/Unit 'D' of U1.* does not exist: Amplifier_Operational:LM358 has units A–C\./);
+  });
+
+  it("lists the pins of all units in one netlist component", () => {
+    const snapshot = new Buffer()._generateWithCapture();
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+    expect(netlist.match(/\(comp\s+\(ref "U1"\)/g)).toHaveLength(1);
+    const node = (net: string) => Array.from(new RegExp(`\\(name "/?${net}"\\)[\\s\\S]*?(?=\\(net\\s|$)`).exec(netlist)![0]
+      .matchAll(/\(node\s+\(ref "U1"\)\s+\(pin "(\d)"\)/g)).map(m => m[1]).sort();
+    expect(node("MID")).toEqual(["1", "2", "5"]);
+    expect(node("OUT")).toEqual(["6", "7"]);
+    expect(node("VCC")).toEqual(["8"]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Net, NetClass, DiffPair } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { ProjectGenerator } from "../kicad/ProjectGenerator";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+const power = new NetClass({ name: "Power", trackWidth: 0.5, viaDiameter: 1.0, viaDrill: 0.5 });
+const usb = new NetClass({ name: "USB", diffPairWidth: 0.3, diffPairGap: 0.15 });
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Classes", netClasses: [new NetClass({ name: "Data", clearance: 0.15 })] });
+  }
+
+  generate() {
+    const vcc = new Net({ name: "VCC", class: power });
+    const gnd = new Net({ name: "GND", class: "Power" });
+    const data = new Net({ name: "DATA", class: "Data" });
+    const pair = new DiffPair({ name: "USB_D", class: usb });
+
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    const r2 = new Component({ symbol: "Device:R", ref: "R2", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    r1.pins[1].tie(vcc);
+    r1.pins[2].tie(data);
+    r2.pins.assign({ "1,2": pair });
+    const r3 = new Component({ symbol: "Device:R", ref: "R3", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    const r4 = new Component({ symbol: "Device:R", ref: "R4", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    data.tie(r3.pins[1]);
+    gnd.tie(r4.pins[1]);
+    r3.pins[2].tie(new Net({ name: "SIG" }));
+    r4.pins[2].tie(r3.pins[2]);
+  }
+}
+
+describe("Net classes", () => {
+  it("collects the classes of nets and schematic options", () => {
+    const snapshot = new Board()._generateWithCapture();
+    expect(snapshot.netClasses!.map(c => c.name)).toEqual(["Data", "Power", "USB"]);
+    expect(snapshot.nets.find(n => n.name === "GND")!.class).toBe("Power");
+    expect(snapshot.nets.find(n => n.name === "USB_D+")!.netClass).toBe(usb);
+  });
+
+  it("assigns classes in the netlist", () => {
+    const snapshot = new Board()._generateWithCapture();
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+
+    expect(netlist).toMatch(/\(name "VCC"\)\s*\(class "Power"\)/);
+    expect(netlist).toMatch(/\(name "GND"\)\s*\(class "Power"\)/);
+    expect(netlist).toMatch(/\(name "DATA"\)\s*\(class "Data"\)/);
+    expect(netlist).toMatch(/\(name "USB_D-"\)\s*\(class "USB"\)/);
+    // Classes without a definition fall back to KiCad's default rules
+    expect(netlist).toMatch(/\(name "SIG"\)\s*\(class "Default"\)/);
+  });
+
+  it("writes net settings into new and existing projects", () => {
+    const snapshot = new Board()._generateWithCapture();
+    const created = JSON.parse(new ProjectGenerator(snapshot, "Classes.kicad_pro", new UuidManager()).generate());
+
+    expect(created.meta.filename).toBe("Classes.kicad_pro");
+    const classes = created.net_settings.classes;
+    expect(classes.map((c: any) => c.name)).toEqual(["Default", "Data", "Power", "USB"]);
+    expect(classes[2]).toMatchObject({ track_width: 0.5, via_diameter: 1.0, via_drill: 0.5, clearance: 0.2 });
+    expect(classes[3]).toMatchObject({ diff_pair_width: 0.3, diff_pair_gap: 0.15 });
+    expect(created.net_settings.netclass_patterns).toContainEqual({ netclass: "Power", pattern: "GND" });
+
+    const existing = JSON.stringify({
+      meta: { filename: "Classes.kicad_pro", version: 1 },
+      board: { custom: true },
+      net_settings: {
+        classes: [{ ...classes[0] }, { name: "Power", track_width: 0.3, clearance: 0.3 }, { name: "HV", clearance: 2 }],
+        netclass_patterns: [{ netclass: "HV", pattern: "MAINS*" }, { netclass: "HV", pattern: "VCC" }],
+      },
+    });
+    const updated = JSON.parse(new ProjectGenerator(snapshot, "Classes.kicad_pro", new UuidManager()).generate(existing));
+
+    expect(updated.board).toEqual({ custom: true });
+    expect(updated.net_settings.classes.map((c: any) => c.name)).toEqual(["Default", "Power", "HV", "Data", "USB"]);
+    // Rules set in code win, rules only set in KiCad are kept
+    expect(updated.net_settings.classes[1]).toMatchObject({ track_width: 0.5, clearance: 0.3 });
+    expect(updated.net_settings.netclass_patterns).toContainEqual({ netclass: "HV", pattern: "MAINS*" });
+    expect(updated.net_settings.netclass_patterns).not.toContainEqual({ netclass: "HV", pattern: "VCC" });
+  });
+
+  it("removes the classes and patterns it wrote once they are no longer declared", () => {
+    class Fewer extends Schematic {
+      constructor(private readonly classes: boolean) {
+        super({ name: "Classes" });
+      }
+      generate() {
+        new Net({ name: "VCC", class: this.classes ? power : "Signal" });
+        new Net({ name: "VBUS", class: this.classes ? power : "Signal" });
+        new Net({ name: "USB_DP", class: this.classes ? usb : "Signal" });
+      }
+    }
+    const uuids = new UuidManager();
+    const generated = new ProjectGenerator(new Board()._generateWithCapture(), "Classes.kicad_pro", uuids).generate();
+    const project = JSON.parse(generated);
+    project.net_settings.classes.push({ name: "HV", clearance: 2 });
+    project.net_settings.netclass_patterns.push({ netclass: "HV", pattern: "MAINS*" });
+    const edited = JSON.stringify(project, null, 2);
+
+    const fewer = JSON.parse(new ProjectGenerator(new Fewer(true)._generateWithCapture(), "Classes.kicad_pro", uuids).generate(edited));
+    expect(fewer.net_settings.classes.map((c: any) => c.name)).toEqual(["Default", "Power", "USB", "HV"]);
+    expect(fewer.net_settings.netclass_patterns).toEqual([
+      { netclass: "HV", pattern: "MAINS*" },
+      { netclass: "Power", pattern: "VCC" },
+      { netclass: "Power", pattern: "VBUS" },
+      { netclass: "USB", pattern: "USB_DP" },
+    ]);
+
+    const none = JSON.parse(new ProjectGenerator(new Fewer(false)._generateWithCapture(), "Classes.kicad_pro", uuids).generate(JSON.stringify(fewer)));
+    expect(none.net_settings.classes.map((c: any) => c.name)).toEqual(["Default", "HV"]);
+    expect(none.net_settings.netclass_patterns).toEqual([{ netclass: "HV", pattern: "MAINS*" }]);
+  });
+
+  it("rejects conflicting definitions", () => {
+    class Conflict extends Schematic {
+      constructor() {
+        super({ name: "Conflict", netClasses: [new NetClass({ name: "Power", trackWidth: 1 })] });
+      }
+      generate() {
+        new Net({ name: "VCC", class: power });
+      }
+    }
+    expect(() => new Conflict()._generateWithCapture()).toThrow("Net class 'Power' is defined more than once with different rules.");
+    expect(() => new NetClass({ name: "Default" })).toThrow(/reserved/);
+  });
+});
@@ -118,4 +118,45 @@ describe("Net Merging", () => {
         expect(registry.getNets().map(n => n.name)).toContain("+VIN");
         expect(registry.getNets().map(n => n.name)).not.toContain("U4_VIN");
     });
+
+    it("should resolve nets that were merged away to the surviving net", () => {
+        const netA = new Net({ name: "NetA" });
+        const netB = new Net({ name: "NetB" });
+        const netC = new Net({ name: "NetC" });
+        const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+
+        netA.tie(r1.pins[1]);
+        netB.tie(netA);
+        netC.tie(netB);
+
+        // Tying to a stale net connects to the surviving one
+        netA.tie(r1.pins[2]);
+
+        expect(netA.canonical).toBe(netC);
+        expect(netA.pins).toBe(netC.pins);
+        expect((r1.pins[2] as any).net).toBe(netC);
+        expect(netC.pins).toEqual([r1.pins[1], r1.pins[2]]);
+        expect(registry.getNets()).toEqual([netC]);
+    });
+
+    it("should merge large numbers of nets", () => {
+        const resistors = Array.from({ length: 5000 }, (_, i) =>
+            new Component({ symbol: "Device:R", ref: `R${i + 1}`, footprint: "Resistor_SMD:R_0603_1608Metric" }));
+        const nets = resistors.map((r, i) => {
+            const net = new Net({ name: `N${i}` });
+            net.tie(r.pins[1]);
+            return net;
+        });
+
+        // Chain every net into its neighbour through the pins
+        for (let i = 1; i < resistors.length; i++) {
+            resistors[i].pins[1].tie(resistors[i - 1].pins[1]);
+        }
+
+        expect(registry.getNets()).toHaveLength(1);
+        const [merged] = registry.getNets();
+        expect(merged.pins).toHaveLength(5000);
+        expect(resistors.every(r => (r.pins[1] as any).net === merged)).toBe(true);
+        expect(nets[0].canonical).toBe(merged);
+    });
 });
@@ -3,6 +3,7 @@ import * as os from "os";
 import * as path from "path";
 import { afterEach, describe, expect, it } from "vitest";
 import { Component, Schematic } from "../synth";
+import type { PcbPoint, PcbPosition } from "../synth/types";
 import { PcbGenerator } from "../kicad/PcbGenerator";
 import { UuidManager } from "../kicad/UuidManager";
 
@@ -12,13 +13,13 @@ afterEach(() => {
   for (const directory of temporaryDirectories.splice(0)) fs.rmSync(directory, { recursive: true, force: true });
 });
 
-describe("PcbGenerator", () => {
-  it("emits an outline and only explicitly positioned footprints", () => {
-    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-board-"));
-    temporaryDirectories.push(outputDir);
-    const prettyDir = path.join(outputDir, "Test.pretty");
-    fs.mkdirSync(prettyDir);
-    fs.writeFileSync(path.join(prettyDir, "Part.kicad_mod"), `(footprint "Part"
+/** A project directory with a footprint library "Test" containing "Part". */
+function footprintLibrary(): string {
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-board-"));
+  temporaryDirectories.push(outputDir);
+  const prettyDir = path.join(outputDir, "Test.pretty");
+  fs.mkdirSync(prettyDir);
+  fs.writeFileSync(path.join(prettyDir, "Part.kicad_mod"), `(footprint "Part"
 \t(version 20241229)
 \t(generator "test")
 \t(layer "F.Cu")
@@ -27,7 +28,13 @@ describe("PcbGenerator", () => {
 \t(attr smd)
 \t(pad "1" smd rect (at 0 0) (size 1 1) (layers "F.Cu" "F.Paste" "F.Mask") (uuid "00000000-0000-0000-0000-000000000003"))
 )\n`);
-    fs.writeFileSync(path.join(outputDir, "fp-lib-table"), `(fp_lib_table (version 7) (lib (name "Test")(type "KiCad")(uri "${prettyDir}")(options "")(descr "")))`);
+  fs.writeFileSync(path.join(outputDir, "fp-lib-table"), `(fp_lib_table (version 7) (lib (name "Test")(type "KiCad")(uri "${prettyDir}")(options "")(descr "")))`);
+  return outputDir;
+}
+
+describe("PcbGenerator", () => {
+  it("emits an outline and only explicitly positioned footprints", () => {
+    const outputDir = footprintLibrary();
 
     class Board extends Schematic {
       generate() {
@@ -53,4 +60,51 @@ describe("PcbGenerator", () => {
     expect(result.content.match(/\(gr_line/g)).toHaveLength(4);
     expect(result.content).toContain('(path "/');
   });
+
+  it("updates an existing board in place", () => {
+    const outputDir = footprintLibrary();
+    class Board extends Schematic {
+      constructor(private readonly r1: PcbPosition, private readonly withSwitch: boolean, outline: PcbPoint[]) {
+        super({ name: "Update", pcb: { outline } });
+      }
+
+      generate() {
+        new Component({ symbol: "Device:R", ref: "R1", footprint: "Test:Part", pcbPosition: this.r1 });
+        new Component({ symbol: "Device:R", ref: "R2", footprint: "Test:Part" });
+        if (this.withSwitch) new Component({ symbol: "Device:R", ref: "SW1", footprint: "Test:Part", pcbPosition: { x: 5, y: 5 } });
+      }
+    }
+    const outline = [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 40 }, { x: 0, y: 40 }];
+    const uuids = new UuidManager();
+    uuids.load(path.join(outputDir, "uuids.json"));
+    const update = (board: Board, existing: string) => new PcbGenerator(board._generateWithCapture(), uuids, outputDir).update(existing);
+
+    // The initial board, after routing and placing R2 in pcbnew
+    const initial = new PcbGenerator(new Board({ x: 20, y: 30, rotation: 90 }, false, outline)._generateWithCapture(), uuids, outputDir).generate().content;
+    const r2 = `(footprint "Test:Part"\n\t\t(layer "F.Cu")\n\t\t(at 40 10 180)\n\t\t(property "Reference" "R2" (at 0 -2 180))\n\t)`;
+    const track = `(segment (start 20 30) (end 40 10) (width 0.25) (layer "F.Cu") (net 1) (uuid "00000000-0000-0000-0000-00000000000a"))`;
+    const cutout = `(gr_circle (center 25 20) (end 27 20) (stroke (width 0.05) (type solid)) (fill no) (layer "Edge.Cuts") (uuid "00000000-0000-0000-0000-00000000000b"))`;
+    const routed = initial
+      .replace("\n\t(gr_line", `\n\t${r2}\n\t${track}\n\t${cutout}\n\t(gr_line`)
+      .replace('(pad "1" smd rect (at 0 0)', '(pad "1" smd rect (at 0 0 90)')
+      .replace('(property "Reference" "R1" (at 0 -2 0)', '(property "Reference" "R1" (at 0 -2 90)');
+
+    expect(update(new Board({ x: 20, y: 30, rotation: 90 }, false, outline), routed)).toMatchObject({ content: routed, moved: 0, added: 0, outlineUpdated: false });
+
+    const larger = [{ x: 0, y: 0 }, { x: 60, y: 0 }, { x: 60, y: 40 }, { x: 0, y: 40 }];
+    const result = update(new Board({ x: 25, y: 30, rotation: 180 }, true, larger), routed);
+    expect(result).toMatchObject({ moved: 1, added: 1, outlineUpdated: true, warnings: [] });
+    expect(result.content).toContain("(at 25 30 180)");
+    // Pad and text angles are absolute and turn with the footprint
+    expect(result.content).toContain('(pad "1" smd rect (at 0 0 180)');
+    expect(result.content).toContain('(property "Reference" "R1" (at 0 -2 180)');
+    expect(result.content).toContain('(property "Reference" "SW1"');
+    expect(result.content).toContain(r2);
+    expect(result.content).toContain(track);
+    // Edge.Cuts drawings added in pcbnew are not part of the outline
+    expect(result.content).toContain(cutout);
+    expect(result.content).toContain("(start 60 0)\n\t\t(end 60 40)");
+    expect(result.content).not.toContain("(end 50 40)");
+    expect(result.content.match(/\(gr_line/g)).toHaveLength(4);
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Schematic, Component, ComponentProperties, parseQuantity, formatQuantity } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { generateBom } from "../cli/utils/bom";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+describe("Component properties", () => {
+  it("parses engineering notation", () => {
+    expect(["10k", "10K", "10000", "10kΩ", "10 kohm"].map(v => parseQuantity(v, "Ω"))).toEqual([10000, 10000, 10000, 10000, 10000]);
+    expect(parseQuantity("4k7", "Ω")).toBe(4700);
+    expect(parseQuantity("0R1", "Ω")).toBe(0.1);
+    expect(parseQuantity("100R", "Ω")).toBe(100);
+    expect(parseQuantity("4n7", "F")).toBe(4.7e-9);
+    expect(parseQuantity("2.2uF", "F")).toBe(2.2e-6);
+    expect(parseQuantity("6V3", "V")).toBe(6.3);
+    expect(parseQuantity("1/4W", "W")).toBe(0.25);
+    expect(parseQuantity("100mW", "W")).toBe(0.1);
+    expect(parseQuantity("±5%", "%")).toBe(0.05);
+    expect(parseQuantity("10R", "V")).toBeUndefined();
+    expect(parseQuantity("abc", "Ω")).toBeUndefined();
+
+    expect(formatQuantity(4700, "Ω")).toBe("4.7kΩ");
+    expect(formatQuantity(1e-7, "F")).toBe("100nF");
+    expect(formatQuantity(0.01, "%")).toBe("±1%");
+  });
+
+  it("reads properties from values and options", () => {
+    const cap = ComponentProperties.of("Device:C", "10u 6V3 X5R");
+    expect(cap).toMatchObject({ capacitance: 1e-5, voltage: 6.3, dielectric: "X5R", describesValue: true });
+    expect(cap.toString()).toBe("10uF 6.3V X5R");
+
+    const r = ComponentProperties.of("Device:R", "4k7 1% 1/10W", { power: "1/8W" });
+    expect(r).toMatchObject({ resistance: 4700, tolerance: 0.01, power: 0.125 });
+
+    // Unknown parts of a value keep it from being normalized
+    expect(ComponentProperties.of("Device:R", "10k NTC")).toMatchObject({ resistance: 10000, describesValue: false });
+    expect(ComponentProperties.of("Device:LED", "10k").isEmpty).toBe(true);
+    expect(() => ComponentProperties.of("Device:R", "10k", { tolerance: "five" })).toThrow(/Invalid tolerance 'five'/);
+  });
+
+  it("emits properties as netlist fields and groups the BOM by them", () => {
+    class Board extends Schematic {
+      constructor() {
+        super({ name: "Properties" });
+      }
+      generate() {
+        for (const [ref, value] of [["R1", "10k"], ["R2", "10K"], ["R3", "10000"], ["R4", "10k 1%"], ["R5", "10k NTC"]]) {
+          new Component({ symbol: "Device:R", ref, value, footprint: "Resistor_SMD:R_0603_1608Metric" });
+        }
+      }
+    }
+    const snapshot = new Board()._generateWithCapture();
+
+    const netlist = new NetlistGenerator(snapshot, lib, new UuidManager(), "").generate();
+    expect(netlist).toMatch(/\(ref "R4"\)[\s\S]*?\(field "10kΩ"\s*\(name "Resistance"\)\)\s*\(field "±1%"\s*\(name "Tolerance"\)\)/);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-bom-"));
+    try {
+      const bom = fs.readFileSync(generateBom("Properties", dir, snapshot.components)!, "utf-8").split("\n");
+      expect(bom).toEqual([
+        "Comment,Designator,Footprint,LCSC Part #",
+        "10kΩ,\"R1,R2,R3\",R_0603_1608Metric,",
+        "10kΩ ±1%,R4,R_0603_1608Metric,",
+        "10k NTC,R5,R_0603_1608Metric,",
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Composable } from "../synth";
+import type { PcbPlacements } from "../synth/types";
+import { PlacementImporter } from "../kicad/PlacementImporter";
+import { Annotator } from "../kicad/Annotator";
+import { UuidManager } from "../kicad/UuidManager";
+
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Supply extends Composable<"IN"> {
+  protected defineInterface() {
+    const r = new Component({ symbol: "Device:R", ref: "R?", footprint });
+    return { IN: r.pins[1] };
+  }
+}
+
+class Board extends Schematic {
+  constructor(placements?: PcbPlacements) {
+    super({ name: "Pull", pcb: { outline: [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 40 }], placements } });
+  }
+
+  generate() {
+    new Component({ symbol: "Device:R", ref: "C1", footprint });
+    new Component({ symbol: "Device:R", ref: "J1", footprint, pcbPosition: { x: 1, y: 1 } });
+    new Supply({ ref: "PSU", pcbPosition: { x: 100, y: 50, rotation: 90 } });
+  }
+}
+
+function capture(board: Board) {
+  const snapshot = board._generateWithCapture();
+  new Annotator(snapshot, new UuidManager()).annotate();
+  return snapshot;
+}
+
+function footprintAt(ref: string, at: string, layer = "F.Cu"): string {
+  return `\t(footprint "${footprint}"\n\t\t(layer "${layer}")\n\t\t(at ${at})\n\t\t(property "Reference" "${ref}" (at 0 -2 0))\n\t)`;
+}
+
+describe("PlacementImporter", () => {
+  const board = `(kicad_pcb
+\t(version 20241229)
+${footprintAt("C1", "10 20 90")}
+${footprintAt("J1", "30 5")}
+${footprintAt("R1", "105 52 -90", "B.Cu")}
+)
+`;
+
+  it("reads positions relative to the parent composable", () => {
+    const result = new PlacementImporter(capture(new Board()), board, new UuidManager(), "Pull.kicad_pcb").generate();
+
+    // J1 is positioned in code
+    expect(result.placements).toEqual({
+      C1: { x: 10, y: 20, rotation: 90, side: "front" },
+      R1: { x: 5, y: 2, rotation: 180, side: "back" },
+    });
+    expect(result.warnings).toEqual([]);
+    expect(result.source).toContain('import type { PcbPlacements } from "@tobisk/pcbs";');
+    expect(result.source).toContain('  C1: { x: 10, y: 20, rotation: 90, side: "front" },\n  R1: { x: 5, y: 2, rotation: 180, side: "back" },');
+  });
+
+  it("places components at the pulled positions", () => {
+    const { placements } = new PlacementImporter(capture(new Board()), board, new UuidManager(), "Pull.kicad_pcb").generate();
+    const snapshot = capture(new Board(placements));
+    const position = (ref: string) => snapshot.components.find(comp => comp.ref === ref)!.absolutePcbPosition;
+
+    expect(position("C1")).toEqual({ x: 10, y: 20, rotation: 90, side: "front" });
+    // Numbered by the annotator after capture, and moved along with the composable
+    expect(position("R1")).toMatchObject({ x: 105, y: 52, rotation: 270, side: "back" });
+    expect(position("J1")).toMatchObject({ x: 1, y: 1 });
+  });
+});
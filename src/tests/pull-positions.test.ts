@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Composable, Net } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { SchematicPositionImporter, SchematicPositions } from "../kicad/SchematicPositionImporter";
+import { SExpr, SExpressionParser } from "../kicad/SExpressionParser";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+const footprint = "Resistor_SMD:R_0603_1608Metric";
+
+class Divider extends Composable<"IN" | "OUT" | "GND"> {
+  constructor(ref: string) {
+    super({ ref });
+    this.makeSubschematic();
+  }
+
+  protected defineInterface() {
+    const top = new Component({ symbol: "Device:R", ref: `${this.ref}_R1`, footprint });
+    const bottom = new Component({ symbol: "Device:R", ref: `${this.ref}_R2`, footprint });
+    top.pins[2].tie(bottom.pins[1]);
+    return { IN: top.pins[1], OUT: top.pins[2], GND: bottom.pins[2] };
+  }
+}
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Tidy" });
+  }
+
+  generate() {
+    const vin = new Net({ name: "VIN" });
+    const sense = new Net({ name: "SENSE" });
+    const divider = new Divider("DIV1");
+    divider.pins.IN.tie(vin);
+    divider.pins.OUT.tie(sense);
+    divider.pins.GND.tie(new Net({ name: "GND" }));
+
+    const load = new Component({ symbol: "Device:R", ref: "R1", footprint, pos: { x: 50, y: 50 } });
+    load.pins[1].tie(sense);
+    load.pins[2].tie(vin);
+  }
+}
+
+function generate(uuids: UuidManager, positions?: SchematicPositions): Record<string, string> {
+  const snapshot = new Board()._generateWithCapture();
+  const sheets = new SchematicGenerator(snapshot, lib, uuids, { positions }).generateSheets();
+  return Object.fromEntries(sheets.map(sheet => [sheet.fileName, sheet.content]));
+}
+
+function childSheet(sheets: Record<string, string>): string {
+  return Object.keys(sheets).find(fileName => fileName !== "Tidy.kicad_sch")!;
+}
+
+function symbolAt(content: string, ref: string): SExpr[] {
+  const root = SExpressionParser.parse(content)[0] as SExpr[];
+  const symbol = root.find(item => Array.isArray(item) && item[0] === "symbol"
+    && item.some(property => Array.isArray(property) && property[0] === "property" && property[1] === '"Reference"' && property[2] === `"${ref}"`)) as SExpr[];
+  return symbol.find(item => Array.isArray(item) && item[0] === "at") as SExpr[];
+}
+
+/** Move a symbol like eeschema would. */
+function move(content: string, ref: string, at: string[]): string {
+  const root = SExpressionParser.parse(content)[0] as SExpr[];
+  const symbol = root.find(item => Array.isArray(item) && item[0] === "symbol" && SExpressionParser.serialize(item).includes(`"Reference" "${ref}"`)) as SExpr[];
+  const index = symbol.findIndex(item => Array.isArray(item) && item[0] === "at");
+  symbol[index] = ["at", ...at];
+  return SExpressionParser.serialize(root);
+}
+
+describe("SchematicPositionImporter", () => {
+  it("reads symbol positions from the root and child sheets", () => {
+    const sheets = generate(new UuidManager());
+    const child = childSheet(sheets);
+    sheets["Tidy.kicad_sch"] = move(sheets["Tidy.kicad_sch"], "R1", ["101.6", "76.2", "90"]);
+    sheets[child] = move(sheets[child], "DIV1_R2", ["63.5", "88.9", "-90"]);
+
+    const result = new SchematicPositionImporter(new Board()._generateWithCapture(), sheets).generate();
+
+    expect(result.warnings).toEqual([]);
+    expect(result.positions.R1).toEqual({ x: 101.6, y: 76.2, rotation: 90 });
+    expect(result.positions.DIV1_R2).toEqual({ x: 63.5, y: 88.9, rotation: 270 });
+    expect(Object.keys(JSON.parse(result.content))).toEqual(["DIV1_R1", "DIV1_R2", "R1"]);
+    expect(JSON.parse(result.content)).toEqual(result.positions);
+  });
+
+  it("keeps pulled positions on the next run", () => {
+    const uuids = new UuidManager();
+    const sheets = generate(uuids);
+    const child = childSheet(sheets);
+    sheets["Tidy.kicad_sch"] = move(sheets["Tidy.kicad_sch"], "R1", ["101.6", "76.2", "90"]);
+    sheets[child] = move(sheets[child], "DIV1_R2", ["63.5", "88.9", "270"]);
+    const { positions } = new SchematicPositionImporter(new Board()._generateWithCapture(), sheets).generate();
+    delete positions.DIV1_R1;
+
+    const regenerated = generate(uuids, positions);
+
+    expect(symbolAt(regenerated["Tidy.kicad_sch"], "R1")).toEqual(["at", "101.60", "76.20", "90.00"]);
+    expect(symbolAt(regenerated[child], "DIV1_R2")).toEqual(["at", "63.50", "88.90", "270.00"]);
+    // Not pinned: laid out as before
+    expect(symbolAt(regenerated[child], "DIV1_R1")).toEqual(symbolAt(sheets[child], "DIV1_R1"));
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import * as ts from "typescript";
+import * as synth from "../synth";
+import { Schematic, Component, Net, toJSON, CircuitSnapshot } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { SchematicImporter } from "../kicad/SchematicImporter";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+/** Run imported source and capture its schematic. */
+function run(source: string): CircuitSnapshot {
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+  const module = { exports: {} as { default: Schematic } };
+  new Function("require", "module", "exports", outputText)((id: string) => (id === "@tobisk/pcbs" ? synth : require(id)), module, module.exports);
+  return module.exports.default._generateWithCapture();
+}
+
+/** The pins of each net as sorted `REF.PIN` lists, by net name where it was given. */
+function connectivity(snapshot: CircuitSnapshot, named: string[]) {
+  const nets = toJSON(snapshot).nets.filter(net => net.nodes.length > 1);
+  return nets.map(net => `${named.includes(net.name) ? net.name : "?"}: ${net.nodes.join(" ")}`).sort();
+}
+
+const resistor = `(symbol "Device:R" (property "Reference" "R" (at 0 0 0)) (property "Value" "R" (at 0 0 0))
+    (symbol "R_1_1"
+      (pin passive line (at 0 3.81 270) (length 1.27) (name "~") (number "1"))
+      (pin passive line (at 0 -3.81 90) (length 1.27) (name "~") (number "2"))))`;
+const ground = `(symbol "power:GND" (power) (property "Reference" "#PWR" (at 0 0 0)) (property "Value" "GND" (at 0 0 0))
+    (symbol "GND_1_1" (pin power_in line (at 0 0 270) (length 0) (hide yes) (name "GND") (number "1"))))`;
+const place = (ref: string, x: number, y: number, rotation = 0, extra = "") =>
+  `(symbol (lib_id "Device:R") (at ${x} ${y} ${rotation}) (unit 1) (dnp no) ${extra}
+    (property "Reference" "${ref}" (at 0 0 0)) (property "Value" "10k" (at 0 0 0)) (property "Footprint" "Resistor_SMD:R_0603_1608Metric" (at 0 0 0)))`;
+const wire = (x1: number, y1: number, x2: number, y2: number) => `(wire (pts (xy ${x1} ${y1}) (xy ${x2} ${y2})))`;
+
+const sheet = (extra = "") => `(kicad_sch (version 20250114) (generator "eeschema") (paper "A3")
+  (title_block (title "Legacy") (rev "B"))
+  (lib_symbols ${resistor} ${ground})
+  ${place("R1", 100, 100)}
+  ${place("R2", 120, 100, 0, `(property "MPN" "RC0603FR-0710KL" (at 0 0 0))`)}
+  ${place("R3", 140, 100, 90)}
+  ${place("R4", 160, 100)}
+  ${place("R5", 180, 100)}
+  (symbol (lib_id "power:GND") (at 130 103.81 0) (unit 1) (property "Reference" "#PWR01" (at 0 0 0)) (property "Value" "GND" (at 0 0 0)))
+  ${wire(100, 96.19, 120, 96.19)}
+  (label "TOP" (at 110 96.19 0))
+  ${wire(100, 103.81, 130, 103.81)}
+  ${wire(125, 90, 125, 110)}
+  (label "CROSS" (at 125 90 0))
+  ${wire(125, 100, 136.19, 100)}
+  (no_connect (at 143.81 100))
+  ${wire(160, 103.81, 180, 103.81)}
+  ${extra})`;
+
+describe("SchematicImporter", () => {
+  it("reconstructs nets from wires, labels and power symbols", () => {
+    const { source, warnings } = new SchematicImporter(sheet(), "Legacy").generate();
+    expect(warnings).toEqual([]);
+    expect(connectivity(run(source), ["TOP", "GND", "CROSS"])).toEqual([
+      "?: R4.2 R5.2",
+      "GND: R1.2 R2.2",
+      "TOP: R1.1 R2.1",
+    ]);
+    // The wire ending on the crossing wire joins it, the crossing itself does not
+    expect(source).toContain(`r3.pins[1].tie(cross);`);
+    expect(source).toContain(`r3.pins[2].dnc();`);
+    expect(source).toContain(`const gnd = new Net({ name: "GND", class: "Power" });`);
+    expect(source).toContain(`r4.pins[2].tie(r5.pins[2]);`);
+  });
+
+  it("connects crossing wires at junctions", () => {
+    const { source, warnings } = new SchematicImporter(sheet("(junction (at 125 103.81))"), "Legacy").generate();
+    expect(connectivity(run(source), ["TOP", "GND", "CROSS"])).toContain("GND: R1.2 R2.2 R3.1");
+    expect(warnings).toEqual(["Net GND is also labelled CROSS; the other names were dropped."]);
+  });
+
+  it("writes components with their positions and fields", () => {
+    const { source } = new SchematicImporter(sheet(), "Legacy").generate();
+    expect(source).toContain(`export class Legacy extends Schematic {`);
+    expect(source).toContain(`super({ name: "Legacy", size: "A3", revision: "B" });`);
+    expect(source).toContain([
+      `    const r2 = new Component({`,
+      `      symbol: "Device:R",`,
+      `      ref: "R2",`,
+      `      footprint: "Resistor_SMD:R_0603_1608Metric",`,
+      `      value: "10k",`,
+      `      fields: { "MPN": "RC0603FR-0710KL" },`,
+      `      pos: { x: 120, y: 100, r: 0 },`,
+      `    });`,
+    ].join("\n"));
+    expect(source).toContain(`pos: { x: 140, y: 100, r: 90 },`);
+    expect(source).toContain(`export default new Legacy();`);
+  });
+
+  it("round-trips a generated schematic", () => {
+    class Board extends Schematic {
+      constructor() {
+        super({ name: "Board" });
+      }
+      generate() {
+        const vcc = new Net({ name: "VCC", class: "Power" });
+        const gnd = new Net({ name: "GND", class: "Power" });
+        const sda = new Net({ name: "SDA" });
+        const footprint = "Resistor_SMD:R_0603_1608Metric";
+        const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint, value: "10k" });
+        const r2 = new Component({ symbol: "Device:R", ref: "R2", footprint, value: "4k7" });
+        const r3 = new Component({ symbol: "Device:R", ref: "R3", footprint, value: "1k" });
+        r1.pins[1].tie(vcc);
+        r1.pins[2].tie(sda);
+        r2.pins[1].tie(sda);
+        r2.pins[2].tie(r3.pins[1]);
+        r3.pins[2].tie(gnd);
+      }
+    }
+    const original = new Board()._generateWithCapture();
+    const kicad = new SchematicGenerator(original, lib, new UuidManager(), {}).generate();
+    const imported = run(new SchematicImporter(kicad, "Board").generate().source);
+
+    const named = ["VCC", "GND", "SDA"];
+    expect(connectivity(imported, named)).toEqual(connectivity(original, named));
+    expect(imported.components.map(comp => comp.schematicPosition)).toEqual(original.components.map(comp => comp.schematicPosition));
+  });
+
+  it("rejects other files", () => {
+    expect(() => new SchematicImporter("(kicad_pcb)", "X").generate()).toThrow("Not a KiCad schematic");
+  });
+});
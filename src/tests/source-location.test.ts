@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { Schematic, Component, Composable, Net } from "../synth";
+import { SourceTrace } from "../synth/SourceLocation";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { ErcChecker } from "../kicad/ErcChecker";
+import { SourceLocator, describeFinding } from "../kicad/SourceLocator";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+const at = (line: number) => `src/tests/source-location.test.ts:${line}`;
+
+class Divider extends Composable<"OUT"> {
+  static line = 0;
+  protected defineInterface() {
+    const r = new Component({ symbol: "Device:R", ref: "R10", footprint: "Resistor_SMD:R_0603_1608Metric" }); Divider.line = new SourceTrace().location!.line;
+    return { OUT: r.pins[1] };
+  }
+}
+
+describe("Source locations", () => {
+  it("records where components, nets and composables were created", () => {
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" }); const line = new SourceTrace().location!.line;
+    const vcc = new Net({ name: "VCC" });
+    const div = new Divider({ ref: "DIV1" });
+
+    expect(r1.source).toMatchObject({ file: __filename, line });
+    expect(vcc.source!.line).toBe(line + 1);
+    expect(div.source!.line).toBe(line + 2);
+
+    // Created inside the composable, not where its pins were first used
+    expect(div.pins.OUT.component.source!.line).toBe(Divider.line);
+  });
+
+  it("points at the call site of pin.dnc() for implicit DNC markers", () => {
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    r1.pins[2].dnc(); const line = new SourceTrace().location!.line;
+    expect(r1.pins[2].net!.pins.find(pin => pin.component.symbol === "Device:DNC")!.component.source!.line).toBe(line);
+  });
+
+  it("names the creation sites in connection errors", () => {
+    const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" });
+    const signal = new Net({ name: "SIG" }); const line = new SourceTrace().location!.line;
+    signal.tie(r1.pins[1]);
+    signal.tie(r1.pins[2]);
+
+    expect(() => r1.pins[1].dnc()).toThrow(`Cannot connect DNC pin to net "SIG" (created at ${at(line)}) because it has multiple functional connections.`);
+  });
+
+  it("adds locations to checker findings and KiCad symbols", () => {
+    let line = 0;
+    class Board extends Schematic {
+      constructor() {
+        super({ name: "Sources", sourceLocations: true });
+      }
+      generate() {
+        const r1 = new Component({ symbol: "Device:R", ref: "R1", footprint: "Resistor_SMD:R_0603_1608Metric" }); line = new SourceTrace().location!.line;
+        r1.pins[1].tie(new Net({ name: "FLOATING" }));
+        r1.pins[2].dnc();
+      }
+    }
+    const snapshot = new Board()._generateWithCapture();
+
+    const findings = new SourceLocator(snapshot).locate(new ErcChecker(snapshot, lib).check().findings);
+    const single = findings.find(f => f.rule === "single-pin-net")!;
+    expect(single.sources).toEqual([at(line)]);
+    expect(describeFinding(single)).toBe(`${single.message} (at ${at(line)})`);
+
+    const schematic = new SchematicGenerator(snapshot, lib, new UuidManager(), {}).generate();
+    expect(schematic).toContain(`(property "Source" "${at(line)}"`);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Schematic, Component, resolveVariant, CircuitSnapshot } from "../synth";
+import { SymbolLibrary } from "../kicad/SymbolLibrary";
+import { UuidManager } from "../kicad/UuidManager";
+import { SchematicGenerator } from "../kicad/SchematicGenerator";
+import { NetlistGenerator } from "../kicad/NetlistGenerator";
+import { generateBom } from "../cli/utils/bom";
+import { convertPosToCpl } from "../cli/utils/cpl";
+
+const lib = new SymbolLibrary([path.join(__dirname, "assets", "symbols")]);
+
+const resistor = (ref: string, options: Partial<ConstructorParameters<typeof Component>[0]> = {}) =>
+  new Component({ symbol: "Device:R", ref, value: "10k", footprint: "Resistor_SMD:R_0603_1608Metric", ...options });
+
+class Board extends Schematic {
+  constructor() {
+    super({ name: "Variants", variants: ["lite", "pro"] });
+  }
+  generate() {
+    resistor("R1");
+    resistor("R2", { dnp: true, variants: { pro: { dnp: false } } });
+    resistor("R3", { partNo: "C25804", variants: { pro: { value: "4k7", partNo: "C23162" } } });
+    resistor("R4", { variants: { lite: { dnp: true } } });
+  }
+}
+
+describe("Assembly variants", () => {
+  let dir: string;
+  let snapshot: CircuitSnapshot;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pcbs-variants-"));
+    snapshot = new Board()._generateWithCapture();
+  });
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const bom = (variant?: string) =>
+    fs.readFileSync(generateBom("Variants", dir, snapshot.components, variant)!, "utf-8").split("\n");
+
+  it("resolves population, value and part number per variant", () => {
+    const [, r2, r3, r4] = snapshot.components;
+    expect(resolveVariant(r2).dnp).toBe(true);
+    expect(resolveVariant(r2, "pro").dnp).toBe(false);
+    expect(resolveVariant(r3, "pro")).toMatchObject({ dnp: false, value: "4k7", partNo: "C23162" });
+    expect(resolveVariant(r3, "pro").properties!.resistance).toBe(4700);
+    expect(resolveVariant(r4, "lite").dnp).toBe(true);
+    expect(snapshot.variants).toEqual(["lite", "pro"]);
+  });
+
+  it("generates a BOM per variant", () => {
+    expect(bom()).toEqual([
+      "Comment,Designator,Footprint,LCSC Part #",
+      "10kΩ,\"R1,R4\",R_0603_1608Metric,",
+      "10kΩ,R3,R_0603_1608Metric,C25804",
+    ]);
+    expect(bom("lite")).toEqual([
+      "Comment,Designator,Footprint,LCSC Part #",
+      "10kΩ,R1,R_0603_1608Metric,",
+      "10kΩ,R3,R_0603_1608Metric,C25804",
+    ]);
+    expect(bom("pro")).toEqual([
+      "Comment,Designator,Footprint,LCSC Part #",
+      "10kΩ,\"R1,R2,R4\",R_0603_1608Metric,",
+      "4.7kΩ,R3,R_0603_1608Metric,C23162",
+    ]);
+  });
+
+  it("leaves unpopulated components out of the CPL", () => {
+    const pos = path.join(dir, "pos.txt");
+    fs.writeFileSync(pos, [
+      "# Ref     Val        Package                PosX       PosY       Rot  Side",
+      ...["R1", "R2", "R3", "R4"].map((ref, i) => `  ${ref}  10k  R_0603_1608Metric  ${10 * i}.0000  -5.0000  0.0000  top`),
+    ].join("\n"));
+    const refs = (variant?: string) => fs.readFileSync(convertPosToCpl(pos, path.join(dir, "cpl.csv"), snapshot.components, dir, variant), "utf-8")
+      .split("\n").slice(1).map(line => line.split(",")[0]);
+
+    expect(refs()).toEqual(["R1", "R3", "R4"]);
+    expect(refs("lite")).toEqual(["R1", "R3"]);
+    expect(refs("pro")).toEqual(["R1", "R2", "R3", "R4"]);
+  });
+
+  it("marks unpopulated symbols as DNP", () => {
+    const schematic = new SchematicGenerator({ ...snapshot, variant: "lite" }, lib, new UuidManager(), {}).generate();
+    const dnp = (ref: string) => new RegExp(`\\(dnp\\s+(\\w+)\\)(?:(?!\\(dnp)[\\s\\S])*?\\(property\\s+"Reference"\\s+"${ref}"`).exec(schematic)![1];
+    expect(["R1", "R2", "R3", "R4"].map(dnp)).toEqual(["no", "yes", "no", "yes"]);
+
+    const netlist = new NetlistGenerator({ ...snapshot, variant: "pro" }, lib, new UuidManager(), "").generate();
+    expect(netlist).toMatch(/\(ref "R3"\)\s*\(value "4k7"\)/);
+    expect(netlist).not.toMatch(/\(property\s*\(name "dnp"\)\)/);
+  });
+
+  it("rejects overrides of undeclared variants", () => {
+    class Typo extends Schematic {
+      constructor() {
+        super({ name: "Typo", variants: ["lite", "pro"] });
+      }
+      generate() {
+        resistor("R1", { variants: { prp: { dnp: true } } });
+      }
+    }
+    expect(() => new Typo()._generateWithCapture()).toThrow("R1 overrides unknown variant 'prp'. Declared variants: lite, pro.");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { Schematic, Component, Module, Net } from "../synth";
+import { VoltageChecker } from "../kicad/VoltageChecker";
+
+class Sensor extends Module<"VDD" | "GND" | "SDA"> {
+  constructor(ref: string) {
+    super({
+      symbol: "Device:R",
+      ref,
+      footprint: "Package_SO:SOIC-8",
+      pins: (pin) => ({
+        VDD: pin(1).rated({ absMax: 3.6 }),
+        GND: pin(2),
+        SDA: pin(3).rated({ absMax: 5.5, logic: [0, 3.3] }),
+      }),
+    });
+  }
+}
+
+const part = (symbol: `Device:${string}`, ref: string, value?: string) =>
+  new Component({ symbol: symbol as any, ref, value, footprint: "Resistor_SMD:R_0603_1608Metric" });
+
+function check(build: () => void) {
+  class Board extends Schematic {
+    constructor() {
+      super({ name: "Voltages" });
+    }
+    generate() {
+      build();
+    }
+  }
+  return new VoltageChecker(new Board()._generateWithCapture()).check();
+}
+
+describe("VoltageChecker", () => {
+  it("flags rails above a pin's absolute maximum or logic range", () => {
+    const result = check(() => {
+      const v5 = new Net({ name: "VCC_5V", class: "Power", voltage: 5, tolerance: 0.05 });
+      const v33 = new Net({ name: "VCC_3V3", class: "Power", voltage: 3.3 });
+      const gnd = new Net({ name: "GND", class: "Power", voltage: 0 });
+      const ok = new Sensor("U1");
+      ok.pins.VDD.tie(v33);
+      ok.pins.GND.tie(gnd);
+      const wrong = new Sensor("U2");
+      wrong.pins.VDD.tie(v5);
+      wrong.pins.GND.tie(gnd);
+      wrong.pins.SDA.tie(v5);
+    });
+
+    expect(result.errors).toEqual([
+      "Over Voltage: U2.1 is rated 3.6 V absolute maximum but 'VCC_5V' carries 5 V ±5 %.",
+    ]);
+    expect(result.warnings).toEqual([
+      "Logic Level: U2.3 operates up to 3.3 V but 'VCC_5V' carries 5 V ±5 %.",
+    ]);
+    expect(result.findings[0]).toMatchObject({ rule: "over-voltage", refs: ["U2"], nets: ["VCC_5V"] });
+  });
+
+  it("propagates rails through ferrite beads and 0 Ω resistors", () => {
+    const result = check(() => {
+      const vbus = new Net({ name: "VBUS", voltage: 12 });
+      const filtered = new Net({ name: "VBUS_F" });
+      const out = new Net({ name: "VBUS_OUT" });
+      const fb = part("Device:FerriteBead", "FB1");
+      fb.pins[1].tie(vbus);
+      fb.pins[2].tie(filtered);
+      const link = part("Device:R", "R1", "0R");
+      link.pins[1].tie(filtered);
+      link.pins[2].tie(out);
+      const pullup = part("Device:R", "R2", "10k");
+      pullup.pins[1].tie(out);
+      pullup.pins[2].tie(new Net({ name: "BEHIND_R2" }));
+
+      const sensor = new Sensor("U1");
+      sensor.pins.VDD.tie(out);
+      sensor.pins.SDA.tie(pullup.pins[2]);
+    });
+
+    expect(result.errors).toEqual([
+      "Over Voltage: U1.1 is rated 3.6 V absolute maximum but 'VBUS_OUT' carries 12 V.",
+    ]);
+    expect(result.findings[0].nets).toEqual(["VBUS_OUT", "VBUS"]);
+  });
+
+  it("checks capacitor voltage ratings against their rail", () => {
+    const result = check(() => {
+      const vbus = new Net({ name: "VBUS", voltage: 12, tolerance: 0.1 });
+      const gnd = new Net({ name: "GND", voltage: 0 });
+      for (const [ref, value] of [["C1", "10u 16V"], ["C2", "10u 6V3"], ["C3", "100n/10V"], ["C4", "100n"]]) {
+        const cap = part("Device:C", ref, value);
+        cap.pins[1].tie(vbus);
+        cap.pins[2].tie(gnd);
+      }
+    });
+
+    expect(result.errors).toEqual([
+      "Capacitor Rating: C2 (10u 6V3) is rated 6.3 V but sits on 12 V ±10 % ('VBUS').",
+      "Capacitor Rating: C3 (100n/10V) is rated 10 V but sits on 12 V ±10 % ('VBUS').",
+    ]);
+  });
+
+  it("reports rails shorted through pass-through parts and refuses to merge rails", () => {
+    const result = check(() => {
+      const v5 = new Net({ name: "VCC_5V", voltage: 5 });
+      const v33 = new Net({ name: "VCC_3V3", voltage: 3.3 });
+      const bead = part("Device:L", "L1");
+      bead.pins[1].tie(v5);
+      bead.pins[2].tie(v33);
+
+      expect(() => v5.tie(v33)).toThrow(`Cannot merge nets "VCC_5V" (5 V) (created at src/tests/voltage-check.test.ts:104) and "VCC_3V3" (3.3 V) (created at src/tests/voltage-check.test.ts:105): they are different rails.`);
+    });
+
+    expect(result.errors).toEqual(["Rail Conflict: L1 connects 'VCC_5V' (5 V) to 'VCC_3V3' (3.3 V)."]);
+  });
+
+  it("checks capacitors on negative rails by magnitude and leaves crystals alone", () => {
+    const result = check(() => {
+      const vneg = new Net({ name: "VNEG", voltage: -12, tolerance: 0.05 });
+      const gnd = new Net({ name: "GND", voltage: 0 });
+      for (const [ref, value] of [["C1", "10u 16V"], ["C2", "10u 10V"]]) {
+        const cap = part("Device:C", ref, value);
+        cap.pins[1].tie(vneg);
+        cap.pins[2].tie(gnd);
+      }
+      const crystal = new Component({ symbol: "Device:Crystal", ref: "Y1", value: "16MHz", properties: { voltage: 5 }, footprint: "Crystal:Crystal_SMD_3225-4Pin_3.2x2.5mm" });
+      crystal.pins[1].tie(vneg);
+    });
+
+    expect(result.errors).toEqual([
+      "Capacitor Rating: C2 (10u 10V) is rated 10 V but sits on -12 V ±5 % ('VNEG').",
+    ]);
+  });
+
+  it("rates pins by name or number and rejects unknown names", () => {
+    const options = {
+      symbol: "Device:R" as const, ref: "U1", footprint: "Package_SO:SOIC-8",
+      pins: (pin: (n: number) => any) => ({ VDD: pin(1), GND: pin(2), SDA: pin(3) }),
+    };
+    const rated = check(() => {
+      const u1 = new Component({ ...options, pinRatings: { VDD: { absMax: 3.6 }, 3: { absMax: 5.5 } } });
+      u1.pins.VDD.tie(new Net({ name: "VCC_5V", voltage: 5 }));
+      u1.pins.SDA.tie(new Net({ name: "VCC_12V", voltage: 12 }));
+    });
+    expect(rated.errors).toHaveLength(2);
+
+    expect(() => check(() => new Component({ ...options, pinRatings: { VDDD: { absMax: 3.6 } } })))
+      .toThrow(/^pinRatings of U1 \(created at .*\) names unknown pin 'VDDD'\. Pins: 1, 2, 3, VDD, GND, SDA\.$/);
+  });
+});